@@ -38,7 +38,7 @@ export class BuildCommand {
       const localConfig = ConfigManager.readLocalConfig(lambdaDir);
 
       // Check if build is actually needed
-      const needsBuild = BuildUtils.needsRebuild(localConfig, lambdaDir);
+      const needsBuild = await BuildUtils.needsRebuild(localConfig, lambdaDir);
       if (!needsBuild) {
         console.log(
           `✅ Build is up-to-date for ${localConfig.functionName}, skipping rebuild.`
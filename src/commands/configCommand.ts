@@ -2,9 +2,11 @@ import * as vscode from "vscode";
 import * as path from "path";
 import * as fs from "fs";
 import { LambdaDetector, LambdaConfig } from "../detector";
-import { LocalLambdaConfig, TemplateManager, ConfigManager, StringUtils } from "../utils";
+import { LocalLambdaConfig, ConfigManager, StringUtils, EventKinds, TemplateIO } from "../utils";
 import { getGlobalWorkspacePath } from "../extension";
 import { log, logError } from "../logger";
+import { LambdaIndex } from "../lambdaIndex";
+import { RUN_MODES } from "../runtime/nativeRunner";
 
 export class ConfigCommand {
   private detector: LambdaDetector;
@@ -20,7 +22,7 @@ export class ConfigCommand {
       return;
     }
     if (!this.detector.isLambdaFile(activeEditor.document)) {
-      vscode.window.showErrorMessage("Current file is not a valid Lambda main.go file");
+      vscode.window.showErrorMessage("Current file is not part of a Lambda main package");
       return;
     }
     try {
@@ -38,24 +40,42 @@ export class ConfigCommand {
     const functionName = await this.getFunctionName(suggestedName);
     if (!functionName) return;
 
-    const eventType = await this.getEventType(editor.document.getText());
+    const eventType = await this.getEventType(editor.document);
     if (!eventType) return;
+
+    const eventSource = await this.getEventSource(eventType);
+    if (!eventSource) {
+      return;
+    }
     
     const architecture = await this.getArchitecture();
     if (!architecture) return;
 
-    await this.handleExistingConfiguration(editor, workspacePath, functionName);
+    const runMode = await this.getRunMode();
+    if (!runMode) {
+      return;
+    }
+
+    const target = await this.getTargetStack(editor, workspacePath);
+    if (!target) {
+      return;
+    }
+
+    await this.handleExistingConfiguration(editor, workspacePath, functionName, target.stack);
 
+    const sourceFile =
+      this.detector.findEntryFile(editor.document.uri.fsPath, editor.document.getText()) ||
+      editor.document.uri.fsPath;
     const config: LambdaConfig = {
       functionName,
       workspacePath,
       eventType,
       lastModified: new Date().toISOString(),
-      sourceFile: editor.document.uri.fsPath,
-      sourceDir: path.dirname(editor.document.uri.fsPath),
+      sourceFile,
+      sourceDir: path.dirname(sourceFile),
     };
 
-    await this.createLambdaConfiguration(config, architecture);
+    const lambdaDir = await this.createLambdaConfiguration(config, architecture, runMode, eventSource.arn, target.stack);
 
     vscode.window
       .showInformationMessage(
@@ -67,10 +87,10 @@ export class ConfigCommand {
         if (selection === "Open Workspace") {
           vscode.commands.executeCommand(
             "vscode.openFolder",
-            vscode.Uri.file(path.join(workspacePath, functionName))
+            vscode.Uri.file(lambdaDir)
           );
         } else if (selection === "Edit Template") {
-          const templatePath = path.join(workspacePath, functionName, "template.yaml");
+          const templatePath = TemplateIO.getTemplatePath(lambdaDir);
           vscode.workspace.openTextDocument(templatePath).then((doc) => {
             vscode.window.showTextDocument(doc);
           });
@@ -78,7 +98,7 @@ export class ConfigCommand {
       });
   }
   
-  private async handleExistingConfiguration(editor: vscode.TextEditor, workspacePath: string, functionName: string): Promise<void> {
+  private async handleExistingConfiguration(editor: vscode.TextEditor, workspacePath: string, functionName: string, stack?: string): Promise<void> {
     const existingConfig = this.detector.getConfiguration(editor.document.uri);
     if (existingConfig) {
       log(`🔄 Reconfiguring existing lambda: ${existingConfig.functionName}`);
@@ -87,28 +107,34 @@ export class ConfigCommand {
         const oldLambdaDir = path.join(existingConfig.workspacePath, existingConfig.functionName);
         if (fs.existsSync(oldLambdaDir)) {
           log(`🧹 Cleaning old directory: ${oldLambdaDir}`);
-          fs.rmSync(oldLambdaDir, { recursive: true, force: true });
+          ConfigManager.removeLambdaWorkspace(oldLambdaDir);
         }
       }
     }
+    // A function joining a stack gets its own directory inside the stack
+    if (stack) {
+      return;
+    }
     const lambdaDir = path.join(workspacePath, functionName);
     if (fs.existsSync(lambdaDir)) {
       log(`🧹 Cleaning existing directory: ${lambdaDir}`);
       fs.rmSync(lambdaDir, { recursive: true, force: true });
+      LambdaIndex.getInstance().reload(lambdaDir);
     }
   }
 
-  private async createLambdaConfiguration(config: LambdaConfig, architecture: string): Promise<void> {
+  private async createLambdaConfiguration(
+    config: LambdaConfig,
+    architecture: string,
+    runMode: string,
+    eventSourceArn?: string,
+    stack?: string
+  ): Promise<string> {
     // **** CORRECCIÓN AQUÍ ****
     // La llamada ahora solo pasa 'config', que coincide con la nueva firma.
-    this.detector.saveConfiguration(config);
-
-    const lambdaDir = path.join(config.workspacePath, config.functionName);
-
-    if (!fs.existsSync(lambdaDir)) {
-      fs.mkdirSync(lambdaDir, { recursive: true });
+    if (!stack) {
+      this.detector.saveConfiguration(config);
     }
-    log(`📁 Created clean lambda directory: ${lambdaDir}`);
 
     const localConfig: Partial<LocalLambdaConfig> = {
       functionName: config.functionName,
@@ -119,25 +145,49 @@ export class ConfigCommand {
       lastModified: config.lastModified,
       runtime: "provided.al2023",
       architecture: architecture,
-      buildMethod: "direct",
+      buildMethod: runMode,
+      eventSourceArn,
       environment: { variables: {}, lastUpdated: "", source: "manual" },
       template: { timeout: 30, memorySize: 128, description: `Lambda function for ${config.eventType} events` },
     };
 
-    log(`📄 Creating template.yaml as the only source of truth...`);
-    TemplateManager.createTemplate(lambdaDir, localConfig);
-    ConfigManager.cleanupConfigJson(lambdaDir);
-
-    if (config.eventType !== "apigateway") {
-      ConfigManager.createEventFile(path.join(lambdaDir, "event.json"), config.eventType);
-    }
-    
-    const buildDir = path.join(lambdaDir, "build");
-    if (!fs.existsSync(buildDir)) {
-        fs.mkdirSync(buildDir, { recursive: true });
-    }
+    const lambdaDir = stack
+      ? ConfigManager.addLambdaToStack(path.join(config.workspacePath, stack), localConfig)
+      : ConfigManager.createLambdaWorkspace(localConfig);
 
     log(`✅ Configuration complete - template.yaml is the only source of truth!`);
+    return lambdaDir;
+  }
+
+  /**
+   * Asks whether the lambda gets its own template.yaml or joins the stack of
+   * an existing workspace entry, which then holds several functions
+   */
+  private async getTargetStack(editor: vscode.TextEditor, workspacePath: string): Promise<{ stack?: string } | undefined> {
+    const reconfigured = this.detector.getConfiguration(editor.document.uri);
+    const entries = [
+      ...new Set(
+        LambdaIndex.getInstance()
+          .getAll(workspacePath)
+          .filter((config) => config.functionName !== reconfigured?.functionName)
+          .map((config) => config.stack || config.functionName)
+      ),
+    ];
+    if (entries.length === 0) {
+      return {};
+    }
+    const selected = await vscode.window.showQuickPick(
+      [
+        { label: "$(new-folder) New template.yaml", description: "A workspace entry of its own", stack: undefined },
+        ...entries.map((entry) => ({
+          label: `$(layers) Add to ${entry}`,
+          description: "Share the template.yaml of this entry",
+          stack: entry,
+        })),
+      ],
+      { placeHolder: "Where should this Lambda be declared?" }
+    );
+    return selected && { stack: selected.stack };
   }
 
   private async getFunctionName(suggested: string): Promise<string | undefined> {
@@ -166,20 +216,60 @@ export class ConfigCommand {
     return selected?.value;
   }
 
-  private async getEventType(sourceCode: string): Promise<string | undefined> {
-    const detectedType = this.detector.detectEventType(sourceCode);
-    const eventTypes = [
-      { label: "🌐 API Gateway (REST)", value: "apigateway", description: "HTTP REST API events" },
-      { label: "🪣 S3 Events", value: "s3", description: "S3 bucket events" },
-      { label: "📊 DynamoDB Streams", value: "dynamodb", description: "DynamoDB stream events" },
-      { label: "📬 SQS Messages", value: "sqs", description: "SQS queue events" },
-    ];
+  private async getRunMode(): Promise<string | undefined> {
+    const selected = await vscode.window.showQuickPick(RUN_MODES, {
+        placeHolder: "How should this Lambda run locally?",
+    });
+    return selected?.value;
+  }
+
+  /**
+   * For event sources that read from a resource (bucket, queue, stream...),
+   * asks whether the template should create it or use an existing ARN
+   */
+  private async getEventSource(eventType: string): Promise<{ arn?: string } | undefined> {
+    const source = EventKinds.get(eventType)?.eventSource;
+    if (!source?.existing) {
+      return {};
+    }
+    const existing = source.existing;
+    const selected = await vscode.window.showQuickPick(
+      [
+        { label: `$(add) Create a new ${source.label}`, description: `Declared in template.yaml as ${source.logicalId}`, value: "create" },
+        { label: `$(link) Use an existing ${source.label}`, description: `Passed as the ${existing.parameter} parameter`, value: "existing" },
+      ],
+      { placeHolder: `Which ${source.label} should trigger this Lambda?` }
+    );
+    if (!selected) {
+      return undefined;
+    }
+    if (selected.value === "create") {
+      return {};
+    }
+    const arn = await vscode.window.showInputBox({
+      prompt: `Enter the ${existing.description}`,
+      placeHolder: `arn:aws:${existing.arnService}:us-east-1:123456789012:...`,
+      validateInput: (value) =>
+        new RegExp(`^arn:aws[a-z-]*:${existing.arnService}:`).test(value.trim())
+          ? null
+          : `Expected an ARN like arn:aws:${existing.arnService}:...`,
+    });
+    return arn ? { arn: arn.trim() } : undefined;
+  }
+
+  private async getEventType(document: vscode.TextDocument): Promise<string | undefined> {
+    const handler = this.detector.analyzeHandler(document.uri.fsPath, document.getText());
+    const detectedType = handler ? handler.eventType : this.detector.detectEventType(document.getText());
+    const eventTypes = EventKinds.getQuickPickItems();
     let preselectedIndex = 0;
     if (detectedType) {
       const foundIndex = eventTypes.findIndex((type) => type.value === detectedType);
       if (foundIndex >= 0) {
         preselectedIndex = foundIndex;
-        vscode.window.showInformationMessage(`🎯 Auto-detected event type: ${eventTypes[foundIndex].label}`);
+        const signature = handler
+          ? ` (${handler.handlerName}: ${handler.inputType || "no event"} → ${handler.outputType || "error"})`
+          : "";
+        vscode.window.showInformationMessage(`🎯 Auto-detected event type: ${eventTypes[foundIndex].label}${signature}`);
       }
     }
     const selectedType = await vscode.window.showQuickPick(eventTypes, {
@@ -0,0 +1,83 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { LambdaDetector } from "../detector";
+import { ConfigManager, EventStore } from "../utils";
+import { DebugRunner } from "../runtime/debugRunner";
+import { logError } from "../logger";
+
+export class DebugCommand {
+  private detector: LambdaDetector;
+
+  constructor(private context: vscode.ExtensionContext) {
+    this.detector = new LambdaDetector();
+  }
+
+  async execute(): Promise<void> {
+    const activeEditor = vscode.window.activeTextEditor;
+    if (!activeEditor) {
+      vscode.window.showErrorMessage("No active editor found");
+      return;
+    }
+    const config = this.detector.getConfiguration(activeEditor.document.uri);
+    if (!config) {
+      vscode.window.showErrorMessage(
+        "Lambda not configured. Please run the lambda first to auto-configure."
+      );
+      return;
+    }
+
+    const lambdaDir = path.join(config.workspacePath, config.functionName);
+    try {
+      const localConfig = ConfigManager.readLocalConfig(lambdaDir);
+      const eventName = await this.pickEvent(
+        lambdaDir,
+        localConfig.defaultEvent
+      );
+      if (!eventName) {
+        return;
+      }
+      await DebugRunner.run(
+        localConfig,
+        lambdaDir,
+        EventStore.getEventPath(lambdaDir, eventName)
+      );
+    } catch (error) {
+      logError("Failed to debug lambda", error, true);
+    }
+  }
+
+  /**
+   * The only event of the lambda, or the one picked with the default first
+   */
+  private async pickEvent(
+    lambdaDir: string,
+    defaultEvent?: string
+  ): Promise<string | undefined> {
+    const resolved = EventStore.resolveDefault(lambdaDir, defaultEvent);
+    if (!resolved) {
+      const createEvent = await vscode.window.showInformationMessage(
+        "No test events found in events/. Create one now?",
+        "Yes",
+        "No"
+      );
+      if (createEvent === "Yes") {
+        await vscode.commands.executeCommand("gecko.editEvent");
+      }
+      return undefined;
+    }
+    const others = EventStore.list(lambdaDir).filter(
+      (name) => name !== resolved
+    );
+    if (others.length === 0) {
+      return resolved;
+    }
+    const picked = await vscode.window.showQuickPick(
+      [
+        { label: resolved, description: "default" },
+        ...others.map((label) => ({ label })),
+      ],
+      { placeHolder: "Event to debug the lambda with" }
+    );
+    return picked?.label;
+  }
+}
@@ -0,0 +1,468 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import * as fs from "fs";
+import { LambdaDetector, LambdaConfig } from "../detector";
+import { ConfigManager, EventKinds, LocalLambdaConfig, TemplateManager } from "../utils";
+import { getGlobalWorkspacePath } from "../extension";
+import { log, logError } from "../logger";
+
+interface DiscoveredLambda {
+  sourceFile: string;
+  sourceDir: string;
+  functionName: string;
+  eventType: string;
+  architecture: string;
+  handlerName?: string;
+}
+
+interface DiscoveryResult {
+  newLambdas: DiscoveredLambda[];
+  configured: { discovered: DiscoveredLambda; config: LambdaConfig }[];
+  moved: { config: LambdaConfig; discovered?: DiscoveredLambda }[];
+}
+
+type DiscoverPickItem = vscode.QuickPickItem & {
+  discovered: DiscoveredLambda;
+  relink?: LambdaConfig;
+};
+
+export class DiscoverCommand {
+  private static readonly EXCLUDE_GLOB =
+    "**/{vendor,node_modules,.git,testdata,.aws-sam}/**";
+
+  private detector: LambdaDetector;
+
+  constructor(private context: vscode.ExtensionContext) {
+    this.detector = new LambdaDetector();
+  }
+
+  async execute(): Promise<void> {
+    if (!vscode.workspace.workspaceFolders?.length) {
+      vscode.window.showErrorMessage(
+        "Open a folder with Go sources to discover Lambda functions"
+      );
+      return;
+    }
+
+    try {
+      const workspacePath = getGlobalWorkspacePath();
+      const result = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: "🦎 Discovering Lambda functions",
+          cancellable: true,
+        },
+        (progress, token) => this.discover(workspacePath, progress, token)
+      );
+      if (!result) {
+        return;
+      }
+
+      log(
+        `🔍 Discovery: ${result.newLambdas.length} new, ${result.configured.length} configured, ${result.moved.length} moved`
+      );
+
+      const items = this.buildPickItems(result);
+      if (items.length === 0) {
+        vscode.window
+          .showInformationMessage(
+            `🦎 No new Lambda functions found (${result.configured.length} already configured)`,
+            "Show Report"
+          )
+          .then((selection) => {
+            if (selection === "Show Report") {
+              this.showReport(result, [], workspacePath);
+            }
+          });
+        return;
+      }
+
+      const selected = await vscode.window.showQuickPick(items, {
+        canPickMany: true,
+        placeHolder: `Select the Lambda functions to configure (${items.length} found)`,
+        matchOnDescription: true,
+        matchOnDetail: true,
+      });
+      if (!selected || selected.length === 0) {
+        return;
+      }
+
+      const mode = await vscode.window.showQuickPick(
+        [
+          { label: "$(check-all) Use suggested settings", value: "suggested" },
+          { label: "$(edit) Review each function", value: "review" },
+        ],
+        { placeHolder: `Configure ${selected.length} Lambda functions` }
+      );
+      if (!mode) {
+        return;
+      }
+
+      const created: DiscoveredLambda[] = [];
+      for (const item of selected) {
+        const discovered =
+          mode.value === "review"
+            ? await this.reviewLambda(item.discovered)
+            : item.discovered;
+        if (!discovered) {
+          continue;
+        }
+        try {
+          if (item.relink) {
+            this.relinkLambda(item.relink, discovered);
+          } else {
+            this.createLambda(discovered, workspacePath);
+          }
+          created.push(discovered);
+        } catch (error) {
+          logError(`Could not configure ${discovered.functionName}`, error);
+        }
+      }
+
+      vscode.commands.executeCommand("gecko.refreshTreeView");
+      vscode.window
+        .showInformationMessage(
+          `🦎 Configured ${created.length} of ${selected.length} Lambda functions`,
+          "Show Report"
+        )
+        .then((selection) => {
+          if (selection === "Show Report") {
+            this.showReport(result, created, workspacePath);
+          }
+        });
+    } catch (error) {
+      logError("Lambda discovery failed", error, true);
+    }
+  }
+
+  private async discover(
+    workspacePath: string,
+    progress: vscode.Progress<{ message?: string; increment?: number }>,
+    token: vscode.CancellationToken
+  ): Promise<DiscoveryResult | undefined> {
+    progress.report({ message: "Looking for Go packages..." });
+    const goFiles = await vscode.workspace.findFiles(
+      "**/*.go",
+      DiscoverCommand.EXCLUDE_GLOB
+    );
+
+    const packageDirs = new Map<string, string>();
+    for (const uri of goFiles) {
+      if (uri.fsPath.endsWith("_test.go")) {
+        continue;
+      }
+      const dir = path.dirname(uri.fsPath);
+      if (!packageDirs.has(dir)) {
+        packageDirs.set(dir, uri.fsPath);
+      }
+    }
+
+    const discovered: DiscoveredLambda[] = [];
+    let scanned = 0;
+    for (const sourceFile of packageDirs.values()) {
+      if (token.isCancellationRequested) {
+        return undefined;
+      }
+      scanned++;
+      progress.report({
+        message: `${scanned}/${packageDirs.size} packages`,
+        increment: 100 / packageDirs.size,
+      });
+
+      const entryFile = this.detector.findEntryFile(sourceFile);
+      if (!entryFile) {
+        continue;
+      }
+      const handler = this.detector.analyzeHandler(entryFile);
+      discovered.push({
+        sourceFile: entryFile,
+        sourceDir: path.dirname(entryFile),
+        functionName: this.detector.getFunctionNameFromPath(
+          vscode.Uri.file(entryFile)
+        ),
+        eventType: handler?.eventType || EventKinds.DEFAULT_ID,
+        architecture: this.suggestArchitecture(path.dirname(entryFile)),
+        handlerName: handler?.handlerName,
+      });
+    }
+
+    this.makeNamesUnique(discovered);
+    return this.classify(discovered, workspacePath);
+  }
+
+  private classify(
+    discovered: DiscoveredLambda[],
+    workspacePath: string
+  ): DiscoveryResult {
+    const existing = this.detector.getAllLambdaFunctions(workspacePath);
+    const result: DiscoveryResult = { newLambdas: [], configured: [], moved: [] };
+
+    const missing = existing.filter(
+      (config) => !config.sourceFile || !fs.existsSync(config.sourceFile)
+    );
+
+    for (const lambda of discovered) {
+      const config = existing.find(
+        (candidate) =>
+          candidate.sourceFile &&
+          path.dirname(candidate.sourceFile) === lambda.sourceDir
+      );
+      if (config) {
+        result.configured.push({ discovered: lambda, config });
+      } else {
+        result.newLambdas.push(lambda);
+      }
+    }
+
+    // Each source is offered to one moved lambda, same names first
+    const matches = new Map<LambdaConfig, DiscoveredLambda>();
+    const claim = (
+      isMatch: (config: LambdaConfig, lambda: DiscoveredLambda) => boolean
+    ) => {
+      for (const config of missing) {
+        if (matches.has(config)) {
+          continue;
+        }
+        const taken = new Set(matches.values());
+        const match = result.newLambdas.find(
+          (lambda) => !taken.has(lambda) && isMatch(config, lambda)
+        );
+        if (match) {
+          matches.set(config, match);
+        }
+      }
+    };
+    claim((config, lambda) => lambda.functionName === config.functionName);
+    claim(
+      (config, lambda) =>
+        !!config.sourceFile &&
+        path.basename(lambda.sourceDir) ===
+          path.basename(path.dirname(config.sourceFile))
+    );
+
+    for (const config of missing) {
+      result.moved.push({ config, discovered: matches.get(config) });
+    }
+    return result;
+  }
+
+  private buildPickItems(result: DiscoveryResult): DiscoverPickItem[] {
+    // Source files already offered as the new home of a moved lambda
+    const relinked = new Set<string>();
+    const items: DiscoverPickItem[] = [];
+
+    for (const moved of result.moved) {
+      if (!moved.discovered || relinked.has(moved.discovered.sourceFile)) {
+        continue;
+      }
+      relinked.add(moved.discovered.sourceFile);
+      items.push({
+        label: `$(arrow-swap) ${moved.config.functionName}`,
+        description: `source moved • relink to ${this.relativePath(
+          moved.discovered.sourceFile
+        )}`,
+        detail: `Previously ${moved.config.sourceFile}`,
+        picked: true,
+        discovered: { ...moved.discovered, functionName: moved.config.functionName },
+        relink: moved.config,
+      });
+    }
+
+    for (const lambda of result.newLambdas) {
+      if (relinked.has(lambda.sourceFile)) {
+        continue;
+      }
+      items.push({
+        label: `$(symbol-function) ${lambda.functionName}`,
+        description: `${lambda.eventType} • ${lambda.architecture}${
+          lambda.handlerName ? ` • ${lambda.handlerName}` : ""
+        }`,
+        detail: this.relativePath(lambda.sourceFile),
+        picked: true,
+        discovered: lambda,
+      });
+    }
+    return items;
+  }
+
+  private async reviewLambda(
+    lambda: DiscoveredLambda
+  ): Promise<DiscoveredLambda | undefined> {
+    const functionName = await vscode.window.showInputBox({
+      prompt: `Lambda function name for ${this.relativePath(lambda.sourceFile)}`,
+      value: lambda.functionName,
+      validateInput: (value) => {
+        if (!value || !/^[a-zA-Z0-9-_]+$/.test(value.trim())) {
+          return "Function name can only contain letters, numbers, hyphens, and underscores";
+        }
+        return null;
+      },
+    });
+    if (!functionName) {
+      return undefined;
+    }
+
+    const eventTypes = EventKinds.getQuickPickItems().map((item) => ({
+      ...item,
+      picked: item.value === lambda.eventType,
+      description:
+        item.value === lambda.eventType
+          ? `${item.description} (detected)`
+          : item.description,
+    }));
+    const eventType = await vscode.window.showQuickPick(eventTypes, {
+      placeHolder: `Event type for ${functionName}`,
+    });
+    if (!eventType) {
+      return undefined;
+    }
+
+    const architecture = await vscode.window.showQuickPick(
+      [
+        { label: "arm64 (AWS Graviton)", value: "arm64" },
+        { label: "x86_64 (Intel/AMD)", value: "x86_64" },
+      ],
+      { placeHolder: `Architecture for ${functionName} (suggested: ${lambda.architecture})` }
+    );
+    if (!architecture) {
+      return undefined;
+    }
+
+    return {
+      ...lambda,
+      functionName: functionName.trim(),
+      eventType: eventType.value,
+      architecture: architecture.value,
+    };
+  }
+
+  private createLambda(lambda: DiscoveredLambda, workspacePath: string): void {
+    const lambdaDir = path.join(workspacePath, lambda.functionName);
+    if (fs.existsSync(path.join(lambdaDir, "template.yaml"))) {
+      throw new Error(`Workspace directory already exists: ${lambdaDir}`);
+    }
+
+    const localConfig: Partial<LocalLambdaConfig> = {
+      functionName: lambda.functionName,
+      sourceMainFile: lambda.sourceFile,
+      sourceDir: lambda.sourceDir,
+      eventType: lambda.eventType,
+      workspacePath,
+      lastModified: new Date().toISOString(),
+      runtime: "provided.al2023",
+      architecture: lambda.architecture,
+      buildMethod: "direct",
+      environment: { variables: {}, lastUpdated: "", source: "manual" },
+      template: {
+        timeout: 30,
+        memorySize: 128,
+        description: `Lambda function for ${lambda.eventType} events`,
+      },
+    };
+    ConfigManager.createLambdaWorkspace(localConfig);
+    log(`✅ Discovered lambda configured: ${lambda.functionName}`);
+  }
+
+  private relinkLambda(config: LambdaConfig, lambda: DiscoveredLambda): void {
+    const lambdaDir = path.join(config.workspacePath, config.functionName);
+    TemplateManager.updateGeckoMetadata(
+      lambdaDir,
+      lambda.sourceFile,
+      lambda.sourceDir,
+      config.eventType
+    );
+    log(`🔗 Relinked ${config.functionName} to ${lambda.sourceFile}`);
+  }
+
+  /**
+   * Prefers the architecture already used by the package's build scripts
+   */
+  private suggestArchitecture(sourceDir: string): string {
+    for (const name of ["Makefile", "template.yaml", "template.yml"]) {
+      const file = path.join(sourceDir, name);
+      if (!fs.existsSync(file)) {
+        continue;
+      }
+      const content = fs.readFileSync(file, "utf8");
+      if (/GOARCH=amd64|x86_64/.test(content)) {
+        return "x86_64";
+      }
+      if (/GOARCH=arm64|arm64/.test(content)) {
+        return "arm64";
+      }
+    }
+    return "arm64";
+  }
+
+  /**
+   * Several packages can share a directory name (e.g. cmd/api in two
+   * services); prefix duplicates with their parent directory.
+   */
+  private makeNamesUnique(lambdas: DiscoveredLambda[]): void {
+    const counts = new Map<string, number>();
+    lambdas.forEach((lambda) =>
+      counts.set(lambda.functionName, (counts.get(lambda.functionName) || 0) + 1)
+    );
+    for (const lambda of lambdas) {
+      if ((counts.get(lambda.functionName) || 0) > 1) {
+        const parent = path
+          .basename(path.dirname(lambda.sourceDir))
+          .replace(/[^a-zA-Z0-9-_]/g, "-")
+          .toLowerCase();
+        lambda.functionName = `${parent}-${lambda.functionName}`;
+      }
+    }
+  }
+
+  private relativePath(file: string): string {
+    return vscode.workspace.asRelativePath(file, true);
+  }
+
+  private async showReport(
+    result: DiscoveryResult,
+    created: DiscoveredLambda[],
+    workspacePath: string
+  ): Promise<void> {
+    const list = (lines: string[]) =>
+      lines.length > 0 ? lines.join("\n") : "- None";
+
+    const infoContent = `🦎 **Lambda Discovery Report**
+## Summary
+- **Workspace:** ${workspacePath}
+- **New functions found:** ${result.newLambdas.length}
+- **Configured in this run:** ${created.length}
+- **Already configured:** ${result.configured.length}
+- **Source moved or missing:** ${result.moved.length}
+## Configured in this run
+${list(
+  created.map(
+    (lambda) =>
+      `- **${lambda.functionName}** (${lambda.eventType}, ${lambda.architecture}) - ${this.relativePath(lambda.sourceFile)}`
+  )
+)}
+## Already configured
+${list(
+  result.configured.map(
+    ({ discovered, config }) =>
+      `- **${config.functionName}** - ${this.relativePath(discovered.sourceFile)}`
+  )
+)}
+## Source moved or missing
+${list(
+  result.moved.map(({ config, discovered }) =>
+    discovered
+      ? `- **${config.functionName}** - was ${config.sourceFile}, now ${this.relativePath(discovered.sourceFile)}`
+      : `- **${config.functionName}** - ${config.sourceFile || "no source file"} not found`
+  )
+)}`;
+
+    const infoDocument = await vscode.workspace.openTextDocument({
+      content: infoContent,
+      language: "markdown",
+    });
+    await vscode.window.showTextDocument(infoDocument, {
+      viewColumn: vscode.ViewColumn.Beside,
+      preview: true,
+    });
+  }
+}
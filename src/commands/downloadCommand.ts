@@ -2,7 +2,7 @@ import * as vscode from "vscode";
 import * as path from "path";
 import * as fs from "fs";
 import { LambdaDetector } from "../detector";
-import { ConfigManager, TemplateManager, AWSUtils } from "../utils";
+import { ConfigManager, TemplateManager, TemplateIO, AWSUtils } from "../utils";
 
 export class DownloadCommand {
   private detector: LambdaDetector;
@@ -128,7 +128,7 @@ export class DownloadCommand {
   ): Promise<void> {
     try {
       const lambdaDir = path.join(config.workspacePath, config.functionName);
-      const templatePath = path.join(lambdaDir, "template.yaml");
+      const templatePath = TemplateIO.getTemplatePath(lambdaDir);
 
       console.log(
         `📄 Updating template.yaml (only source of truth): ${templatePath}`
@@ -183,7 +183,7 @@ export class DownloadCommand {
     envCount: number,
     awsFunctionName: string
   ): Promise<void> {
-    const templatePath = path.join(lambdaDir, "template.yaml");
+    const templatePath = TemplateIO.getTemplatePath(lambdaDir);
     const templateStats = fs.existsSync(templatePath)
       ? fs.statSync(templatePath)
       : null;
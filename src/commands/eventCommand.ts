@@ -2,7 +2,7 @@ import * as vscode from "vscode";
 import * as path from "path";
 import * as fs from "fs";
 import { LambdaDetector } from "../detector";
-import { ConfigManager, EventTemplates } from "../utils";
+import { ConfigManager, EventTemplates, EventStore } from "../utils";
 import { log, logError } from "../logger";
 
 export class EventCommand {
@@ -30,7 +30,6 @@ export class EventCommand {
 
   private async openEventFile(config: any): Promise<void> {
     const lambdaDir = path.join(config.workspacePath, config.functionName);
-    const eventFilePath = path.join(lambdaDir, "event.json");
 
     try {
       ConfigManager.cleanupConfigJson(lambdaDir);
@@ -46,11 +45,13 @@ export class EventCommand {
         };
       }
 
-      // CORREGIDO: Usar ConfigManager en lugar de FileUtils
-      if (!fs.existsSync(eventFilePath)) {
-        ConfigManager.createEventFile(eventFilePath, localConfig.eventType);
+      let eventName = EventStore.resolveDefault(lambdaDir, localConfig.defaultEvent);
+      if (!eventName) {
+        eventName = EventStore.DEFAULT_EVENT;
+        EventStore.create(lambdaDir, eventName, localConfig.eventType);
         log(`Created new event file for ${localConfig.functionName}`);
       }
+      const eventFilePath = EventStore.getEventPath(lambdaDir, eventName);
       
       const eventDocument = await vscode.workspace.openTextDocument(eventFilePath);
       const editor = await vscode.window.showTextDocument(eventDocument, {
@@ -62,7 +63,7 @@ export class EventCommand {
 
       vscode.window
         .showInformationMessage(
-          `📝 Editing test event for ${localConfig.functionName} (${localConfig.eventType})`,
+          `📝 Editing test event "${eventName}" for ${localConfig.functionName} (${localConfig.eventType})`,
           "Add Sample Data",
           "Reset to Template",
           "Show Config"
@@ -73,7 +74,7 @@ export class EventCommand {
               await this.addSampleData(editor, localConfig.eventType);
               break;
             case "Reset to Template":
-              await this.resetToTemplate(eventFilePath, localConfig.eventType);
+              await this.resetToTemplate(lambdaDir, eventName!, localConfig.eventType);
               break;
             case "Show Config":
               await this.showConfig(localConfig, lambdaDir);
@@ -115,7 +116,8 @@ export class EventCommand {
   }
 
   private async resetToTemplate(
-    eventFilePath: string,
+    lambdaDir: string,
+    eventName: string,
     eventType: string
   ): Promise<void> {
     const confirmation = await vscode.window.showWarningMessage(
@@ -124,8 +126,7 @@ export class EventCommand {
       "No"
     );
     if (confirmation === "Yes") {
-      // CORREGIDO: Usar ConfigManager en lugar de FileUtils
-      ConfigManager.createEventFile(eventFilePath, eventType);
+      const eventFilePath = EventStore.reset(lambdaDir, eventName, eventType);
       vscode.window.showInformationMessage("🔄 Event file reset to template");
       
       // La lógica de refrescar el editor puede permanecer igual
@@ -0,0 +1,392 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import * as fs from "fs";
+import { LambdaDetector } from "../detector";
+import {
+  ConfigManager,
+  EventKinds,
+  SamFunctionImport,
+  TemplateIO,
+} from "../utils";
+import { getGlobalWorkspacePath } from "../extension";
+import { LambdaIndex } from "../lambdaIndex";
+import { log, logError } from "../logger";
+
+interface SkippedFunction {
+  logicalId: string;
+  reason: string;
+}
+
+type ImportPickItem = vscode.QuickPickItem & { fn: SamFunctionImport };
+
+/**
+ * Imports a hand-written SAM project: each Go function of its template.yaml
+ * is linked to the main package its `CodeUri` points at, and the project
+ * becomes a multi-function stack in the Gecko workspace.
+ */
+export class ImportCommand {
+  private static readonly EXCLUDE_GLOB =
+    "**/{vendor,node_modules,.git,testdata,.aws-sam}/**";
+  private static readonly SKIPPED_DIRS = [
+    "vendor",
+    "node_modules",
+    ".git",
+    "testdata",
+    ".aws-sam",
+  ];
+  private static readonly SEARCH_DEPTH = 3;
+
+  private detector: LambdaDetector;
+
+  constructor(private context: vscode.ExtensionContext) {
+    this.detector = new LambdaDetector();
+  }
+
+  async execute(): Promise<void> {
+    try {
+      const workspacePath = getGlobalWorkspacePath();
+      const templatePath = await this.pickTemplate(workspacePath);
+      if (!templatePath) {
+        return;
+      }
+
+      const template = TemplateIO.parse(fs.readFileSync(templatePath, "utf8"));
+      const skipped: SkippedFunction[] = [];
+      const functions = await this.readFunctions(
+        template,
+        templatePath,
+        skipped
+      );
+      skipped.forEach(({ logicalId, reason }) =>
+        log(`⏭️ Not importing ${logicalId}: ${reason}`)
+      );
+      if (functions.length === 0) {
+        vscode.window.showErrorMessage(
+          `🦎 No Go functions to import from ${this.relativePath(
+            templatePath
+          )}${
+            skipped.length > 0
+              ? `: ${skipped
+                  .map(({ logicalId, reason }) => `${logicalId} (${reason})`)
+                  .join(", ")}`
+              : ""
+          }`
+        );
+        return;
+      }
+
+      const selected = await vscode.window.showQuickPick(
+        functions.map((fn) => this.toPickItem(workspacePath, fn)),
+        {
+          canPickMany: true,
+          placeHolder: `Select the functions to import (${
+            functions.length
+          } found${skipped.length > 0 ? `, ${skipped.length} skipped` : ""})`,
+          matchOnDescription: true,
+          matchOnDetail: true,
+        }
+      );
+      if (!selected || selected.length === 0) {
+        return;
+      }
+
+      const stackName = await this.getStackName(workspacePath, templatePath);
+      if (!stackName) {
+        return;
+      }
+
+      const stackDir = ConfigManager.importStack(
+        path.join(workspacePath, stackName),
+        templatePath,
+        selected.map((item) => item.fn)
+      );
+      vscode.commands.executeCommand("gecko.refreshTreeView");
+      vscode.window
+        .showInformationMessage(
+          `🦎 Imported ${selected.length} function${
+            selected.length === 1 ? "" : "s"
+          } into "${stackName}". ${this.relativePath(
+            templatePath
+          )} was left unchanged.`,
+          "Open Template"
+        )
+        .then(async (selection) => {
+          if (selection === "Open Template") {
+            const document = await vscode.workspace.openTextDocument(
+              TemplateIO.getTemplatePath(stackDir)
+            );
+            await vscode.window.showTextDocument(document);
+          }
+        });
+    } catch (error) {
+      logError("SAM project import failed", error, true);
+    }
+  }
+
+  /**
+   * Offers the SAM templates of the open folders, or any file on disk
+   */
+  private async pickTemplate(
+    workspacePath: string
+  ): Promise<string | undefined> {
+    const found = await vscode.workspace.findFiles(
+      "**/template.{yaml,yml}",
+      ImportCommand.EXCLUDE_GLOB
+    );
+    const templates = found
+      .map((uri) => uri.fsPath)
+      .filter(
+        (file) => !path.resolve(file).startsWith(path.resolve(workspacePath))
+      )
+      .filter((file) => this.isSamTemplate(file));
+
+    const browse = { label: "$(folder-opened) Browse...", file: undefined };
+    const selected = await vscode.window.showQuickPick(
+      [
+        ...templates.map((file) => ({
+          label: `$(file-code) ${this.relativePath(file)}`,
+          file: file as string | undefined,
+        })),
+        browse,
+      ],
+      { placeHolder: "Select the SAM template to import" }
+    );
+    if (!selected) {
+      return undefined;
+    }
+    if (selected.file) {
+      return selected.file;
+    }
+
+    const uris = await vscode.window.showOpenDialog({
+      canSelectMany: false,
+      openLabel: "Import",
+      filters: { "SAM template": ["yaml", "yml"] },
+    });
+    return uris?.[0]?.fsPath;
+  }
+
+  private isSamTemplate(file: string): boolean {
+    try {
+      return /AWS::Serverless/.test(fs.readFileSync(file, "utf8"));
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Resolves the Go main package of every function resource, recording why
+   * the others can't be imported
+   */
+  private async readFunctions(
+    template: any,
+    templatePath: string,
+    skipped: SkippedFunction[]
+  ): Promise<SamFunctionImport[]> {
+    const globals = template?.Globals?.Function || {};
+    const resources = template?.Resources || {};
+    const functions: SamFunctionImport[] = [];
+
+    for (const [logicalId, resource] of Object.entries<any>(resources)) {
+      if (resource?.Type !== "AWS::Serverless::Function") {
+        continue;
+      }
+      const properties = resource.Properties || {};
+      const runtime = properties.Runtime || globals.Runtime;
+      const codeUri = properties.CodeUri ?? globals.CodeUri;
+      const buildMethod = resource.Metadata?.BuildMethod;
+
+      if ((properties.PackageType || globals.PackageType) === "Image") {
+        skipped.push({ logicalId, reason: "container image" });
+        continue;
+      }
+      if (properties.InlineCode !== undefined) {
+        skipped.push({ logicalId, reason: "inline code" });
+        continue;
+      }
+      if (
+        runtime &&
+        runtime !== "go1.x" &&
+        !String(runtime).startsWith("provided")
+      ) {
+        skipped.push({ logicalId, reason: `${runtime} is not a Go runtime` });
+        continue;
+      }
+      if (typeof codeUri !== "string" || /^s3:\/\//.test(codeUri)) {
+        skipped.push({ logicalId, reason: "CodeUri is not a local path" });
+        continue;
+      }
+      const codeDir = path.resolve(path.dirname(templatePath), codeUri);
+      if (!fs.existsSync(codeDir) || !fs.statSync(codeDir).isDirectory()) {
+        skipped.push({ logicalId, reason: `${codeUri} is not a directory` });
+        continue;
+      }
+
+      const sourceFile = await this.findSource(
+        codeDir,
+        logicalId,
+        properties.Handler || globals.Handler,
+        buildMethod
+      );
+      if (!sourceFile) {
+        skipped.push({
+          logicalId,
+          reason: `no Go main package in ${codeUri}`,
+        });
+        continue;
+      }
+
+      const events = Object.values<any>(properties.Events || {});
+      const eventType = events.length
+        ? EventKinds.fromSamEventType(events[0]?.Type)?.id ||
+          EventKinds.DEFAULT_ID
+        : this.detector.analyzeHandler(sourceFile)?.eventType ||
+          EventKinds.DEFAULT_ID;
+
+      functions.push({
+        logicalId,
+        sourceFile,
+        sourceDir: path.dirname(sourceFile),
+        eventType,
+        architecture:
+          properties.Architectures?.[0] ||
+          globals.Architectures?.[0] ||
+          "x86_64",
+        runtime: !runtime || runtime === "go1.x" ? "provided.al2023" : runtime,
+      });
+    }
+    return functions;
+  }
+
+  /**
+   * With the go1.x build method `CodeUri` is the main package itself. With a
+   * makefile it is the module or project root, so the main package is looked
+   * up below it, preferring one named after the handler or the function.
+   */
+  private async findSource(
+    codeDir: string,
+    logicalId: string,
+    handler: string | undefined,
+    buildMethod: string | undefined
+  ): Promise<string | undefined> {
+    const entry = this.findEntryInDir(codeDir);
+    if (entry || buildMethod === "go1.x") {
+      return entry;
+    }
+
+    const candidates = this.findMainPackages(
+      codeDir,
+      ImportCommand.SEARCH_DEPTH
+    );
+    if (candidates.length <= 1) {
+      return candidates[0];
+    }
+    const names = [handler, logicalId, logicalId.replace(/Function$/, "")]
+      .filter((name): name is string => !!name && name !== "bootstrap")
+      .map((name) => this.normalize(name));
+    const named = candidates.filter((file) =>
+      names.includes(this.normalize(path.basename(path.dirname(file))))
+    );
+    if (named.length === 1) {
+      return named[0];
+    }
+
+    const selected = await vscode.window.showQuickPick(
+      candidates.map((file) => ({
+        label: this.relativePath(path.dirname(file)),
+        description: path.basename(file),
+        file,
+      })),
+      { placeHolder: `Select the Go main package of ${logicalId}` }
+    );
+    return selected?.file;
+  }
+
+  private findMainPackages(dir: string, depth: number): string[] {
+    const entry = this.findEntryInDir(dir);
+    if (entry) {
+      return [entry];
+    }
+    if (depth === 0) {
+      return [];
+    }
+    return fs
+      .readdirSync(dir, { withFileTypes: true })
+      .filter(
+        (dirent) =>
+          dirent.isDirectory() &&
+          !dirent.name.startsWith(".") &&
+          !ImportCommand.SKIPPED_DIRS.includes(dirent.name)
+      )
+      .flatMap((dirent) =>
+        this.findMainPackages(path.join(dir, dirent.name), depth - 1)
+      );
+  }
+
+  private findEntryInDir(dir: string): string | undefined {
+    const goFile = fs
+      .readdirSync(dir)
+      .find((name) => name.endsWith(".go") && !name.endsWith("_test.go"));
+    return goFile
+      ? this.detector.findEntryFile(path.join(dir, goFile)) || undefined
+      : undefined;
+  }
+
+  private toPickItem(
+    workspacePath: string,
+    fn: SamFunctionImport
+  ): ImportPickItem {
+    const configured = LambdaIndex.getInstance().findBySourceFile(
+      workspacePath,
+      fn.sourceFile
+    );
+    return {
+      label: `$(symbol-function) ${fn.logicalId}`,
+      description: `${fn.eventType} • ${fn.architecture}${
+        configured ? ` • already configured as ${configured.functionName}` : ""
+      }`,
+      detail: this.relativePath(fn.sourceFile),
+      picked: !configured,
+      fn,
+    };
+  }
+
+  private async getStackName(
+    workspacePath: string,
+    templatePath: string
+  ): Promise<string | undefined> {
+    const base =
+      path
+        .basename(path.dirname(templatePath))
+        .replace(/[^a-zA-Z0-9-_]/g, "-")
+        .replace(/^-+|-+$/g, "")
+        .toLowerCase() || "sam-project";
+    let suggested = base;
+    for (let i = 2; fs.existsSync(path.join(workspacePath, suggested)); i++) {
+      suggested = `${base}-${i}`;
+    }
+
+    const name = await vscode.window.showInputBox({
+      prompt: "Name of the stack in the Gecko workspace",
+      value: suggested,
+      validateInput: (value) => {
+        if (!value || !/^[a-zA-Z0-9-_]+$/.test(value.trim())) {
+          return "Stack name can only contain letters, numbers, hyphens, and underscores";
+        }
+        if (fs.existsSync(path.join(workspacePath, value.trim()))) {
+          return `${value.trim()} already exists in the workspace`;
+        }
+        return null;
+      },
+    });
+    return name?.trim();
+  }
+
+  private normalize(name: string): string {
+    return name.replace(/[^a-zA-Z0-9]/g, "").toLowerCase();
+  }
+
+  private relativePath(file: string): string {
+    return vscode.workspace.asRelativePath(file, true);
+  }
+}
@@ -2,7 +2,7 @@ import * as vscode from "vscode";
 import * as path from "path";
 import * as fs from "fs";
 import { LambdaDetector } from "../detector";
-import { ConfigManager } from "../utils";
+import { ConfigManager, TemplateIO, TemplateValidator } from "../utils";
 
 export class TemplateCommand {
   private detector: LambdaDetector;
@@ -31,7 +31,7 @@ export class TemplateCommand {
 
   private async openTemplateFile(config: any): Promise<void> {
     const lambdaDir = path.join(config.workspacePath, config.functionName);
-    const templateFilePath = path.join(lambdaDir, "template.yaml");
+    const templateFilePath = TemplateIO.getTemplatePath(lambdaDir);
 
     try {
       // Clean up any old config.json files
@@ -110,21 +110,47 @@ export class TemplateCommand {
     }
   }
 
+  /**
+   * Validates the template offline (issues also show up in the Problems
+   * panel) and offers `sam validate` for a full check
+   */
   private async validateTemplate(lambdaDir: string): Promise<void> {
-    const terminal = vscode.window.createTerminal({
-      name: "🦎 SAM Validate",
-      cwd: lambdaDir,
-    });
-    terminal.show(true);
-    terminal.sendText("sam validate");
-    vscode.window.showInformationMessage("🔍 Validating SAM template...");
+    const templatePath = TemplateIO.getTemplatePath(lambdaDir);
+    const issues = TemplateValidator.validate(
+      fs.readFileSync(templatePath, "utf8")
+    );
+    const errors = issues.filter((issue) => issue.severity === "error");
+    const summary =
+      issues.length === 0
+        ? "✅ template.yaml has no structural issues"
+        : `🔍 template.yaml: ${errors.length} error(s), ${
+            issues.length - errors.length
+          } warning(s)`;
+    const selection = await (errors.length > 0
+      ? vscode.window.showWarningMessage(
+          summary,
+          "Show Problems",
+          "Run sam validate"
+        )
+      : vscode.window.showInformationMessage(summary, "Run sam validate"));
+
+    if (selection === "Show Problems") {
+      await vscode.commands.executeCommand("workbench.actions.view.problems");
+    } else if (selection === "Run sam validate") {
+      const terminal = vscode.window.createTerminal({
+        name: "🦎 SAM Validate",
+        cwd: path.dirname(templatePath),
+      });
+      terminal.show(true);
+      terminal.sendText("sam validate");
+    }
   }
 
   private async showTemplateInfo(
     localConfig: any,
     lambdaDir: string
   ): Promise<void> {
-    const templatePath = path.join(lambdaDir, "template.yaml");
+    const templatePath = TemplateIO.getTemplatePath(lambdaDir);
     const templateExists = fs.existsSync(templatePath);
     const templateStats = templateExists ? fs.statSync(templatePath) : null;
     const envVarsCount = localConfig.environment?.variables
@@ -171,7 +197,7 @@ ${
 ---
 ## Simplified Architecture
 - \`template.yaml\` - **ONLY SOURCE OF TRUTH** - All configuration lives here
-- \`event.json\` - Test event data
+- \`events/\` - Named test events (\`default.json\` and any others)
 ## Making Changes
 1. Edit \`template.yaml\` directly - all changes are immediately available
 2. No more config.json - everything is in template.yaml
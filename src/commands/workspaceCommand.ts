@@ -1,7 +1,9 @@
 import * as vscode from "vscode";
 import * as path from "path";
 import * as fs from "fs";
+import { LambdaIndex } from "../lambdaIndex";
 import { LambdaDetector, LambdaConfig } from "../detector";
+import { EventStore, TemplateIO } from "../utils";
 
 export class WorkspaceCommand {
   private detector: LambdaDetector;
@@ -98,7 +100,7 @@ export class WorkspaceCommand {
       },
       {
         label: "📝 Open Source File",
-        description: "Open the source main.go file",
+        description: "Open the Lambda entry source file",
         action: "openSource",
       },
       {
@@ -108,7 +110,7 @@ export class WorkspaceCommand {
       },
       {
         label: "🎯 Edit Event",
-        description: "Edit test event.json",
+        description: "Edit the default test event",
         action: "editEvent",
       },
       {
@@ -160,7 +162,7 @@ export class WorkspaceCommand {
         }
         break;
       case "viewTemplate":
-        const templatePath = path.join(lambdaDir, "template.yaml");
+        const templatePath = TemplateIO.getTemplatePath(lambdaDir);
         if (fs.existsSync(templatePath)) {
           const document = await vscode.workspace.openTextDocument(
             templatePath
@@ -175,8 +177,9 @@ export class WorkspaceCommand {
         }
         break;
       case "editEvent":
-        const eventPath = path.join(lambdaDir, "event.json");
-        if (fs.existsSync(eventPath)) {
+        const eventName = EventStore.resolveDefault(lambdaDir, config.defaultEvent);
+        const eventPath = EventStore.getEventPath(lambdaDir, eventName || EventStore.DEFAULT_EVENT);
+        if (eventName) {
           const document = await vscode.workspace.openTextDocument(eventPath);
           await vscode.window.showTextDocument(document, {
             viewColumn: vscode.ViewColumn.Beside,
@@ -212,6 +215,7 @@ export class WorkspaceCommand {
         // Remove directory
         if (fs.existsSync(lambdaDir)) {
           fs.rmSync(lambdaDir, { recursive: true, force: true });
+          LambdaIndex.getInstance().reload(lambdaDir);
           console.log(`🗑️ Removed lambda directory: ${lambdaDir}`);
         }
         vscode.window.showInformationMessage(
@@ -248,7 +252,7 @@ export class WorkspaceCommand {
 - **Binary Location:** ${buildPath}
 ## Available Files
 - \`template.yaml\` - SAM template for deployment
-- \`event.json\` - Test event data 
+- \`events/\` - Named test events (\`default.json\` and any others) 
 - \`config.json\` - Local configuration
 ---
 **Configuration Path:** ${path.join(
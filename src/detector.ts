@@ -1,65 +1,171 @@
 import * as vscode from "vscode";
 import * as path from "path";
 import * as fs from "fs";
-import * as yaml from "js-yaml";
 import { getGlobalWorkspacePath } from "./extension";
 import { log, logError } from "./logger";
+import { LambdaIndex } from "./lambdaIndex";
+import { EventKinds } from "./utils/eventKinds";
+import { GoParser } from "./utils/goParser";
+import { TemplateIO } from "./utils/templateIO";
+import { TemplateManager } from "./utils/templateManager";
+import { ConfigManager } from "./utils/configManager";
+import { GoEntryPoint, GoHandlerInfo } from "./utils/types";
 
 export interface LambdaConfig {
+  /**
+   * Workspace-relative directory of the function: the entry name, or
+   * `<stack>/<LogicalId>` for a function of a multi-function stack
+   */
   functionName: string;
   workspacePath: string;
   eventType: string;
   lastModified: string;
   sourceFile: string;
   sourceDir: string;
+  buildMethod?: string;
+  apiPort?: number;
+  defaultEvent?: string;
+  logicalId?: string;
+  /** Entry directory of the multi-function stack holding the function */
+  stack?: string;
 }
 
 export class LambdaDetector {
-  private static readonly LAMBDA_IMPORT_PATTERNS = [
-    "github.com/aws/aws-lambda-go/lambda",
-    '"github.com/aws/aws-lambda-go/lambda"',
-    "`github.com/aws/aws-lambda-go/lambda`",
-  ];
+  /**
+   * Entry file found for each package directory, so the editor contexts
+   * don't read the whole package on every keystroke
+   */
+  private static entryFiles = new Map<string, string | null>();
 
-  isLambdaFile(document: vscode.TextDocument): boolean {
-    const fileName = path.basename(document.fileName);
-    const isGoFile = document.languageId === "go";
-    const isMainGo = fileName === "main.go";
+  /**
+   * Forgets the entry files of package directories whose Go files are saved,
+   * created, changed or deleted, and all of them when the detection settings
+   * change
+   */
+  static watchSources(): vscode.Disposable {
+    const forget = (uri: vscode.Uri) =>
+      this.entryFiles.delete(path.dirname(uri.fsPath));
+    const watcher = vscode.workspace.createFileSystemWatcher("**/*.go");
+    return vscode.Disposable.from(
+      watcher,
+      watcher.onDidCreate(forget),
+      watcher.onDidChange(forget),
+      watcher.onDidDelete(forget),
+      vscode.workspace.onDidSaveTextDocument((document) => {
+        if (document.languageId === "go") {
+          forget(document.uri);
+        }
+      }),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration("gecko.detection")) {
+          this.entryFiles.clear();
+        }
+      })
+    );
+  }
 
-    if (!isGoFile || !isMainGo) {
+  isLambdaFile(document: vscode.TextDocument): boolean {
+    if (document.languageId !== "go") {
       return false;
     }
+    return this.findEntryFile(document.fileName, document.getText()) !== null;
+  }
 
-    const content = document.getText();
-    const hasLambdaImport = this.hasLambdaImport(content);
-
-    if (hasLambdaImport) {
-      log(`✅ Lambda file detected: ${document.fileName}`);
-    } else {
-      log(
-        `❌ File ${fileName} is main.go but doesn't import aws-lambda-go/lambda`
+  /**
+   * Returns the file of the main package holding the Lambda entry call,
+   * which may be a sibling of `sourceFile` when the package is split.
+   * Cached per package directory until one of its files is saved, so
+   * unsaved `content` only counts for the first lookup.
+   */
+  findEntryFile(sourceFile: string, content?: string): string | null {
+    const dir = path.dirname(sourceFile);
+    const cached = LambdaDetector.entryFiles.get(dir);
+    if (cached !== undefined) {
+      return cached;
+    }
+    try {
+      const entryCall = GoParser.findEntryCall(
+        sourceFile,
+        content,
+        this.getEntryPoints()
       );
+      const entryFile = entryCall ? entryCall.file.file : null;
+      LambdaDetector.entryFiles.set(dir, entryFile);
+      return entryFile;
+    } catch (error) {
+      logError(`Could not analyze ${sourceFile}`, error);
+      return null;
     }
+  }
+
+  /**
+   * Built-in entry points plus the ones configured in
+   * `gecko.detection.lambdaImports` and `gecko.detection.entryFunctions`
+   */
+  getEntryPoints(): GoEntryPoint[] {
+    const settings = vscode.workspace.getConfiguration("gecko.detection");
+    const entryPoints = [...GoParser.DEFAULT_ENTRY_POINTS];
 
-    return hasLambdaImport;
+    for (const importPath of settings.get<string[]>("lambdaImports") || []) {
+      entryPoints.push({
+        importPath: importPath.trim(),
+        functions: ["Start", "StartWithOptions"],
+      });
+    }
+    for (const entry of settings.get<string[]>("entryFunctions") || []) {
+      const separator = entry.lastIndexOf(".");
+      if (separator <= entry.lastIndexOf("/")) {
+        log(`⚠️ Ignoring entry function "${entry}", expected <import path>.<Function>`);
+        continue;
+      }
+      entryPoints.push({
+        importPath: entry.slice(0, separator).trim(),
+        functions: [entry.slice(separator + 1).trim()],
+      });
+    }
+    return entryPoints;
   }
 
-  private hasLambdaImport(content: string): boolean {
-    return LambdaDetector.LAMBDA_IMPORT_PATTERNS.some((pattern) =>
-      content.includes(pattern)
-    );
+  /**
+   * Locates the handler passed to lambda.Start/StartWithOptions and resolves
+   * its input and response types, looking at every file of the package.
+   */
+  analyzeHandler(sourceFile: string, content?: string): GoHandlerInfo | null {
+    try {
+      const handler = GoParser.findHandler(
+        sourceFile,
+        content,
+        this.getEntryPoints()
+      );
+      if (handler) {
+        log(
+          `🔎 Handler ${handler.handlerName} (${path.basename(handler.file)}:${
+            handler.line + 1
+          }) input: ${handler.inputType || "none"}, response: ${
+            handler.outputType || "none"
+          }`
+        );
+      }
+      return handler;
+    } catch (error) {
+      logError(`Could not analyze handler in ${sourceFile}`, error);
+      return null;
+    }
   }
 
-  detectEventType(content: string): string | null {
-    const eventTypePatterns = [
-      { pattern: /events\.APIGatewayProxyRequest/, type: "apigateway" },
-      { pattern: /events\.S3Event/, type: "s3" },
-      { pattern: /events\.DynamoDBEvent/, type: "dynamodb" },
-      { pattern: /events\.SQSEvent/, type: "sqs" },
-    ];
-    for (const { pattern, type } of eventTypePatterns) {
-      if (pattern.test(content)) {
-        return type;
+  detectEventType(content: string, sourceFile?: string): string | null {
+    if (sourceFile) {
+      const handler = this.analyzeHandler(sourceFile, content);
+      if (handler) {
+        return handler.eventType;
+      }
+    }
+    // No entry call found, fall back to scanning the source for event types
+    for (const kind of EventKinds.all()) {
+      for (const goType of kind.goTypes) {
+        if (new RegExp(`events\\.${goType}\\b`).test(content)) {
+          return kind.id;
+        }
       }
     }
     return null;
@@ -71,40 +177,10 @@ export class LambdaDetector {
 
   getConfiguration(documentUri: vscode.Uri): LambdaConfig | null {
     try {
-      const sourceFile = documentUri.fsPath;
-      const workspacePath = getGlobalWorkspacePath();
-      if (!fs.existsSync(workspacePath)) {
-        return null;
-      }
-      const lambdaDirs = fs
-        .readdirSync(workspacePath, { withFileTypes: true })
-        .filter((dirent) => dirent.isDirectory())
-        .map((dirent) => dirent.name);
-
-      for (const lambdaDir of lambdaDirs) {
-        const lambdaDirPath = path.join(workspacePath, lambdaDir);
-        const templatePath = path.join(lambdaDirPath, "template.yaml");
-        if (fs.existsSync(templatePath)) {
-          try {
-            const templateContent = fs.readFileSync(templatePath, "utf8");
-            const template = yaml.load(templateContent) as any;
-            const metadata = template.Metadata?.GeckoLambda;
-            if (metadata && metadata.sourceFile === sourceFile) {
-              return {
-                functionName: lambdaDir,
-                workspacePath: workspacePath,
-                eventType: metadata.eventType || "apigateway",
-                lastModified: metadata.lastModified || new Date().toISOString(),
-                sourceFile: sourceFile,
-                sourceDir: metadata.sourceDir || path.dirname(sourceFile),
-              };
-            }
-          } catch (error) {
-            logError(`Could not parse template.yaml in ${lambdaDir}`, error);
-          }
-        }
-      }
-      return null;
+      return LambdaIndex.getInstance().findBySourceFile(
+        getGlobalWorkspacePath(),
+        documentUri.fsPath
+      );
     } catch (error) {
       logError("Error getting configuration", error);
       return null;
@@ -116,43 +192,46 @@ export class LambdaDetector {
   saveConfiguration(config: LambdaConfig): void {
     try {
       const lambdaDir = path.join(config.workspacePath, config.functionName);
-      const templatePath = path.join(lambdaDir, "template.yaml");
+      const { templatePath, logicalId } = TemplateIO.locate(lambdaDir);
       if (!fs.existsSync(lambdaDir)) {
         fs.mkdirSync(lambdaDir, { recursive: true });
       }
 
-      let template: any = {};
+      const metadata = {
+        sourceFile: config.sourceFile,
+        sourceDir: config.sourceDir,
+        eventType: config.eventType,
+        lastModified: config.lastModified,
+        version: "2.0",
+      };
+
+      let updated = false;
       if (fs.existsSync(templatePath)) {
         try {
-          const templateContent = fs.readFileSync(templatePath, "utf8");
-          template = yaml.load(templateContent) as any;
+          TemplateIO.update(lambdaDir, (template) =>
+            template.merge(
+              TemplateManager.getMetadataPath(lambdaDir),
+              metadata
+            )
+          );
+          updated = true;
         } catch (error) {
+          // Never replace the template shared by the functions of a stack
+          if (logicalId) {
+            throw error;
+          }
           logError(
             "Could not parse existing template, creating new one.",
             error
           );
         }
       }
-
-      if (!template.Metadata) {
-        template.Metadata = {};
+      if (!updated) {
+        TemplateIO.write(
+          lambdaDir,
+          TemplateIO.stringify({ Metadata: { GeckoLambda: metadata } })
+        );
       }
-      template.Metadata.GeckoLambda = {
-        sourceFile: config.sourceFile,
-        sourceDir: config.sourceDir,
-        eventType: config.eventType,
-        lastModified: config.lastModified,
-        version: "2.0",
-      };
-
-      const templateContent = yaml.dump(template, {
-        indent: 2,
-        lineWidth: 120,
-        noRefs: true,
-        quotingType: '"',
-        forceQuotes: false,
-      });
-      fs.writeFileSync(templatePath, templateContent);
       log(`💾 Configuration saved to template metadata: ${templatePath}`);
     } catch (error) {
       logError("Failed to save configuration", error, true);
@@ -185,13 +264,15 @@ export class LambdaDetector {
   ): LambdaConfig {
     const workspacePath = getGlobalWorkspacePath();
     const functionName = this.getFunctionNameFromPath(documentUri);
+    const sourceFile =
+      this.findEntryFile(documentUri.fsPath) || documentUri.fsPath;
     const config: LambdaConfig = {
       functionName,
       workspacePath,
       eventType,
       lastModified: new Date().toISOString(),
-      sourceFile: documentUri.fsPath,
-      sourceDir: path.dirname(documentUri.fsPath),
+      sourceFile,
+      sourceDir: path.dirname(sourceFile),
     };
     return config;
   }
@@ -201,8 +282,8 @@ export class LambdaDetector {
       const config = this.findConfigurationBySourceFile(sourceFile);
       if (config) {
         const lambdaDir = path.join(workspacePath, config.functionName);
-        if (fs.existsSync(lambdaDir)) {
-          fs.rmSync(lambdaDir, { recursive: true, force: true });
+        if (fs.existsSync(lambdaDir) || config.stack) {
+          ConfigManager.removeLambdaWorkspace(lambdaDir);
           log(`🗑️ Lambda directory removed: ${lambdaDir}`);
         }
       }
@@ -219,42 +300,8 @@ export class LambdaDetector {
   }
 
   getAllLambdaFunctions(workspacePath: string): LambdaConfig[] {
-    // ... (sin cambios aquí)
     try {
-      const lambdaConfigs: LambdaConfig[] = [];
-      if (!fs.existsSync(workspacePath)) {
-        return [];
-      }
-      const lambdaDirs = fs
-        .readdirSync(workspacePath, { withFileTypes: true })
-        .filter((dirent) => dirent.isDirectory())
-        .map((dirent) => dirent.name);
-      for (const lambdaDir of lambdaDirs) {
-        const lambdaDirPath = path.join(workspacePath, lambdaDir);
-        const templatePath = path.join(lambdaDirPath, "template.yaml");
-        if (fs.existsSync(templatePath)) {
-          try {
-            const templateContent = fs.readFileSync(templatePath, "utf8");
-            const template = yaml.load(templateContent) as any;
-            const metadata = template.Metadata?.GeckoLambda;
-            if (metadata) {
-              lambdaConfigs.push({
-                functionName: lambdaDir,
-                workspacePath: workspacePath,
-                eventType: metadata.eventType || "apigateway",
-                lastModified: metadata.lastModified || new Date().toISOString(),
-                sourceFile: metadata.sourceFile || "",
-                sourceDir: metadata.sourceDir || "",
-              });
-            } else {
-              log(`No Gecko metadata found in ${lambdaDir}, skipping`);
-            }
-          } catch (error) {
-            logError(`Could not parse template.yaml in ${lambdaDir}`, error);
-          }
-        }
-      }
-      return lambdaConfigs;
+      return LambdaIndex.getInstance().getAll(workspacePath);
     } catch (error) {
       logError("Error getting all lambda functions", error);
       return [];
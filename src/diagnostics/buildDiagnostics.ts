@@ -0,0 +1,125 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { BuildUtils } from "../utils/buildUtils";
+import { GoBuildResult } from "../utils/types";
+
+/** `file.go:line:col: message`, the column being left out by some tools */
+const ERROR_LINE = /^(\S+?\.go):(\d+)(?::(\d+))?: (.*)$/;
+
+interface FailedBuild {
+  byFile: Map<string, vscode.Diagnostic[]>;
+  /** First compiler error, shown in the tree */
+  summary: string;
+}
+
+/**
+ * Publishes the compiler errors of failed builds to the "gecko-build"
+ * diagnostic collection, on the Go files they point at, and clears them when
+ * the function builds again. Remembers which functions failed for the tree.
+ */
+export class BuildDiagnostics implements vscode.Disposable {
+  private static instance: BuildDiagnostics | undefined;
+
+  private readonly diagnostics =
+    vscode.languages.createDiagnosticCollection("gecko-build");
+  private readonly failed = new Map<string, FailedBuild>();
+  private readonly buildListener: vscode.Disposable;
+
+  private _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+  static getInstance(): BuildDiagnostics {
+    if (!this.instance) {
+      this.instance = new BuildDiagnostics();
+    }
+    return this.instance;
+  }
+
+  private constructor() {
+    this.buildListener = BuildUtils.onDidBuild((result) => this.update(result));
+  }
+
+  /**
+   * First compiler error of the last build of a function when it failed
+   */
+  getFailure(lambdaDir: string): string | undefined {
+    return this.failed.get(lambdaDir)?.summary;
+  }
+
+  /**
+   * Diagnostics by file of the `file:line:col: message` lines of go build
+   * output. Indented lines continue the message above them.
+   */
+  static parse(output: string, cwd: string): Map<string, vscode.Diagnostic[]> {
+    const byFile = new Map<string, vscode.Diagnostic[]>();
+    let last: vscode.Diagnostic | undefined;
+    for (const line of output.split(/\r?\n/)) {
+      const match = ERROR_LINE.exec(line);
+      if (!match) {
+        if (last && /^\s+\S/.test(line)) {
+          last.message += `\n${line.trim()}`;
+        } else {
+          last = undefined;
+        }
+        continue;
+      }
+      const [, file, lineNumber, column, message] = match;
+      const position = new vscode.Position(
+        Math.max(0, Number(lineNumber) - 1),
+        Math.max(0, Number(column || 1) - 1)
+      );
+      last = new vscode.Diagnostic(
+        new vscode.Range(position, position),
+        message,
+        vscode.DiagnosticSeverity.Error
+      );
+      last.source = "go build";
+      const filePath = path.resolve(cwd, file);
+      byFile.set(filePath, [...(byFile.get(filePath) || []), last]);
+    }
+    return byFile;
+  }
+
+  dispose(): void {
+    this.buildListener.dispose();
+    this.diagnostics.dispose();
+    this._onDidChange.dispose();
+  }
+
+  private update(result: GoBuildResult): void {
+    const files = new Set(this.failed.get(result.lambdaDir)?.byFile.keys());
+    this.failed.delete(result.lambdaDir);
+
+    if (!result.succeeded) {
+      const output = result.output || "";
+      const byFile = BuildDiagnostics.parse(output, result.cwd);
+      byFile.forEach((_, filePath) => files.add(filePath));
+      const summary =
+        output
+          .split(/\r?\n/)
+          .find((line) => ERROR_LINE.test(line))
+          ?.replace(`${result.cwd}${path.sep}`, "") ||
+        output.split(/\r?\n/).find((line) => line.trim()) ||
+        "Build failed";
+      this.failed.set(result.lambdaDir, { byFile, summary });
+    }
+
+    // Functions sharing packages report the same errors, shown once
+    for (const filePath of files) {
+      const diagnostics = new Map<string, vscode.Diagnostic>();
+      for (const failure of this.failed.values()) {
+        for (const diagnostic of failure.byFile.get(filePath) || []) {
+          const { start, end } = diagnostic.range;
+          const key = `${start.line}:${start.character}:${end.line}:${end.character}:${diagnostic.message}`;
+          if (!diagnostics.has(key)) {
+            diagnostics.set(key, diagnostic);
+          }
+        }
+      }
+      this.diagnostics.set(vscode.Uri.file(filePath), [
+        ...diagnostics.values(),
+      ]);
+    }
+    this._onDidChange.fire();
+  }
+}
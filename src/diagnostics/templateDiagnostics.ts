@@ -0,0 +1,227 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { TemplateIO } from "../utils/templateIO";
+import { TemplateValidator } from "../utils/templateValidator";
+import { TemplateIssue } from "../utils/types";
+import { LambdaIndex } from "../lambdaIndex";
+import { getGlobalWorkspacePath } from "../extension";
+import { logError } from "../logger";
+
+const VALIDATION_DELAY_MS = 300;
+
+const SEVERITIES: { [severity: string]: vscode.DiagnosticSeverity } = {
+  error: vscode.DiagnosticSeverity.Error,
+  warning: vscode.DiagnosticSeverity.Warning,
+  info: vscode.DiagnosticSeverity.Information,
+};
+
+/**
+ * Publishes `TemplateValidator` issues of the workspace template.yaml files
+ * to the "gecko-template" diagnostic collection and offers their fixes as
+ * quick fixes. Open documents are validated as they are edited, the others
+ * from disk whenever the Lambda index changes.
+ */
+export class TemplateDiagnostics
+  implements vscode.CodeActionProvider, vscode.Disposable
+{
+  static readonly SOURCE = "gecko";
+
+  private readonly diagnostics =
+    vscode.languages.createDiagnosticCollection("gecko-template");
+  private readonly disposables: vscode.Disposable[] = [this.diagnostics];
+  private readonly pending = new Map<string, NodeJS.Timeout>();
+
+  constructor() {
+    this.disposables.push(
+      vscode.languages.registerCodeActionsProvider(
+        { pattern: "**/template.yaml" },
+        this,
+        { providedCodeActionKinds: [vscode.CodeActionKind.QuickFix] }
+      ),
+      vscode.workspace.onDidOpenTextDocument((document) =>
+        this.validateDocument(document)
+      ),
+      vscode.workspace.onDidChangeTextDocument((event) =>
+        this.scheduleValidation(event.document)
+      ),
+      vscode.workspace.onDidCloseTextDocument((document) =>
+        this.validateFile(document.uri.fsPath)
+      ),
+      LambdaIndex.getInstance().onDidChange(() => this.validateWorkspace())
+    );
+    this.validateWorkspace();
+    vscode.workspace.textDocuments.forEach((document) =>
+      this.validateDocument(document)
+    );
+  }
+
+  /**
+   * Validates the template.yaml of every Lambda in the workspace that is not
+   * open in an editor
+   */
+  validateWorkspace(): void {
+    const workspacePath = getGlobalWorkspacePath();
+    const templatePaths = new Set(
+      LambdaIndex.getInstance()
+        .getAll(workspacePath)
+        .map((config) =>
+          path.join(workspacePath, config.stack || config.functionName)
+        )
+        .map((lambdaDir) => TemplateIO.getTemplatePath(lambdaDir))
+    );
+    for (const templatePath of templatePaths) {
+      if (!this.findOpenDocument(templatePath)) {
+        this.validateFile(templatePath);
+      }
+    }
+    this.diagnostics.forEach((uri) => {
+      if (!fs.existsSync(uri.fsPath)) {
+        this.diagnostics.delete(uri);
+      }
+    });
+  }
+
+  validateDocument(document: vscode.TextDocument): void {
+    if (this.isTemplate(document.uri.fsPath)) {
+      this.publish(document.uri, document.getText());
+    }
+  }
+
+  provideCodeActions(
+    document: vscode.TextDocument,
+    _range: vscode.Range,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    const diagnostics = context.diagnostics.filter(
+      (diagnostic) => diagnostic.source === TemplateDiagnostics.SOURCE
+    );
+    if (diagnostics.length === 0) {
+      return [];
+    }
+    const content = document.getText();
+    const actions: vscode.CodeAction[] = [];
+    for (const issue of TemplateValidator.validate(content)) {
+      const range = this.toRange(content, issue);
+      const diagnostic = diagnostics.find(
+        (item) => item.code === issue.code && item.range.isEqual(range)
+      );
+      if (!issue.fix || !diagnostic) {
+        continue;
+      }
+      const action = new vscode.CodeAction(
+        issue.fix.title,
+        vscode.CodeActionKind.QuickFix
+      );
+      action.diagnostics = [diagnostic];
+      action.isPreferred = true;
+      // Only the changed span is replaced, so the edit stays small
+      const fixed = TemplateValidator.applyFix(content, issue.fix);
+      let start = 0;
+      while (start < fixed.length && content[start] === fixed[start]) {
+        start++;
+      }
+      let end = 0;
+      while (
+        end < Math.min(content.length, fixed.length) - start &&
+        content[content.length - 1 - end] === fixed[fixed.length - 1 - end]
+      ) {
+        end++;
+      }
+      action.edit = new vscode.WorkspaceEdit();
+      action.edit.replace(
+        document.uri,
+        new vscode.Range(
+          document.positionAt(start),
+          document.positionAt(content.length - end)
+        ),
+        fixed.slice(start, fixed.length - end)
+      );
+      actions.push(action);
+    }
+    return actions;
+  }
+
+  dispose(): void {
+    this.pending.forEach((timer) => clearTimeout(timer));
+    this.pending.clear();
+    this.disposables.forEach((disposable) => disposable.dispose());
+  }
+
+  private scheduleValidation(document: vscode.TextDocument): void {
+    if (!this.isTemplate(document.uri.fsPath)) {
+      return;
+    }
+    const key = document.uri.toString();
+    clearTimeout(this.pending.get(key));
+    this.pending.set(
+      key,
+      setTimeout(() => {
+        this.pending.delete(key);
+        this.validateDocument(document);
+      }, VALIDATION_DELAY_MS)
+    );
+  }
+
+  private validateFile(templatePath: string): void {
+    if (!this.isTemplate(templatePath)) {
+      return;
+    }
+    const uri = vscode.Uri.file(templatePath);
+    if (!fs.existsSync(templatePath)) {
+      this.diagnostics.delete(uri);
+      return;
+    }
+    try {
+      this.publish(uri, fs.readFileSync(templatePath, "utf8"));
+    } catch (error) {
+      logError(`Could not validate ${templatePath}`, error);
+    }
+  }
+
+  private publish(uri: vscode.Uri, content: string): void {
+    this.diagnostics.set(
+      uri,
+      TemplateValidator.validate(content).map((issue) => {
+        const diagnostic = new vscode.Diagnostic(
+          this.toRange(content, issue),
+          issue.message,
+          SEVERITIES[issue.severity]
+        );
+        diagnostic.source = TemplateDiagnostics.SOURCE;
+        diagnostic.code = issue.code;
+        return diagnostic;
+      })
+    );
+  }
+
+  /**
+   * template.yaml files of the Lambda directories in the Gecko workspace
+   */
+  private isTemplate(filePath: string): boolean {
+    return (
+      path.basename(filePath) === "template.yaml" &&
+      path.resolve(path.dirname(path.dirname(filePath))) ===
+        path.resolve(getGlobalWorkspacePath())
+    );
+  }
+
+  private findOpenDocument(filePath: string): vscode.TextDocument | undefined {
+    return vscode.workspace.textDocuments.find(
+      (document) => path.resolve(document.uri.fsPath) === path.resolve(filePath)
+    );
+  }
+
+  private toRange(content: string, issue: TemplateIssue): vscode.Range {
+    return new vscode.Range(
+      this.positionAt(content, issue.start),
+      this.positionAt(content, issue.end)
+    );
+  }
+
+  private positionAt(content: string, offset: number): vscode.Position {
+    const before = content.slice(0, offset);
+    const line = before.split("\n").length - 1;
+    return new vscode.Position(line, offset - (before.lastIndexOf("\n") + 1));
+  }
+}
@@ -10,9 +10,18 @@ import { WorkspaceCommand } from "./commands/workspaceCommand";
 import { DownloadCommand } from "./commands/downloadCommand";
 import { WorkspaceConfigCommand } from "./commands/workspaceConfigCommand";
 import { BuildCommand } from "./commands/buildCommand";
+import { DebugCommand } from "./commands/debugCommand";
+import { DiscoverCommand } from "./commands/discoverCommand";
+import { ImportCommand } from "./commands/importCommand";
 import { LambdaTreeProvider, LambdaTreeItem } from "./views/lambdaTreeProvider";
 import { TreeCommands } from "./views/treeCommands";
 import { ConfigManager } from "./utils";
+import { LambdaIndex } from "./lambdaIndex";
+import { ApiServerRegistry } from "./runtime/apiServerRegistry";
+import { BuildQueue } from "./runtime/buildQueue";
+import { TemplateDiagnostics } from "./diagnostics/templateDiagnostics";
+import { BuildDiagnostics } from "./diagnostics/buildDiagnostics";
+import { LambdaTests } from "./testing/lambdaTests";
 
 let statusBarItem: vscode.StatusBarItem;
 let lambdaTreeProvider: LambdaTreeProvider;
@@ -30,17 +39,24 @@ export function activate(context: vscode.ExtensionContext) {
   const templateCommand = new TemplateCommand(context);
   const runCommand = new RunCommand(context);
   const buildCommand = new BuildCommand(context);
+  const debugCommand = new DebugCommand(context);
   const workspaceCommand = new WorkspaceCommand(context);
   const downloadCommand = new DownloadCommand(context);
   const workspaceConfigCommand = new WorkspaceConfigCommand(context);
+  const discoverCommand = new DiscoverCommand(context);
+  const importCommand = new ImportCommand(context);
 
   const workspacePath = getGlobalWorkspacePath();
+  const lambdaIndex = LambdaIndex.getInstance();
+  lambdaIndex.setWorkspacePath(workspacePath);
   lambdaTreeProvider = new LambdaTreeProvider(workspacePath);
   treeCommands = new TreeCommands(context);
+  const lambdaTests = new LambdaTests();
 
   const treeView = vscode.window.createTreeView("geckoLambdaExplorer", {
     treeDataProvider: lambdaTreeProvider,
     showCollapseAll: true,
+    canSelectMany: true,
   });
 
   statusBarItem = vscode.window.createStatusBarItem(
@@ -67,6 +83,9 @@ export function activate(context: vscode.ExtensionContext) {
     vscode.commands.registerCommand("gecko.build", () =>
       buildCommand.execute()
     ),
+    vscode.commands.registerCommand("gecko.debug", () =>
+      debugCommand.execute()
+    ),
     vscode.commands.registerCommand("gecko.workspace", () =>
       workspaceCommand.execute()
     ),
@@ -74,6 +93,21 @@ export function activate(context: vscode.ExtensionContext) {
       log("🦎 Download command triggered");
       return downloadCommand.execute();
     }),
+    vscode.commands.registerCommand("gecko.discover", () =>
+      discoverCommand.execute()
+    ),
+    vscode.commands.registerCommand("gecko.importSamProject", () =>
+      importCommand.execute()
+    ),
+    vscode.commands.registerCommand("gecko.runAllSnapshots", () =>
+      lambdaTests.runAllSnapshots()
+    ),
+    vscode.commands.registerCommand("gecko.buildAll", () =>
+      BuildQueue.getInstance().build(
+        LambdaIndex.getInstance().getAll(getGlobalWorkspacePath()),
+        "Build All"
+      )
+    ),
     vscode.commands.registerCommand("gecko.migrateToUnified", () =>
       performUnifiedSystemMigration(true)
     ),
@@ -94,6 +128,15 @@ export function activate(context: vscode.ExtensionContext) {
       "gecko.tree.buildLambda",
       (item: LambdaTreeItem) => treeCommands.buildLambdaFromTree(item)
     ),
+    vscode.commands.registerCommand(
+      "gecko.tree.buildSelected",
+      (item: LambdaTreeItem, selected?: LambdaTreeItem[]) =>
+        treeCommands.buildSelectedFromTree(item, selected)
+    ),
+    vscode.commands.registerCommand(
+      "gecko.tree.debugLambda",
+      (item: LambdaTreeItem) => treeCommands.debugLambdaFromTree(item)
+    ),
     vscode.commands.registerCommand(
       "gecko.tree.openDirectory",
       (item: LambdaTreeItem) => treeCommands.openLambdaDirectory(item)
@@ -122,14 +165,91 @@ export function activate(context: vscode.ExtensionContext) {
       "gecko.tree.download",
       (item: LambdaTreeItem) => treeCommands.downloadFromTree(item)
     ),
-    vscode.commands.registerCommand("gecko.tree.stopApiServer", () =>
-      treeCommands.stopApiServer()
+    vscode.commands.registerCommand(
+      "gecko.tree.switchRunMode",
+      (item: LambdaTreeItem) => treeCommands.switchRunMode(item)
+    ),
+    vscode.commands.registerCommand(
+      "gecko.tree.runWithEvent",
+      (item: LambdaTreeItem) => treeCommands.runLambdaFromTree(item)
+    ),
+    vscode.commands.registerCommand(
+      "gecko.tree.newEvent",
+      (item: LambdaTreeItem) => treeCommands.newEvent(item)
+    ),
+    vscode.commands.registerCommand(
+      "gecko.tree.duplicateEvent",
+      (item: LambdaTreeItem) => treeCommands.duplicateEvent(item)
+    ),
+    vscode.commands.registerCommand(
+      "gecko.tree.renameEvent",
+      (item: LambdaTreeItem) => treeCommands.renameEvent(item)
+    ),
+    vscode.commands.registerCommand(
+      "gecko.tree.deleteEvent",
+      (item: LambdaTreeItem) => treeCommands.deleteEvent(item)
+    ),
+    vscode.commands.registerCommand(
+      "gecko.tree.setDefaultEvent",
+      (item: LambdaTreeItem) => treeCommands.setDefaultEvent(item)
+    ),
+    vscode.commands.registerCommand(
+      "gecko.tree.saveSnapshot",
+      (item: LambdaTreeItem) => treeCommands.saveSnapshot(item)
+    ),
+    vscode.commands.registerCommand(
+      "gecko.tree.openSnapshot",
+      (item: LambdaTreeItem) => treeCommands.openSnapshot(item)
+    ),
+    vscode.commands.registerCommand(
+      "gecko.tree.editAssertions",
+      (item: LambdaTreeItem) => treeCommands.editAssertions(item)
+    ),
+    vscode.commands.registerCommand(
+      "gecko.tree.editBuildOptions",
+      (item: LambdaTreeItem) => treeCommands.editBuildOptions(item)
+    ),
+    vscode.commands.registerCommand(
+      "gecko.tree.editSnapshotIgnore",
+      (item: LambdaTreeItem) => treeCommands.editSnapshotIgnore(item)
+    ),
+    vscode.commands.registerCommand(
+      "gecko.tree.showHistoryResult",
+      (item: LambdaTreeItem) => treeCommands.showHistoryResult(item)
+    ),
+    vscode.commands.registerCommand(
+      "gecko.tree.showHistoryLogs",
+      (item: LambdaTreeItem) => treeCommands.showHistoryLogs(item)
+    ),
+    vscode.commands.registerCommand(
+      "gecko.tree.compareWithPrevious",
+      (item: LambdaTreeItem) => treeCommands.compareWithPrevious(item)
+    ),
+    vscode.commands.registerCommand(
+      "gecko.tree.compareHistory",
+      (item: LambdaTreeItem) => treeCommands.compareHistory(item)
+    ),
+    vscode.commands.registerCommand(
+      "gecko.tree.clearHistory",
+      (item: LambdaTreeItem) => treeCommands.clearHistory(item)
+    ),
+    vscode.commands.registerCommand(
+      "gecko.tree.stopApiServer",
+      (item?: LambdaTreeItem) => treeCommands.stopApiServer(item)
+    ),
+    vscode.commands.registerCommand(
+      "gecko.tree.configureApiServer",
+      (item: LambdaTreeItem) => treeCommands.configureApiServer(item)
     ),
     vscode.commands.registerCommand("gecko.statusBar.quickActions", () =>
       showQuickActions()
     ),
   ];
 
+  // Registered before the listeners below so the entry files they look up
+  // are forgotten first
+  const goSourceWatcher = LambdaDetector.watchSources();
+
   const onDidChangeActiveEditor = vscode.window.onDidChangeActiveTextEditor(
     (editor) => {
       updateContexts(editor, detector);
@@ -146,17 +266,54 @@ export function activate(context: vscode.ExtensionContext) {
     }
   );
 
+  // Entry files are cached until saved, so edits to the entry call show then
+  const onDidSaveTextDocument = vscode.workspace.onDidSaveTextDocument(
+    (document) => {
+      if (vscode.window.activeTextEditor?.document === document) {
+        updateContexts(vscode.window.activeTextEditor, detector);
+        updateDynamicStatusBar(vscode.window.activeTextEditor, detector);
+      }
+    }
+  );
+
   const onDidChangeConfiguration = vscode.workspace.onDidChangeConfiguration(
     (e) => {
       if (e.affectsConfiguration("gecko.workspacePath")) {
         const newPath = getGlobalWorkspacePath();
+        LambdaIndex.getInstance().setWorkspacePath(newPath);
         lambdaTreeProvider.updateWorkspacePath(newPath);
         updateStatusBar();
         setTimeout(() => performUnifiedSystemMigration(), 1000);
       }
+      if (e.affectsConfiguration("gecko.detection")) {
+        updateContexts(vscode.window.activeTextEditor, detector);
+        updateDynamicStatusBar(vscode.window.activeTextEditor, detector);
+      }
     }
   );
 
+  const onDidChangeLambdaIndex = lambdaIndex.onDidChange(() => {
+    lambdaTreeProvider.refresh();
+    updateContexts(vscode.window.activeTextEditor, detector);
+    updateDynamicStatusBar(vscode.window.activeTextEditor, detector);
+  });
+
+  const apiServers = ApiServerRegistry.getInstance();
+  const onDidChangeApiServers = apiServers.onDidChange(() =>
+    lambdaTreeProvider.refresh()
+  );
+
+  const buildQueue = BuildQueue.getInstance();
+  const onDidChangeBuildQueue = buildQueue.onDidChange(() =>
+    lambdaTreeProvider.refresh()
+  );
+
+  const templateDiagnostics = new TemplateDiagnostics();
+  const buildDiagnostics = BuildDiagnostics.getInstance();
+  const onDidChangeBuildDiagnostics = buildDiagnostics.onDidChange(() =>
+    lambdaTreeProvider.refresh()
+  );
+
   updateContexts(vscode.window.activeTextEditor, detector);
   updateDynamicStatusBar(vscode.window.activeTextEditor, detector);
 
@@ -164,7 +321,19 @@ export function activate(context: vscode.ExtensionContext) {
     ...commands,
     onDidChangeActiveEditor,
     onDidChangeTextDocument,
+    onDidSaveTextDocument,
     onDidChangeConfiguration,
+    onDidChangeLambdaIndex,
+    onDidChangeApiServers,
+    onDidChangeBuildQueue,
+    onDidChangeBuildDiagnostics,
+    lambdaIndex,
+    apiServers,
+    buildQueue,
+    templateDiagnostics,
+    buildDiagnostics,
+    goSourceWatcher,
+    lambdaTests,
     statusBarItem,
     treeView
   );
@@ -424,6 +593,11 @@ async function showQuickActions() {
       description: "Compile the Lambda function",
       action: "build",
     },
+    {
+      label: "$(debug-alt) Debug Lambda",
+      description: "Step through the handler with Delve, without Docker",
+      action: "debug",
+    },
     { kind: vscode.QuickPickItemKind.Separator, label: "Files & Config" },
     {
       label: "$(symbol-object) Edit Event",
@@ -466,6 +640,9 @@ async function showQuickActions() {
       case "build":
         vscode.commands.executeCommand("gecko.build");
         break;
+      case "debug":
+        vscode.commands.executeCommand("gecko.debug");
+        break;
       case "editEvent":
         vscode.commands.executeCommand("gecko.editEvent");
         break;
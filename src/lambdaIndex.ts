@@ -0,0 +1,256 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import * as fs from "fs";
+import type { LambdaConfig } from "./detector";
+import { log, logError } from "./logger";
+import { TemplateIO } from "./utils/templateIO";
+
+/**
+ * In-memory index of the Lambda workspace, mapping source files to their
+ * Lambda configuration. template.yaml files are parsed once and then kept up
+ * to date by a file system watcher, so lookups on every editor change don't
+ * touch the disk.
+ */
+export class LambdaIndex implements vscode.Disposable {
+  private static instance: LambdaIndex | undefined;
+
+  private workspacePath: string | undefined;
+  private byLambdaDir = new Map<string, LambdaConfig>();
+  private bySourceFile = new Map<string, LambdaConfig>();
+  private bySourceDir = new Map<string, LambdaConfig>();
+  private watchers: vscode.FileSystemWatcher[] = [];
+
+  private _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+  static getInstance(): LambdaIndex {
+    if (!this.instance) {
+      this.instance = new LambdaIndex();
+    }
+    return this.instance;
+  }
+
+  getAll(workspacePath: string): LambdaConfig[] {
+    this.ensureLoaded(workspacePath);
+    return [...this.byLambdaDir.values()].sort((a, b) =>
+      a.functionName.localeCompare(b.functionName)
+    );
+  }
+
+  /**
+   * Finds the Lambda configured for a source file: its entry file or any
+   * other file of the same main package.
+   */
+  findBySourceFile(
+    workspacePath: string,
+    sourceFile: string
+  ): LambdaConfig | null {
+    this.ensureLoaded(workspacePath);
+    const exact = this.bySourceFile.get(sourceFile);
+    if (exact) {
+      return exact;
+    }
+    if (!sourceFile.endsWith(".go") || sourceFile.endsWith("_test.go")) {
+      return null;
+    }
+    return this.bySourceDir.get(path.dirname(sourceFile)) || null;
+  }
+
+  /**
+   * Re-reads a single lambda directory after it has been written or removed
+   */
+  reload(lambdaDir: string): void {
+    // A function directory of a stack reloads the whole stack
+    if (path.dirname(path.dirname(lambdaDir)) === this.workspacePath) {
+      lambdaDir = path.dirname(lambdaDir);
+    }
+    if (path.dirname(lambdaDir) !== this.workspacePath) {
+      return;
+    }
+    this.removeEntry(path.basename(lambdaDir));
+    this.readEntries(this.workspacePath, path.basename(lambdaDir)).forEach(
+      (config) => this.addEntry(config)
+    );
+    this._onDidChange.fire();
+  }
+
+  /**
+   * Points the index at another workspace directory, rebuilding it and its
+   * file system watchers.
+   */
+  setWorkspacePath(workspacePath: string): void {
+    this.workspacePath = workspacePath;
+    this.rebuild();
+    this.watch();
+    this._onDidChange.fire();
+  }
+
+  dispose(): void {
+    this.disposeWatchers();
+    this._onDidChange.dispose();
+    LambdaIndex.instance = undefined;
+  }
+
+  private ensureLoaded(workspacePath: string): void {
+    if (this.workspacePath !== workspacePath) {
+      this.workspacePath = workspacePath;
+      this.rebuild();
+      this.watch();
+    }
+  }
+
+  private rebuild(): void {
+    this.byLambdaDir.clear();
+    this.bySourceFile.clear();
+    this.bySourceDir.clear();
+    const workspacePath = this.workspacePath;
+    if (!workspacePath || !fs.existsSync(workspacePath)) {
+      return;
+    }
+    try {
+      const lambdaDirs = fs
+        .readdirSync(workspacePath, { withFileTypes: true })
+        .filter((dirent) => dirent.isDirectory())
+        .map((dirent) => dirent.name);
+      for (const lambdaDir of lambdaDirs) {
+        this.readEntries(workspacePath, lambdaDir).forEach((config) =>
+          this.addEntry(config)
+        );
+      }
+      log(`🗂️ Lambda index built: ${this.byLambdaDir.size} functions`);
+    } catch (error) {
+      logError("Error building lambda index", error);
+    }
+  }
+
+  private watch(): void {
+    this.disposeWatchers();
+    if (!this.workspacePath) {
+      return;
+    }
+    const base = vscode.Uri.file(this.workspacePath);
+    const templateWatcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(base, "*/template.yaml")
+    );
+    const onTemplateChange = (uri: vscode.Uri) =>
+      this.reload(path.dirname(uri.fsPath));
+    templateWatcher.onDidCreate(onTemplateChange);
+    templateWatcher.onDidChange(onTemplateChange);
+    templateWatcher.onDidDelete(onTemplateChange);
+
+    // Removing a whole lambda directory doesn't always report the template
+    const dirWatcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(base, "*"),
+      true,
+      true,
+      false
+    );
+    dirWatcher.onDidDelete((uri) => {
+      if (this.hasEntry(path.basename(uri.fsPath))) {
+        this.reload(uri.fsPath);
+      }
+    });
+
+    this.watchers = [templateWatcher, dirWatcher];
+  }
+
+  private disposeWatchers(): void {
+    this.watchers.forEach((watcher) => watcher.dispose());
+    this.watchers = [];
+  }
+
+  /**
+   * Reads the Lambdas of a workspace entry: the one described by the template
+   * Gecko metadata, or each function resource of a stack with its own.
+   */
+  private readEntries(
+    workspacePath: string,
+    lambdaDir: string
+  ): LambdaConfig[] {
+    const templatePath = path.join(workspacePath, lambdaDir, "template.yaml");
+    if (!fs.existsSync(templatePath)) {
+      return [];
+    }
+    try {
+      const templateContent = fs.readFileSync(templatePath, "utf8");
+      const template = TemplateIO.parse(templateContent);
+      const metadata = template?.Metadata?.GeckoLambda;
+      if (metadata) {
+        return [this.toConfig(workspacePath, lambdaDir, metadata)];
+      }
+      const resources = template?.Resources || {};
+      const functions = Object.keys(resources).filter(
+        (key) =>
+          resources[key]?.Type === "AWS::Serverless::Function" &&
+          resources[key].Metadata?.GeckoLambda
+      );
+      if (functions.length === 0) {
+        log(`No Gecko metadata found in ${lambdaDir}, skipping`);
+      }
+      return functions.map((logicalId) => ({
+        ...this.toConfig(
+          workspacePath,
+          `${lambdaDir}/${logicalId}`,
+          resources[logicalId].Metadata.GeckoLambda
+        ),
+        logicalId,
+        stack: lambdaDir,
+      }));
+    } catch (error) {
+      logError(`Could not parse template.yaml in ${lambdaDir}`, error);
+      return [];
+    }
+  }
+
+  private toConfig(
+    workspacePath: string,
+    functionName: string,
+    metadata: any
+  ): LambdaConfig {
+    return {
+      functionName: functionName,
+      workspacePath: workspacePath,
+      eventType: metadata.eventType || "apigateway",
+      lastModified: metadata.lastModified || new Date().toISOString(),
+      sourceFile: metadata.sourceFile || "",
+      sourceDir: metadata.sourceDir || "",
+      buildMethod: metadata.buildMethod || "direct",
+      apiPort: metadata.apiPort ? Number(metadata.apiPort) : undefined,
+      defaultEvent: metadata.defaultEvent,
+    };
+  }
+
+  private hasEntry(lambdaDir: string): boolean {
+    return [...this.byLambdaDir.values()].some(
+      (config) =>
+        config.functionName === lambdaDir || config.stack === lambdaDir
+    );
+  }
+
+  private addEntry(config: LambdaConfig): void {
+    this.byLambdaDir.set(config.functionName, config);
+    if (config.sourceFile) {
+      this.bySourceFile.set(config.sourceFile, config);
+      this.bySourceDir.set(path.dirname(config.sourceFile), config);
+    }
+  }
+
+  /**
+   * Removes the Lambda of a workspace entry, or all functions of a stack
+   */
+  private removeEntry(lambdaDir: string): void {
+    for (const existing of [...this.byLambdaDir.values()]) {
+      if (existing.functionName !== lambdaDir && existing.stack !== lambdaDir) {
+        continue;
+      }
+      this.byLambdaDir.delete(existing.functionName);
+      if (this.bySourceFile.get(existing.sourceFile) === existing) {
+        this.bySourceFile.delete(existing.sourceFile);
+      }
+      const sourceDir = path.dirname(existing.sourceFile);
+      if (this.bySourceDir.get(sourceDir) === existing) {
+        this.bySourceDir.delete(sourceDir);
+      }
+    }
+  }
+}
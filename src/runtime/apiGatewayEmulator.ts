@@ -0,0 +1,491 @@
+import * as http from "http";
+import { AddressInfo } from "net";
+import { randomUUID } from "crypto";
+import { NativeRuntime, NativeRuntimeOptions } from "./nativeRuntime";
+import { InvocationResult } from "../utils/types";
+import { log } from "../logger";
+
+export interface ApiRoute {
+  method: string;
+  path: string;
+  payloadFormat: "1.0" | "2.0";
+  pattern: RegExp;
+  paramNames: string[];
+}
+
+interface MatchedRoute {
+  route: ApiRoute;
+  pathParameters: { [key: string]: string } | null;
+}
+
+const TEXT_CONTENT_TYPES =
+  /^(text\/|application\/(json|xml|javascript|x-www-form-urlencoded|[\w.+-]+\+(json|xml)))/i;
+const MAX_LOGGED_BODY = 2000;
+
+/**
+ * In-process replacement for `sam local start-api`. Each HTTP request is
+ * matched against the `Api`/`HttpApi` events of template.yaml, converted to
+ * an API Gateway proxy event (payload 1.0 or 2.0), invoked through a warm
+ * native runtime and the proxy response is written back as HTTP.
+ */
+export class ApiGatewayEmulator {
+  private server: http.Server | undefined;
+  private runtime: NativeRuntime | undefined;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private runtimeOptions: NativeRuntimeOptions,
+    private routes: ApiRoute[]
+  ) {}
+
+  static supports(eventType: string): boolean {
+    return eventType === "apigateway" || eventType === "apigatewayv2";
+  }
+
+  /**
+   * Collects the Api/HttpApi routes of every function in a parsed template,
+   * or only those of `logicalId` in a multi-function stack. Without events,
+   * all paths are routed using the function's event type.
+   */
+  static readRoutes(
+    template: any,
+    eventType: string,
+    logicalId?: string
+  ): ApiRoute[] {
+    const routes: ApiRoute[] = [];
+    const globalFormat =
+      template?.Globals?.HttpApi?.PayloadFormatVersion ||
+      template?.Globals?.Api?.PayloadFormatVersion;
+
+    for (const [key, resource] of Object.entries<any>(
+      template?.Resources || {}
+    )) {
+      if (
+        resource?.Type !== "AWS::Serverless::Function" ||
+        (logicalId && key !== logicalId)
+      ) {
+        continue;
+      }
+      for (const event of Object.values<any>(resource.Properties?.Events || {})) {
+        if (event?.Type !== "Api" && event?.Type !== "HttpApi") {
+          continue;
+        }
+        const properties = event.Properties || {};
+        const format =
+          event.Type === "Api"
+            ? "1.0"
+            : String(properties.PayloadFormatVersion || globalFormat || "2.0");
+        routes.push(
+          this.createRoute(
+            properties.Method || "any",
+            properties.Path || "/{proxy+}",
+            format === "1.0" ? "1.0" : "2.0"
+          )
+        );
+      }
+    }
+
+    if (routes.length === 0) {
+      routes.push(
+        this.createRoute(
+          "any",
+          "/{proxy+}",
+          eventType === "apigatewayv2" ? "2.0" : "1.0"
+        )
+      );
+    }
+
+    // Literal segments win over parameters, and parameters over greedy paths
+    const weight = (route: ApiRoute) =>
+      route.path
+        .split("/")
+        .map((segment) =>
+          segment.endsWith("+}") ? 0 : segment.startsWith("{") ? 1 : 2
+        )
+        .join("");
+    return routes.sort((a, b) => weight(b).localeCompare(weight(a)));
+  }
+
+  private static createRoute(
+    method: string,
+    routePath: string,
+    payloadFormat: "1.0" | "2.0"
+  ): ApiRoute {
+    const paramNames: string[] = [];
+    const source = routePath
+      .split("/")
+      .map((segment) => {
+        const param = /^\{([^}+]+)(\+?)\}$/.exec(segment);
+        if (!param) {
+          return segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+        }
+        paramNames.push(param[1]);
+        return param[2] ? "(.+)" : "([^/]+)";
+      })
+      .join("/");
+    return {
+      method: method.toUpperCase(),
+      path: routePath,
+      payloadFormat,
+      pattern: new RegExp(`^${source}/?$`),
+      paramNames,
+    };
+  }
+
+  /**
+   * Starts the native runtime and the HTTP listener, returning the base URL
+   */
+  async start(host: string, port: number): Promise<string> {
+    this.runtime = new NativeRuntime(this.runtimeOptions);
+    await this.runtime.start();
+
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        log(`❌ API request failed: ${error}`);
+        this.send(res, 500, { message: "Internal server error" });
+      });
+    });
+    try {
+      await new Promise<void>((resolve, reject) => {
+        this.server!.once("error", reject);
+        this.server!.listen(port, host, () => resolve());
+      });
+    } catch (error) {
+      this.stop();
+      throw error;
+    }
+
+    const address = this.server.address() as AddressInfo;
+    const url = `http://${host}:${address.port}`;
+    log(`🌐 API Gateway emulator for ${this.runtimeOptions.functionName} listening on ${url}`);
+    this.routes.forEach((route) =>
+      log(`   ${route.method.padEnd(6)} ${route.path} (payload ${route.payloadFormat})`)
+    );
+    return url;
+  }
+
+  stop(): void {
+    this.server?.close();
+    this.server = undefined;
+    this.runtime?.stop();
+    this.runtime = undefined;
+  }
+
+  get isRunning(): boolean {
+    return !!this.server;
+  }
+
+  private async handle(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    const startedAt = Date.now();
+    const body = await this.readBody(req);
+    const url = new URL(req.url || "/", "http://localhost");
+    const method = (req.method || "GET").toUpperCase();
+    const matched = this.match(method, url.pathname);
+
+    log(`➡️  ${method} ${req.url} ${this.describeBody(body, req.headers["content-type"])}`);
+    if (!matched) {
+      const status = this.routes.some((route) => route.payloadFormat === "1.0")
+        ? { code: 403, message: "Missing Authentication Token" }
+        : { code: 404, message: "Not Found" };
+      this.send(res, status.code, { message: status.message });
+      log(`⬅️  ${status.code} no route for ${method} ${url.pathname}`);
+      return;
+    }
+
+    const event =
+      matched.route.payloadFormat === "1.0"
+        ? this.toV1Event(req, url, body, matched)
+        : this.toV2Event(req, url, body, matched);
+    const result = await this.invokeSerially(JSON.stringify(event));
+
+    if (result.error) {
+      const timedOut = result.error.errorType === "Sandbox.Timedout";
+      this.send(res, timedOut ? 504 : 502, {
+        message: timedOut ? "Endpoint request timed out" : "Internal server error",
+      });
+      log(
+        `⬅️  ${timedOut ? 504 : 502} ${result.error.errorType}: ${result.error.errorMessage} (${Date.now() - startedAt} ms)`
+      );
+      return;
+    }
+
+    const response = this.fromProxyResponse(result.payload, matched.route);
+    res.writeHead(response.statusCode, response.headers);
+    res.end(response.body);
+    const contentType = Object.entries(response.headers).find(
+      ([name]) => name.toLowerCase() === "content-type"
+    )?.[1];
+    log(
+      `⬅️  ${response.statusCode} ${this.describeBody(response.body, String(contentType || "text/plain"))} (${Date.now() - startedAt} ms)`
+    );
+  }
+
+  /**
+   * The runtime handles one event at a time, like a single Lambda instance
+   */
+  private invokeSerially(event: string): Promise<InvocationResult> {
+    const next = this.queue.then(async () => {
+      if (!this.server) {
+        throw new Error("API Gateway emulator stopped");
+      }
+      if (!this.runtime?.isRunning) {
+        this.runtime = new NativeRuntime(this.runtimeOptions);
+        await this.runtime.start();
+      }
+      return this.runtime.invoke(event);
+    });
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private match(method: string, pathname: string): MatchedRoute | null {
+    for (const route of this.routes) {
+      if (route.method !== "ANY" && route.method !== method) {
+        continue;
+      }
+      const match = route.pattern.exec(pathname);
+      if (!match) {
+        continue;
+      }
+      const pathParameters: { [key: string]: string } = {};
+      route.paramNames.forEach((name, index) => {
+        pathParameters[name] = decodeURIComponent(match[index + 1]);
+      });
+      return {
+        route,
+        pathParameters: route.paramNames.length ? pathParameters : null,
+      };
+    }
+    return null;
+  }
+
+  private toV1Event(
+    req: http.IncomingMessage,
+    url: URL,
+    body: Buffer,
+    matched: MatchedRoute
+  ): any {
+    const multiValueHeaders = this.multiValueHeaders(req);
+    const headers: { [key: string]: string } = {};
+    Object.entries(multiValueHeaders).forEach(([name, values]) => {
+      headers[name] = values[values.length - 1];
+    });
+    const multiValueQuery: { [key: string]: string[] } = {};
+    url.searchParams.forEach((value, name) => {
+      (multiValueQuery[name] = multiValueQuery[name] || []).push(value);
+    });
+    const query: { [key: string]: string } = {};
+    Object.entries(multiValueQuery).forEach(([name, values]) => {
+      query[name] = values[values.length - 1];
+    });
+    const encoded = this.encodeBody(req, body);
+    const now = new Date();
+
+    return {
+      resource: matched.route.path,
+      path: url.pathname,
+      httpMethod: req.method,
+      headers,
+      multiValueHeaders,
+      queryStringParameters: Object.keys(query).length ? query : null,
+      multiValueQueryStringParameters: Object.keys(multiValueQuery).length
+        ? multiValueQuery
+        : null,
+      pathParameters: matched.pathParameters,
+      stageVariables: null,
+      requestContext: {
+        accountId: "123456789012",
+        apiId: "gecko-local",
+        resourceId: "gecko",
+        resourcePath: matched.route.path,
+        httpMethod: req.method,
+        path: `/Prod${url.pathname}`,
+        stage: "Prod",
+        requestId: randomUUID(),
+        requestTime: now.toUTCString(),
+        requestTimeEpoch: now.getTime(),
+        protocol: `HTTP/${req.httpVersion}`,
+        identity: {
+          sourceIp: req.socket.remoteAddress || "127.0.0.1",
+          userAgent: headers["User-Agent"] || headers["user-agent"] || "",
+        },
+      },
+      body: encoded.body,
+      isBase64Encoded: encoded.isBase64Encoded,
+    };
+  }
+
+  private toV2Event(
+    req: http.IncomingMessage,
+    url: URL,
+    body: Buffer,
+    matched: MatchedRoute
+  ): any {
+    const headers: { [key: string]: string } = {};
+    let cookies: string[] = [];
+    Object.entries(this.multiValueHeaders(req)).forEach(([name, values]) => {
+      const key = name.toLowerCase();
+      if (key === "cookie") {
+        cookies = values.flatMap((value) => value.split(/;\s*/));
+        return;
+      }
+      headers[key] = headers[key] ? `${headers[key]},${values.join(",")}` : values.join(",");
+    });
+    const query: { [key: string]: string } = {};
+    url.searchParams.forEach((value, name) => {
+      query[name] = query[name] !== undefined ? `${query[name]},${value}` : value;
+    });
+    const routeKey =
+      matched.route.method === "ANY" && matched.route.path === "/{proxy+}"
+        ? "$default"
+        : `${matched.route.method} ${matched.route.path}`;
+    const encoded = this.encodeBody(req, body);
+    const now = new Date();
+
+    return {
+      version: "2.0",
+      routeKey,
+      rawPath: url.pathname,
+      rawQueryString: url.search.replace(/^\?/, ""),
+      cookies: cookies.length ? cookies : undefined,
+      headers,
+      queryStringParameters: Object.keys(query).length ? query : undefined,
+      pathParameters: matched.pathParameters || undefined,
+      requestContext: {
+        accountId: "123456789012",
+        apiId: "gecko-local",
+        domainName: headers.host || "localhost",
+        domainPrefix: (headers.host || "localhost").split(".")[0],
+        http: {
+          method: req.method,
+          path: url.pathname,
+          protocol: `HTTP/${req.httpVersion}`,
+          sourceIp: req.socket.remoteAddress || "127.0.0.1",
+          userAgent: headers["user-agent"] || "",
+        },
+        requestId: randomUUID(),
+        routeKey,
+        stage: "$default",
+        time: now.toUTCString(),
+        timeEpoch: now.getTime(),
+      },
+      body: encoded.body,
+      isBase64Encoded: encoded.isBase64Encoded,
+    };
+  }
+
+  /**
+   * Maps a Lambda proxy integration response to an HTTP response. Payload 2.0
+   * also accepts a plain JSON value, which API Gateway returns with status 200.
+   */
+  private fromProxyResponse(
+    payload: any,
+    route: ApiRoute
+  ): {
+    statusCode: number;
+    headers: { [key: string]: string | string[] };
+    body: Buffer;
+  } {
+    const isProxyResponse =
+      payload !== null && typeof payload === "object" && "statusCode" in payload;
+
+    if (!isProxyResponse) {
+      if (route.payloadFormat === "1.0") {
+        log(`⚠️ Handler did not return a proxy response with statusCode`);
+        return {
+          statusCode: 502,
+          headers: { "Content-Type": "application/json" },
+          body: Buffer.from(JSON.stringify({ message: "Internal server error" })),
+        };
+      }
+      return {
+        statusCode: 200,
+        headers: { "Content-Type": "application/json" },
+        body: Buffer.from(
+          typeof payload === "string" ? payload : JSON.stringify(payload ?? null)
+        ),
+      };
+    }
+
+    const headers: { [key: string]: string | string[] } = {};
+    Object.entries<any>(payload.headers || {}).forEach(([name, value]) => {
+      headers[name] = String(value);
+    });
+    Object.entries<any>(payload.multiValueHeaders || {}).forEach(([name, values]) => {
+      const existing = headers[name];
+      const merged = (Array.isArray(values) ? values : [values]).map(String);
+      headers[name] =
+        existing === undefined
+          ? merged
+          : [...(Array.isArray(existing) ? existing : [existing]), ...merged];
+    });
+    if (Array.isArray(payload.cookies) && payload.cookies.length) {
+      headers["Set-Cookie"] = payload.cookies.map(String);
+    }
+
+    const rawBody = payload.body === undefined || payload.body === null ? "" : String(payload.body);
+    return {
+      statusCode: Number(payload.statusCode) || 200,
+      headers,
+      body: payload.isBase64Encoded
+        ? Buffer.from(rawBody, "base64")
+        : Buffer.from(rawBody, "utf8"),
+    };
+  }
+
+  private multiValueHeaders(req: http.IncomingMessage): { [key: string]: string[] } {
+    const headers: { [key: string]: string[] } = {};
+    for (let i = 0; i < req.rawHeaders.length; i += 2) {
+      const name = req.rawHeaders[i];
+      (headers[name] = headers[name] || []).push(req.rawHeaders[i + 1]);
+    }
+    return headers;
+  }
+
+  private encodeBody(
+    req: http.IncomingMessage,
+    body: Buffer
+  ): { body: string | null; isBase64Encoded: boolean } {
+    if (body.length === 0) {
+      return { body: null, isBase64Encoded: false };
+    }
+    const contentType = String(req.headers["content-type"] || "text/plain");
+    return TEXT_CONTENT_TYPES.test(contentType)
+      ? { body: body.toString("utf8"), isBase64Encoded: false }
+      : { body: body.toString("base64"), isBase64Encoded: true };
+  }
+
+  private readBody(req: http.IncomingMessage): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      req.on("data", (chunk) => chunks.push(chunk));
+      req.on("end", () => resolve(Buffer.concat(chunks)));
+      req.on("error", reject);
+    });
+  }
+
+  private send(res: http.ServerResponse, status: number, body: any): void {
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  }
+
+  private describeBody(body: Buffer, contentType: string | undefined): string {
+    if (body.length === 0) {
+      return "";
+    }
+    if (!TEXT_CONTENT_TYPES.test(contentType || "text/plain")) {
+      return `(${body.length} bytes ${contentType})`;
+    }
+    const text = body.toString("utf8");
+    return text.length > MAX_LOGGED_BODY
+      ? `${text.slice(0, MAX_LOGGED_BODY)}… (${text.length} chars)`
+      : text;
+  }
+}
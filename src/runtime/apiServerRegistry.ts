@@ -0,0 +1,203 @@
+import * as vscode from "vscode";
+import * as net from "net";
+import { ApiGatewayEmulator } from "./apiGatewayEmulator";
+import { NativeRunner } from "./nativeRunner";
+import { LambdaIndex } from "../lambdaIndex";
+import {
+  BuildUtils,
+  LocalLambdaConfig,
+  TemplateIO,
+  TemplateManager,
+} from "../utils";
+import { log } from "../logger";
+
+export interface ApiServerEntry {
+  functionName: string;
+  lambdaDir: string;
+  host: string;
+  port: number;
+  url: string;
+  mode: "native" | "sam";
+  startedAt: string;
+}
+
+interface RunningServer extends ApiServerEntry {
+  stop(): void;
+}
+
+const DEFAULT_HOST = "127.0.0.1";
+const DEFAULT_BASE_PORT = 3000;
+
+/**
+ * Tracks the local API servers of apigateway lambdas, so several functions
+ * can be served at once, each on its own host and port.
+ */
+export class ApiServerRegistry implements vscode.Disposable {
+  private static instance: ApiServerRegistry | undefined;
+
+  private servers = new Map<string, RunningServer>();
+  private terminalListener: vscode.Disposable;
+
+  private _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+  static getInstance(): ApiServerRegistry {
+    if (!this.instance) {
+      this.instance = new ApiServerRegistry();
+    }
+    return this.instance;
+  }
+
+  private constructor() {
+    // `sam local start-api` servers stop when their terminal is closed
+    this.terminalListener = vscode.window.onDidCloseTerminal((terminal) => {
+      for (const server of this.servers.values()) {
+        if (server.mode === "sam" && terminal.name === this.terminalName(server.functionName)) {
+          this.servers.delete(server.functionName);
+          log(`🛑 API server for ${server.functionName} stopped (terminal closed)`);
+          this._onDidChange.fire();
+        }
+      }
+    });
+  }
+
+  get(functionName: string): ApiServerEntry | undefined {
+    return this.servers.get(functionName);
+  }
+
+  getAll(): ApiServerEntry[] {
+    return [...this.servers.values()].sort((a, b) =>
+      a.functionName.localeCompare(b.functionName)
+    );
+  }
+
+  /**
+   * Starts (or restarts) the API server of a lambda. Native functions use the
+   * built-in API Gateway emulator, the others `sam local start-api`.
+   */
+  async start(
+    localConfig: LocalLambdaConfig,
+    lambdaDir: string
+  ): Promise<ApiServerEntry> {
+    this.stop(localConfig.functionName);
+    const { host, port } = await this.resolveAddress(localConfig, lambdaDir);
+    const startedAt = new Date().toISOString();
+
+    let server: RunningServer;
+    if (BuildUtils.isNative(localConfig)) {
+      const { emulator, url } = await NativeRunner.startApiGateway(
+        localConfig,
+        lambdaDir,
+        host,
+        port
+      );
+      server = {
+        functionName: localConfig.functionName,
+        lambdaDir,
+        host,
+        port,
+        url,
+        mode: "native",
+        startedAt,
+        stop: () => emulator.stop(),
+      };
+    } else {
+      const terminal = vscode.window.createTerminal({
+        name: this.terminalName(localConfig.functionName),
+        cwd: lambdaDir,
+      });
+      terminal.show(true);
+      const templatePath = TemplateIO.getTemplatePath(lambdaDir);
+      terminal.sendText(
+        `sam local start-api -t "${templatePath}" --host ${host} --port ${port}`
+      );
+      server = {
+        functionName: localConfig.functionName,
+        lambdaDir,
+        host,
+        port,
+        url: `http://${host}:${port}`,
+        mode: "sam",
+        startedAt,
+        stop: () => terminal.dispose(),
+      };
+    }
+
+    this.servers.set(server.functionName, server);
+    log(`🌐 API server for ${server.functionName} on ${server.url} (${server.mode})`);
+    this._onDidChange.fire();
+    return server;
+  }
+
+  stop(functionName: string): boolean {
+    const server = this.servers.get(functionName);
+    if (!server) {
+      return false;
+    }
+    this.servers.delete(functionName);
+    server.stop();
+    log(`🛑 API server for ${functionName} stopped`);
+    this._onDidChange.fire();
+    return true;
+  }
+
+  stopAll(): void {
+    [...this.servers.keys()].forEach((functionName) => this.stop(functionName));
+  }
+
+  dispose(): void {
+    this.stopAll();
+    this.terminalListener.dispose();
+    this._onDidChange.dispose();
+    ApiServerRegistry.instance = undefined;
+  }
+
+  /**
+   * Uses the host and port stored in the Gecko metadata. Without a port, the
+   * first free one from `gecko.api.basePort` that no other lambda claims is
+   * picked and saved, so the function keeps its address across runs.
+   */
+  private async resolveAddress(
+    localConfig: LocalLambdaConfig,
+    lambdaDir: string
+  ): Promise<{ host: string; port: number }> {
+    const settings = vscode.workspace.getConfiguration("gecko.api");
+    const host = localConfig.apiHost || settings.get<string>("host") || DEFAULT_HOST;
+
+    if (localConfig.apiPort) {
+      if (!(await this.isPortFree(host, localConfig.apiPort))) {
+        throw new Error(
+          `Port ${localConfig.apiPort} on ${host} is already in use. Change the API port of ${localConfig.functionName} or stop the process using it.`
+        );
+      }
+      return { host, port: localConfig.apiPort };
+    }
+
+    const claimed = new Set<number>([
+      ...LambdaIndex.getInstance()
+        .getAll(localConfig.workspacePath)
+        .map((config) => config.apiPort)
+        .filter((port): port is number => !!port),
+      ...[...this.servers.values()].map((server) => server.port),
+    ]);
+    let port = settings.get<number>("basePort") || DEFAULT_BASE_PORT;
+    while (claimed.has(port) || !(await this.isPortFree(host, port))) {
+      port++;
+    }
+    TemplateManager.updateGeckoMetadataValues(lambdaDir, { apiPort: port });
+    log(`🔌 Assigned port ${port} to ${localConfig.functionName}`);
+    return { host, port };
+  }
+
+  private isPortFree(host: string, port: number): Promise<boolean> {
+    return new Promise((resolve) => {
+      const probe = net.createServer();
+      probe.once("error", () => resolve(false));
+      probe.listen(port, host, () => probe.close(() => resolve(true)));
+    });
+  }
+
+  private terminalName(functionName: string): string {
+    return `🦎 API - ${functionName}`;
+  }
+}
@@ -0,0 +1,180 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import type { LambdaConfig } from "../detector";
+import { BuildUtils, ConfigManager } from "../utils";
+import { log, outputChannel } from "../logger";
+
+export type BuildState = "queued" | "building";
+
+type BuildOutcome = "built" | "upToDate" | "failed";
+
+const DEFAULT_MAX_WORKERS = 4;
+
+/**
+ * Builds several lambdas at once, at most `gecko.build.maxWorkers` at a time,
+ * skipping the ones that are up to date. The state of each function is kept
+ * for the tree while the builds run.
+ */
+export class BuildQueue implements vscode.Disposable {
+  private static instance: BuildQueue | undefined;
+
+  private states = new Map<string, BuildState>();
+
+  private _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+  static getInstance(): BuildQueue {
+    if (!this.instance) {
+      this.instance = new BuildQueue();
+    }
+    return this.instance;
+  }
+
+  getState(functionName: string): BuildState | undefined {
+    return this.states.get(functionName);
+  }
+
+  /**
+   * Builds the given lambdas in parallel with a cancellable progress
+   * notification, then shows how many were built, up to date or failed
+   */
+  async build(configs: LambdaConfig[], title: string): Promise<void> {
+    const pending = configs.filter(
+      (config, index) =>
+        !this.states.has(config.functionName) &&
+        configs.findIndex(
+          (other) => other.functionName === config.functionName
+        ) === index
+    );
+    if (pending.length === 0) {
+      vscode.window.showInformationMessage(
+        configs.length
+          ? "🔨 These lambdas are already being built"
+          : "🔨 No lambdas to build"
+      );
+      return;
+    }
+
+    const maxWorkers = Math.max(
+      1,
+      vscode.workspace
+        .getConfiguration("gecko.build")
+        .get<number>("maxWorkers") || DEFAULT_MAX_WORKERS
+    );
+    const results: Record<BuildOutcome, string[]> = {
+      built: [],
+      upToDate: [],
+      failed: [],
+    };
+    pending.forEach((config) => this.setState(config.functionName, "queued"));
+    log(
+      `🔨 ${title}: ${pending.length} lambda${
+        pending.length === 1 ? "" : "s"
+      }, ${maxWorkers} at a time`
+    );
+
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `🦎 ${title}`,
+        cancellable: true,
+      },
+      async (progress, token) => {
+        const queue = [...pending];
+        const building = new Set<string>();
+        const report = (increment: number) =>
+          progress.report({
+            increment,
+            message: `${pending.length - queue.length - building.size}/${
+              pending.length
+            } done${
+              building.size ? ` · building ${[...building].join(", ")}` : ""
+            }`,
+          });
+
+        const worker = async () => {
+          while (queue.length && !token.isCancellationRequested) {
+            const config = queue.shift()!;
+            building.add(config.functionName);
+            this.setState(config.functionName, "building");
+            report(0);
+            results[await this.buildOne(config)].push(config.functionName);
+            building.delete(config.functionName);
+            this.setState(config.functionName, undefined);
+            report(100 / pending.length);
+          }
+        };
+        await Promise.all(
+          Array.from({ length: Math.min(maxWorkers, pending.length) }, worker)
+        );
+        // Functions still queued when the build was cancelled
+        queue.forEach((config) =>
+          this.setState(config.functionName, undefined)
+        );
+      }
+    );
+
+    vscode.commands.executeCommand("gecko.refreshTreeView");
+    this.showSummary(title, pending.length, results);
+  }
+
+  dispose(): void {
+    this._onDidChange.dispose();
+  }
+
+  private async buildOne(config: LambdaConfig): Promise<BuildOutcome> {
+    const lambdaDir = path.join(config.workspacePath, config.functionName);
+    try {
+      const localConfig = ConfigManager.readLocalConfig(lambdaDir);
+      if (!(await BuildUtils.needsRebuild(localConfig, lambdaDir))) {
+        log(`⏭️ ${config.functionName} is up to date`);
+        return "upToDate";
+      }
+      await BuildUtils.buildWithGo(lambdaDir, localConfig);
+      log(`✅ ${config.functionName} built`);
+      return "built";
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      log(`❌ ${config.functionName} failed to build\n${message}`);
+      return "failed";
+    }
+  }
+
+  private async showSummary(
+    title: string,
+    total: number,
+    { built, upToDate, failed }: Record<BuildOutcome, string[]>
+  ): Promise<void> {
+    const cancelled = total - built.length - upToDate.length - failed.length;
+    const summary = [
+      `${built.length} built`,
+      `${upToDate.length} up to date`,
+      failed.length && `${failed.length} failed`,
+      cancelled && `${cancelled} cancelled`,
+    ]
+      .filter((part) => part)
+      .join(", ");
+    log(`🔨 ${title}: ${summary}`);
+
+    if (failed.length === 0) {
+      vscode.window.showInformationMessage(`🔨 ${title}: ${summary}`);
+      return;
+    }
+    const selection = await vscode.window.showErrorMessage(
+      `🔨 ${title}: ${summary} (${failed.join(", ")})`,
+      "Show Errors"
+    );
+    if (selection === "Show Errors") {
+      outputChannel?.show(true);
+    }
+  }
+
+  private setState(functionName: string, state: BuildState | undefined): void {
+    if (state) {
+      this.states.set(functionName, state);
+    } else {
+      this.states.delete(functionName);
+    }
+    this._onDidChange.fire();
+  }
+}
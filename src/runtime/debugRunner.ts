@@ -0,0 +1,181 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as net from "net";
+import * as path from "path";
+import { NativeRuntime } from "./nativeRuntime";
+import {
+  BuildUtils,
+  InvocationOutput,
+  InvocationResult,
+  LocalLambdaConfig,
+} from "../utils";
+import { ResultPanel } from "../views/resultPanel";
+import { log } from "../logger";
+
+/** Seconds an invocation may stay paused on breakpoints before timing out */
+const DEBUG_TIMEOUT = 15 * 60;
+const ATTACH_TIMEOUT_MS = 15000;
+
+/**
+ * Runs a handler under a headless Delve server against the native runtime
+ * emulator and attaches the Go debugger to it, so no Docker is needed
+ */
+export class DebugRunner {
+  /**
+   * Debugs a lambda with a test event, saves the outcome to response.json
+   * and shows it in the result panel
+   */
+  static async run(
+    localConfig: LocalLambdaConfig,
+    lambdaDir: string,
+    eventFilePath: string
+  ): Promise<void> {
+    log(`🐞 Debugging ${localConfig.functionName} with ${eventFilePath}`);
+
+    const result = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Window,
+        title: `🦎 Debugging ${localConfig.functionName}`,
+      },
+      () => this.invoke(localConfig, lambdaDir, eventFilePath)
+    );
+
+    const { record, response } = InvocationOutput.save(
+      lambdaDir,
+      path.basename(eventFilePath, ".json"),
+      "debug",
+      result
+    );
+    vscode.commands.executeCommand("gecko.refreshTreeView");
+    ResultPanel.show(localConfig, lambdaDir, record, response);
+  }
+
+  /**
+   * Builds a debug binary, invokes it once with a test event while the Go
+   * debugger is attached, and detaches when the handler has responded
+   */
+  static async invoke(
+    localConfig: LocalLambdaConfig,
+    lambdaDir: string,
+    eventFilePath: string
+  ): Promise<InvocationResult> {
+    if (await BuildUtils.needsRebuild(localConfig, lambdaDir, true)) {
+      await BuildUtils.buildWithGo(lambdaDir, localConfig, true);
+    }
+
+    const bootstrapPath = BuildUtils.getDebugBinaryPath(lambdaDir);
+    const port = await this.findFreePort();
+    const dlvPath =
+      vscode.workspace.getConfiguration("gecko.debug").get<string>("dlvPath") ||
+      "dlv";
+    const runtime = new NativeRuntime({
+      ...NativeRuntime.fromConfig(localConfig, lambdaDir),
+      bootstrapPath,
+      timeout: DEBUG_TIMEOUT,
+      command: {
+        file: dlvPath,
+        args: [
+          "exec",
+          bootstrapPath,
+          "--headless",
+          `--listen=127.0.0.1:${port}`,
+          "--api-version=2",
+          "--accept-multiclient",
+          "--continue",
+        ],
+      },
+    });
+
+    await runtime.start();
+    try {
+      await this.waitForServer(runtime, port);
+      const session = await this.attach(localConfig.functionName, port);
+      try {
+        return await runtime.invoke(fs.readFileSync(eventFilePath, "utf8"));
+      } finally {
+        await vscode.debug.stopDebugging(session);
+      }
+    } finally {
+      runtime.stop();
+    }
+  }
+
+  /**
+   * Starts a `go` remote attach configuration on the Delve server
+   */
+  private static async attach(
+    functionName: string,
+    port: number
+  ): Promise<vscode.DebugSession> {
+    const name = `🦎 Debug ${functionName}`;
+    let session: vscode.DebugSession | undefined;
+    const listener = vscode.debug.onDidStartDebugSession((started) => {
+      if (started.name === name) {
+        session = started;
+      }
+    });
+    try {
+      const started = await vscode.debug.startDebugging(undefined, {
+        type: "go",
+        request: "attach",
+        mode: "remote",
+        name,
+        host: "127.0.0.1",
+        port,
+      });
+      if (!started || !session) {
+        throw new Error(
+          "Could not attach the Go debugger. Is the Go extension installed?"
+        );
+      }
+      log(`🐞 Go debugger attached to ${functionName} on port ${port}`);
+      return session;
+    } finally {
+      listener.dispose();
+    }
+  }
+
+  /**
+   * Waits until Delve accepts connections, failing when it exits first
+   */
+  private static async waitForServer(
+    runtime: NativeRuntime,
+    port: number
+  ): Promise<void> {
+    const deadline = Date.now() + ATTACH_TIMEOUT_MS;
+    while (Date.now() < deadline) {
+      if (!runtime.isRunning) {
+        throw new Error(
+          "Delve exited before the debugger could attach. Is dlv installed (gecko.debug.dlvPath)?"
+        );
+      }
+      if (await this.canConnect(port)) {
+        return;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 200));
+    }
+    throw new Error(`Delve did not listen on port ${port} in time`);
+  }
+
+  private static canConnect(port: number): Promise<boolean> {
+    return new Promise((resolve) => {
+      const socket = net.connect(port, "127.0.0.1");
+      socket.once("connect", () => {
+        socket.destroy();
+        resolve(true);
+      });
+      socket.once("error", () => resolve(false));
+    });
+  }
+
+  private static findFreePort(): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const server = net.createServer();
+      server.once("error", reject);
+      server.listen(0, "127.0.0.1", () => {
+        const { port } = server.address() as net.AddressInfo;
+        server.close(() => resolve(port));
+      });
+    });
+  }
+}
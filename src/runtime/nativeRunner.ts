@@ -0,0 +1,98 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import * as fs from "fs";
+import { NativeRuntime } from "./nativeRuntime";
+import { ApiGatewayEmulator } from "./apiGatewayEmulator";
+import {
+  InvocationOutput,
+  InvocationResult,
+  LocalLambdaConfig,
+  TemplateManager,
+} from "../utils";
+import { ResultPanel } from "../views/resultPanel";
+import { log } from "../logger";
+
+export const RUN_MODES = [
+  {
+    label: "SAM (Docker)",
+    description: "sam local invoke in the Lambda container image",
+    value: "direct",
+  },
+  {
+    label: "Native (no Docker)",
+    description: "Runs the binary on this machine against a local Runtime API",
+    value: "native",
+  },
+];
+
+export class NativeRunner {
+  /**
+   * Invokes a built lambda with a test event through the native runtime,
+   * saves the outcome to response.json and shows it in the result panel
+   */
+  static async run(
+    localConfig: LocalLambdaConfig,
+    lambdaDir: string,
+    eventFilePath: string
+  ): Promise<void> {
+    log(`🚀 Invoking ${localConfig.functionName} natively with ${eventFilePath}`);
+
+    const result = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `🦎 Executing ${localConfig.functionName} (native)`,
+      },
+      async (progress) => {
+        progress.report({ message: "Waiting for handler response..." });
+        return this.invoke(localConfig, lambdaDir, eventFilePath);
+      }
+    );
+
+    const { record, response } = InvocationOutput.save(
+      lambdaDir,
+      path.basename(eventFilePath, ".json"),
+      "native",
+      result
+    );
+    vscode.commands.executeCommand("gecko.refreshTreeView");
+    ResultPanel.show(localConfig, lambdaDir, record, response);
+  }
+
+  /**
+   * Invokes a built lambda once with a test event, without recording or
+   * showing the outcome
+   */
+  static invoke(
+    localConfig: LocalLambdaConfig,
+    lambdaDir: string,
+    eventFilePath: string
+  ): Promise<InvocationResult> {
+    return NativeRuntime.invokeOnce(
+      NativeRuntime.fromConfig(localConfig, lambdaDir),
+      fs.readFileSync(eventFilePath, "utf8")
+    );
+  }
+
+  /**
+   * Serves an apigateway lambda over HTTP through the built-in API Gateway
+   * emulator, routing requests with the Api/HttpApi events of template.yaml
+   */
+  static async startApiGateway(
+    localConfig: LocalLambdaConfig,
+    lambdaDir: string,
+    host: string,
+    port: number
+  ): Promise<{ emulator: ApiGatewayEmulator; url: string }> {
+    const routes = ApiGatewayEmulator.readRoutes(
+      TemplateManager.readTemplate(lambdaDir),
+      localConfig.eventType,
+      localConfig.logicalId
+    );
+    const emulator = new ApiGatewayEmulator(
+      NativeRuntime.fromConfig(localConfig, lambdaDir),
+      routes
+    );
+    const url = await emulator.start(host, port);
+    return { emulator, url };
+  }
+}
@@ -0,0 +1,240 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ChildProcess, spawn } from "child_process";
+import { RuntimeApiServer } from "./runtimeApiServer";
+import {
+  BuildUtils,
+  InvocationOutput,
+  InvocationReport,
+  InvocationResult,
+  LocalLambdaConfig,
+} from "../utils";
+import { log } from "../logger";
+
+export interface NativeRuntimeOptions {
+  bootstrapPath: string;
+  functionName: string;
+  memorySize: number;
+  timeout: number;
+  environment: { [key: string]: string };
+  /** Runs another command instead of the bootstrap binary (e.g. a debugger) */
+  command?: { file: string; args: string[] };
+}
+
+/**
+ * Runs a built `bootstrap` binary on the host against the local Runtime API,
+ * without Docker or SAM. The process is kept warm between invocations until
+ * `stop()` is called.
+ */
+export class NativeRuntime {
+  private server: RuntimeApiServer;
+  private process: ChildProcess | undefined;
+  private logs = "";
+  private exitCode: number | null | undefined;
+  private spawnedAt: number | undefined;
+  private initReported = false;
+
+  constructor(private options: NativeRuntimeOptions) {
+    this.server = new RuntimeApiServer(
+      `arn:aws:lambda:${this.region()}:123456789012:function:${options.functionName}`,
+      options.timeout
+    );
+  }
+
+  /**
+   * Builds runtime options from a lambda's template.yaml configuration
+   */
+  static fromConfig(
+    localConfig: LocalLambdaConfig,
+    lambdaDir: string
+  ): NativeRuntimeOptions {
+    const variables = localConfig.environment?.variables || {};
+    const environment: { [key: string]: string } = {};
+    for (const [key, value] of Object.entries(variables)) {
+      if (value !== null && typeof value !== "object") {
+        environment[key] = String(value);
+      }
+    }
+    return {
+      bootstrapPath: BuildUtils.getBinaryPath(lambdaDir, localConfig),
+      functionName: localConfig.functionName,
+      memorySize: localConfig.template?.memorySize || 128,
+      timeout: localConfig.template?.timeout || 30,
+      environment,
+    };
+  }
+
+  static async invokeOnce(
+    options: NativeRuntimeOptions,
+    event: string
+  ): Promise<InvocationResult> {
+    const runtime = new NativeRuntime(options);
+    try {
+      await runtime.start();
+      return await runtime.invoke(event);
+    } finally {
+      runtime.stop();
+    }
+  }
+
+  get isRunning(): boolean {
+    return !!this.process && this.exitCode === undefined;
+  }
+
+  async start(): Promise<void> {
+    const runtimeApi = await this.server.start();
+    const { bootstrapPath, functionName, memorySize, timeout } = this.options;
+    const file = this.options.command?.file || bootstrapPath;
+    const args = this.options.command?.args || [];
+
+    log(`🦎 Native runtime: ${file} (AWS_LAMBDA_RUNTIME_API=${runtimeApi})`);
+    this.exitCode = undefined;
+    this.spawnedAt = Date.now();
+    this.initReported = false;
+    this.process = spawn(file, args, {
+      cwd: path.dirname(bootstrapPath),
+      env: {
+        ...process.env,
+        ...this.options.environment,
+        AWS_LAMBDA_RUNTIME_API: runtimeApi,
+        AWS_LAMBDA_FUNCTION_NAME: functionName,
+        AWS_LAMBDA_FUNCTION_VERSION: "$LATEST",
+        AWS_LAMBDA_FUNCTION_MEMORY_SIZE: String(memorySize),
+        AWS_LAMBDA_FUNCTION_TIMEOUT: String(timeout),
+        AWS_LAMBDA_LOG_GROUP_NAME: `/aws/lambda/${functionName}`,
+        AWS_LAMBDA_LOG_STREAM_NAME: "gecko-local",
+        AWS_REGION: this.region(),
+        AWS_DEFAULT_REGION: this.region(),
+        LAMBDA_TASK_ROOT: path.dirname(bootstrapPath),
+        _HANDLER: "bootstrap",
+      },
+    });
+
+    const capture = (chunk: Buffer) => {
+      const text = chunk.toString("utf8");
+      this.logs += text;
+      text
+        .split("\n")
+        .filter((line) => line.trim())
+        .forEach((line) => log(`  │ ${line}`));
+    };
+    this.process.stdout?.on("data", capture);
+    this.process.stderr?.on("data", capture);
+    this.process.on("error", (error) => {
+      this.exitCode = null;
+      this.server.failPending({
+        errorType: "Runtime.StartError",
+        errorMessage: `Could not start ${file}: ${error.message}`,
+      });
+    });
+    this.process.on("exit", (code, signal) => {
+      this.exitCode = code;
+      this.server.failPending({
+        errorType: "Runtime.ExitError",
+        errorMessage: `Runtime exited with ${
+          signal ? `signal ${signal}` : `exit status ${code}`
+        }`,
+      });
+    });
+  }
+
+  async invoke(event: string): Promise<InvocationResult> {
+    this.logs = "";
+    const startedAt = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+
+    const timedOut = new Promise<"timeout">((resolve) => {
+      timer = setTimeout(() => resolve("timeout"), this.options.timeout * 1000);
+    });
+    const outcome = await Promise.race([this.server.invoke(event), timedOut]);
+    clearTimeout(timer);
+    const durationMs = Date.now() - startedAt;
+
+    if (outcome === "timeout") {
+      const report = this.createReport(durationMs);
+      this.stop();
+      return {
+        requestId: "",
+        rawPayload: "",
+        error: {
+          errorType: "Sandbox.Timedout",
+          errorMessage: `Task timed out after ${this.options.timeout.toFixed(2)} seconds`,
+        },
+        logs: this.logs.trim(),
+        durationMs,
+        exitCode: this.exitCode,
+        report,
+      };
+    }
+
+    const report = this.createReport(outcome.durationMs ?? durationMs);
+    log(`  │ ${InvocationOutput.formatReport(outcome.requestId, report)}`);
+    return {
+      requestId: outcome.requestId,
+      payload: outcome.error ? undefined : this.parsePayload(outcome.body),
+      rawPayload: outcome.body,
+      error: outcome.error,
+      logs: this.logs.trim(),
+      durationMs,
+      exitCode: this.exitCode,
+      report,
+    };
+  }
+
+  stop(): void {
+    if (this.process && this.exitCode === undefined) {
+      this.process.kill();
+    }
+    this.process = undefined;
+    this.server.stop();
+  }
+
+  /**
+   * Figures Lambda would report for an invocation. Init duration is only
+   * reported once, from spawning the process to its first poll for an event.
+   */
+  private createReport(durationMs: number): InvocationReport {
+    const initializedAt = this.server.initializedAt;
+    let initDurationMs: number | undefined;
+    if (!this.initReported && initializedAt && this.spawnedAt) {
+      initDurationMs = initializedAt - this.spawnedAt;
+      this.initReported = true;
+    }
+    return {
+      durationMs,
+      billedDurationMs: Math.max(1, Math.ceil(durationMs)),
+      memorySizeMb: this.options.memorySize,
+      maxMemoryUsedMb: this.readMaxMemoryUsed(),
+      initDurationMs,
+    };
+  }
+
+  /**
+   * Peak resident memory of the process, on systems with /proc
+   */
+  private readMaxMemoryUsed(): number | undefined {
+    const pid = this.process?.pid;
+    if (!pid) {
+      return undefined;
+    }
+    try {
+      const status = fs.readFileSync(`/proc/${pid}/status`, "utf8");
+      const match = /^VmHWM:\s+(\d+) kB/m.exec(status);
+      return match ? Math.ceil(Number(match[1]) / 1024) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private parsePayload(body: string): any {
+    try {
+      return JSON.parse(body);
+    } catch {
+      return body;
+    }
+  }
+
+  private region(): string {
+    return process.env.AWS_REGION || process.env.AWS_DEFAULT_REGION || "us-east-1";
+  }
+}
@@ -0,0 +1,212 @@
+import * as http from "http";
+import { AddressInfo } from "net";
+import { randomUUID } from "crypto";
+import { InvocationError } from "../utils/types";
+import { log } from "../logger";
+
+const API_PREFIX = "/2018-06-01/runtime";
+
+interface PendingInvocation {
+  requestId: string;
+  event: string;
+  deadlineMs: number;
+  dispatchedAt?: number;
+  resolve: (outcome: InvocationOutcome) => void;
+}
+
+export interface InvocationOutcome {
+  requestId: string;
+  body: string;
+  error?: InvocationError;
+  /** Time between handing the event to the runtime and its answer */
+  durationMs?: number;
+}
+
+/**
+ * Local implementation of the Lambda Runtime API
+ * (https://docs.aws.amazon.com/lambda/latest/dg/runtimes-api.html).
+ * The `bootstrap` binary long-polls `/invocation/next` for events and posts
+ * the handler result to `/invocation/{id}/response` or `/error`.
+ */
+export class RuntimeApiServer {
+  private server: http.Server | undefined;
+  private queue: PendingInvocation[] = [];
+  private inFlight = new Map<string, PendingInvocation>();
+  private waitingRuntime: http.ServerResponse | undefined;
+  private initError: InvocationError | undefined;
+  /** When the runtime first asked for an event, i.e. finished its init */
+  private firstPollAt: number | undefined;
+
+  constructor(
+    private functionArn: string,
+    private timeoutSeconds: number
+  ) {}
+
+  /**
+   * Starts listening on a free local port and returns the value for
+   * AWS_LAMBDA_RUNTIME_API
+   */
+  async start(host: string = "127.0.0.1"): Promise<string> {
+    this.server = http.createServer((req, res) => this.handle(req, res));
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once("error", reject);
+      this.server!.listen(0, host, () => resolve());
+    });
+    const address = this.server.address() as AddressInfo;
+    return `${host}:${address.port}`;
+  }
+
+  get initializedAt(): number | undefined {
+    return this.firstPollAt;
+  }
+
+  stop(): void {
+    this.waitingRuntime?.destroy();
+    this.waitingRuntime = undefined;
+    this.server?.close();
+    this.server = undefined;
+    const reason: InvocationError = {
+      errorType: "Runtime.Stopped",
+      errorMessage: "Runtime API server stopped",
+    };
+    [...this.queue, ...this.inFlight.values()].forEach((invocation) =>
+      invocation.resolve({
+        requestId: invocation.requestId,
+        body: "",
+        error: reason,
+      })
+    );
+    this.queue = [];
+    this.inFlight.clear();
+  }
+
+  /**
+   * Queues an event and resolves once the runtime posts its response or error
+   */
+  invoke(event: string): Promise<InvocationOutcome> {
+    return new Promise((resolve) => {
+      const invocation: PendingInvocation = {
+        requestId: randomUUID(),
+        event,
+        deadlineMs: Date.now() + this.timeoutSeconds * 1000,
+        resolve,
+      };
+      if (this.initError) {
+        resolve({ requestId: invocation.requestId, body: "", error: this.initError });
+        return;
+      }
+      this.queue.push(invocation);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Fails every pending invocation, e.g. when the runtime process exits
+   */
+  failPending(error: InvocationError): void {
+    [...this.queue, ...this.inFlight.values()].forEach((invocation) =>
+      invocation.resolve({ requestId: invocation.requestId, body: "", error })
+    );
+    this.queue = [];
+    this.inFlight.clear();
+  }
+
+  private dispatch(): void {
+    if (!this.waitingRuntime || this.queue.length === 0) {
+      return;
+    }
+    const invocation = this.queue.shift()!;
+    const res = this.waitingRuntime;
+    this.waitingRuntime = undefined;
+    invocation.dispatchedAt = Date.now();
+    this.inFlight.set(invocation.requestId, invocation);
+
+    res.writeHead(200, {
+      "Content-Type": "application/json",
+      "Lambda-Runtime-Aws-Request-Id": invocation.requestId,
+      "Lambda-Runtime-Deadline-Ms": String(invocation.deadlineMs),
+      "Lambda-Runtime-Invoked-Function-Arn": this.functionArn,
+      "Lambda-Runtime-Trace-Id": `Root=1-${Math.floor(Date.now() / 1000).toString(16)}-${invocation.requestId.replace(/-/g, "").slice(0, 24)};Sampled=0`,
+    });
+    res.end(invocation.event);
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const url = req.url || "";
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk) => chunks.push(chunk));
+    req.on("end", () => {
+      const body = Buffer.concat(chunks).toString("utf8");
+
+      if (req.method === "GET" && url === `${API_PREFIX}/invocation/next`) {
+        this.firstPollAt = this.firstPollAt ?? Date.now();
+        this.waitingRuntime = res;
+        this.dispatch();
+        return;
+      }
+
+      const match = new RegExp(
+        `^${API_PREFIX}/invocation/([^/]+)/(response|error)$`
+      ).exec(url);
+      if (req.method === "POST" && match) {
+        const invocation = this.inFlight.get(match[1]);
+        if (!invocation) {
+          this.reply(res, 400, {
+            errorType: "InvalidRequestID",
+            errorMessage: `Unknown request id ${match[1]}`,
+          });
+          return;
+        }
+        this.inFlight.delete(match[1]);
+        invocation.resolve({
+          requestId: invocation.requestId,
+          body: match[2] === "response" ? body : "",
+          error: match[2] === "error" ? this.parseError(body, req) : undefined,
+          durationMs: invocation.dispatchedAt
+            ? Date.now() - invocation.dispatchedAt
+            : undefined,
+        });
+        this.reply(res, 202, { status: "OK" });
+        return;
+      }
+
+      if (req.method === "POST" && url === `${API_PREFIX}/init/error`) {
+        this.initError = this.parseError(body, req);
+        log(`❌ Runtime init error: ${this.initError.errorMessage}`);
+        this.failPending(this.initError);
+        this.reply(res, 202, { status: "OK" });
+        return;
+      }
+
+      this.reply(res, 404, {
+        errorType: "NotFound",
+        errorMessage: `${req.method} ${url} is not part of the Runtime API`,
+      });
+    });
+  }
+
+  private parseError(body: string, req: http.IncomingMessage): InvocationError {
+    try {
+      const parsed = JSON.parse(body);
+      return {
+        errorMessage: parsed.errorMessage || body,
+        errorType:
+          parsed.errorType ||
+          String(req.headers["lambda-runtime-function-error-type"] || "Unhandled"),
+        stackTrace: parsed.stackTrace,
+      };
+    } catch {
+      return {
+        errorMessage: body,
+        errorType: String(
+          req.headers["lambda-runtime-function-error-type"] || "Unhandled"
+        ),
+      };
+    }
+  }
+
+  private reply(res: http.ServerResponse, status: number, body: any): void {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  }
+}
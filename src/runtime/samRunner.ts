@@ -0,0 +1,103 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { exec } from "child_process";
+import { promisify } from "util";
+import {
+  InvocationOutput,
+  InvocationResult,
+  LocalLambdaConfig,
+  TemplateIO,
+  TemplateManager,
+} from "../utils";
+import { ResultPanel } from "../views/resultPanel";
+import { log, logError } from "../logger";
+
+const execAsync = promisify(exec);
+
+export class SamRunner {
+  static getInvokeCommand(
+    localConfig: LocalLambdaConfig,
+    lambdaDir: string,
+    eventFilePath: string
+  ): string {
+    const target = TemplateManager.getInvokeTarget(localConfig);
+    const templatePath = TemplateIO.getTemplatePath(lambdaDir);
+    return `sam local invoke "${target}" -t "${templatePath}" --event "${eventFilePath}"`;
+  }
+
+  /**
+   * Invokes a lambda with `sam local invoke`, splits its output into payload,
+   * function logs and REPORT figures, saves the outcome to response.json and
+   * shows it in the result panel
+   */
+  static async run(
+    localConfig: LocalLambdaConfig,
+    lambdaDir: string,
+    eventFilePath: string
+  ): Promise<void> {
+    const result = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `🦎 Executing ${localConfig.functionName}`,
+      },
+      async (progress) => {
+        progress.report({ message: "Waiting for SAM response..." });
+        return this.invoke(localConfig, lambdaDir, eventFilePath);
+      }
+    );
+
+    const { record, response } = InvocationOutput.save(
+      lambdaDir,
+      path.basename(eventFilePath, ".json"),
+      "sam",
+      result
+    );
+    vscode.commands.executeCommand("gecko.refreshTreeView");
+    ResultPanel.show(localConfig, lambdaDir, record, response);
+  }
+
+  /**
+   * Runs `sam local invoke` once and reads its output, without recording or
+   * showing the outcome
+   */
+  static async invoke(
+    localConfig: LocalLambdaConfig,
+    lambdaDir: string,
+    eventFilePath: string
+  ): Promise<InvocationResult> {
+    const command = this.getInvokeCommand(
+      localConfig,
+      lambdaDir,
+      eventFilePath
+    );
+    log(`🚀 Executing: ${command}`);
+    const startedAt = Date.now();
+    try {
+      const { stdout, stderr } = await execAsync(command, {
+        cwd: lambdaDir,
+        timeout: 120000,
+        maxBuffer: 1024 * 1024 * 10,
+      });
+      return InvocationOutput.fromSam(stdout, stderr, Date.now() - startedAt);
+    } catch (error: any) {
+      // SAM itself failed (no Docker, invalid template, timeout...)
+      logError("SAM execution failed", error);
+      const result = InvocationOutput.fromSam(
+        error.stdout || "",
+        error.stderr || "",
+        Date.now() - startedAt,
+        typeof error.code === "number" ? error.code : null
+      );
+      return {
+        ...result,
+        payload: undefined,
+        error: result.error || {
+          errorType: "SamInvokeError",
+          errorMessage: error.killed
+            ? "sam local invoke did not finish within 120 seconds"
+            : String(error.message).split("\n")[0],
+        },
+      };
+    }
+  }
+}
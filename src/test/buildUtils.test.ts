@@ -0,0 +1,39 @@
+import * as assert from "assert";
+import { BuildUtils } from "../utils";
+
+suite("BuildUtils", () => {
+  test("parses build options, leaving empty values out", () => {
+    assert.deepStrictEqual(
+      BuildUtils.parseBuildOptions({
+        tags: "lambda, netgo",
+        ldflags: " -X main.version=1 ",
+        trimpath: false,
+        goflags: "",
+        include: ["config.json"],
+      }),
+      {
+        tags: ["lambda", "netgo"],
+        ldflags: "-X main.version=1",
+        include: ["config.json"],
+      }
+    );
+    assert.strictEqual(BuildUtils.parseBuildOptions({ tags: [] }), undefined);
+  });
+
+  test("keeps only environment variables with valid names", () => {
+    assert.deepStrictEqual(
+      BuildUtils.parseBuildOptions({
+        env: {
+          API_TOKEN: "secret",
+          _PRIVATE: 1,
+          " PADDED ": "yes",
+          "1ST": "no",
+          "GO FLAGS": "no",
+          "X;rm -rf /": "no",
+          NESTED: { value: "no" },
+        },
+      }),
+      { env: { API_TOKEN: "secret", _PRIVATE: "1", PADDED: "yes" } }
+    );
+  });
+});
@@ -0,0 +1,72 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  AssertionStore,
+  ConfigManager,
+  EventStore,
+  SnapshotStore,
+  TemplateManager,
+} from "../utils";
+
+suite("ConfigManager", () => {
+  let workspacePath: string;
+
+  setup(() => {
+    workspacePath = fs.mkdtempSync(path.join(os.tmpdir(), "gecko-"));
+  });
+
+  teardown(() => {
+    fs.rmSync(workspacePath, { recursive: true, force: true });
+  });
+
+  const lambdaConfig = (functionName: string) => ({
+    functionName,
+    workspacePath,
+    sourceDir: path.join(workspacePath, "src", functionName),
+    sourceMainFile: path.join(workspacePath, "src", functionName, "main.go"),
+    eventType: "sqs",
+  });
+
+  test("moves the files of the first function when converting to a stack", () => {
+    const stackDir = ConfigManager.createLambdaWorkspace(
+      lambdaConfig("orders")
+    );
+    const logicalId = TemplateManager.getFunctionKey(
+      stackDir,
+      TemplateManager.readTemplate(stackDir)
+    )!;
+    SnapshotStore.save(stackDir, "default", { statusCode: 200 });
+    AssertionStore.create(stackDir, "default");
+
+    ConfigManager.addLambdaToStack(stackDir, lambdaConfig("payments"));
+
+    const functionDir = path.join(stackDir, logicalId);
+    assert.ok(SnapshotStore.exists(functionDir, "default"));
+    assert.deepStrictEqual(SnapshotStore.load(functionDir, "default"), {
+      statusCode: 200,
+    });
+    assert.ok(!fs.existsSync(SnapshotStore.getSnapshotsDir(stackDir)));
+    assert.ok(AssertionStore.exists(functionDir, "default"));
+    assert.ok(!fs.existsSync(AssertionStore.getAssertionsDir(stackDir)));
+  });
+
+  test("keeps the default event when recreating a workspace", () => {
+    const lambdaDir = ConfigManager.createLambdaWorkspace(
+      lambdaConfig("orders")
+    );
+    const eventPath = EventStore.getEventPath(
+      lambdaDir,
+      EventStore.DEFAULT_EVENT
+    );
+    fs.writeFileSync(eventPath, '{ "edited": true }');
+
+    ConfigManager.createLambdaWorkspace(lambdaConfig("orders"));
+
+    assert.strictEqual(
+      fs.readFileSync(eventPath, "utf8"),
+      '{ "edited": true }'
+    );
+  });
+});
@@ -0,0 +1,273 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { GoParser } from "../utils";
+
+const HEADER = `package main
+
+import (
+	"context"
+
+	"github.com/aws/aws-lambda-go/events"
+	"github.com/aws/aws-lambda-go/lambda"
+)
+`;
+
+suite("GoParser", () => {
+  let dir: string;
+  let mainFile: string;
+
+  setup(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "gecko-go-"));
+    mainFile = path.join(dir, "main.go");
+  });
+
+  teardown(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  suite("findEntryCall", () => {
+    const cases: { name: string; source: string; expression: string | null }[] =
+      [
+        {
+          name: "lambda.Start",
+          source: `${HEADER}\nfunc main() { lambda.Start(handler) }\n`,
+          expression: "handler",
+        },
+        {
+          name: "an aliased import",
+          source: `package main\n\nimport aws "github.com/aws/aws-lambda-go/lambda"\n\nfunc main() { aws.Start(handler) }\n`,
+          expression: "handler",
+        },
+        {
+          name: "StartWithOptions",
+          source: `${HEADER}\nfunc main() {\n\tlambda.StartWithOptions(app.Handle, lambda.WithContext(ctx))\n}\n`,
+          expression: "app.Handle",
+        },
+        {
+          name: "a call in a comment",
+          source: `${HEADER}\n// lambda.Start(handler)\n/* lambda.Start(other) */\nfunc main() {}\n`,
+          expression: null,
+        },
+        {
+          name: "a call in a string",
+          source: `${HEADER}\nvar usage = "lambda.Start(handler)"\nvar raw = \`lambda.Start(other)\`\n\nfunc main() {}\n`,
+          expression: null,
+        },
+        {
+          name: "a package other than main",
+          source: `package handlers\n\nimport "github.com/aws/aws-lambda-go/lambda"\n\nfunc Run() { lambda.Start(handler) }\n`,
+          expression: null,
+        },
+        {
+          name: "lambda imported without being called",
+          source: `${HEADER}\nvar _ = lambda.Start\n\nfunc main() {}\n`,
+          expression: null,
+        },
+      ];
+
+    for (const { name, source, expression } of cases) {
+      test(name, () => {
+        const entryCall = GoParser.findEntryCall(mainFile, source);
+        assert.strictEqual(entryCall?.expression ?? null, expression);
+      });
+    }
+
+    test("finds the call in another file of the package", () => {
+      fs.writeFileSync(
+        path.join(dir, "start.go"),
+        `${HEADER}\nfunc init() { lambda.Start(handler) }\n`
+      );
+      fs.writeFileSync(
+        path.join(dir, "start_test.go"),
+        `${HEADER}\nfunc TestStart() { lambda.Start(testHandler) }\n`
+      );
+
+      const entryCall = GoParser.findEntryCall(mainFile, "package main\n");
+      assert.strictEqual(entryCall?.file.file, path.join(dir, "start.go"));
+      assert.strictEqual(entryCall?.expression, "handler");
+    });
+  });
+
+  suite("findHandler", () => {
+    const cases: {
+      name: string;
+      source: string;
+      expected: {
+        handlerName: string;
+        inputType: string | null;
+        outputType: string | null;
+        eventType: string | null;
+      };
+    }[] = [
+      {
+        name: "a named function",
+        source: `${HEADER}
+func handler(ctx context.Context, event events.SQSEvent) error {
+	return nil
+}
+
+func main() { lambda.Start(handler) }
+`,
+        expected: {
+          handlerName: "handler",
+          inputType: "events.SQSEvent",
+          outputType: null,
+          eventType: "sqs",
+        },
+      },
+      {
+        name: "grouped parameter names and results",
+        source: `${HEADER}
+func handler(ctx context.Context, a, request events.APIGatewayProxyRequest) (events.APIGatewayProxyResponse, error) {
+	return events.APIGatewayProxyResponse{}, nil
+}
+
+func main() { lambda.Start(handler) }
+`,
+        expected: {
+          handlerName: "handler",
+          inputType: "events.APIGatewayProxyRequest",
+          outputType: "events.APIGatewayProxyResponse",
+          eventType: "apigateway",
+        },
+      },
+      {
+        name: "unnamed parameters",
+        source: `${HEADER}
+func handler(context.Context, events.SNSEvent) error { return nil }
+
+func main() { lambda.Start(handler) }
+`,
+        expected: {
+          handlerName: "handler",
+          inputType: "events.SNSEvent",
+          outputType: null,
+          eventType: "sns",
+        },
+      },
+      {
+        name: "a method value",
+        source: `${HEADER}
+type App struct{}
+
+func (a *App) Handle(ctx context.Context, event events.KinesisEvent) error {
+	return nil
+}
+
+func main() { lambda.Start((&App{}).Handle) }
+`,
+        expected: {
+          handlerName: "Handle",
+          inputType: "events.KinesisEvent",
+          outputType: null,
+          eventType: "kinesis",
+        },
+      },
+      {
+        name: "a wrapped handler",
+        source: `${HEADER}
+func handler(ctx context.Context, event events.S3Event) error { return nil }
+
+func main() { lambda.Start(otellambda.InstrumentHandler(handler, opts...)) }
+`,
+        expected: {
+          handlerName: "handler",
+          inputType: "events.S3Event",
+          outputType: null,
+          eventType: "s3",
+        },
+      },
+      {
+        name: "a function literal",
+        source: `${HEADER}
+func main() {
+	lambda.Start(func(ctx context.Context, event events.DynamoDBEvent) error {
+		return nil
+	})
+}
+`,
+        expected: {
+          handlerName: "func literal",
+          inputType: "events.DynamoDBEvent",
+          outputType: null,
+          eventType: "dynamodb",
+        },
+      },
+      {
+        name: "type aliases and definitions",
+        source: `${HEADER}
+type Request = events.APIGatewayV2HTTPRequest
+type Response events.APIGatewayV2HTTPResponse
+
+func handler(ctx context.Context, request *Request) (Response, error) {
+	return Response{}, nil
+}
+
+func main() { lambda.Start(handler) }
+`,
+        expected: {
+          handlerName: "handler",
+          inputType: "events.APIGatewayV2HTTPRequest",
+          outputType: "events.APIGatewayV2HTTPResponse",
+          eventType: "apigatewayv2",
+        },
+      },
+      {
+        name: "parentheses and commas in strings and comments",
+        source: `${HEADER}
+// handler(ctx, fake events.SQSEvent)
+func handler(ctx context.Context, event events.SNSEvent) (string, error) {
+	return "a, (b", nil
+}
+
+func main() { lambda.Start(handler) }
+`,
+        expected: {
+          handlerName: "handler",
+          inputType: "events.SNSEvent",
+          outputType: "string",
+          eventType: "sns",
+        },
+      },
+    ];
+
+    for (const { name, source, expected } of cases) {
+      test(name, () => {
+        const handler = GoParser.findHandler(mainFile, source);
+        assert.deepStrictEqual(
+          handler && {
+            handlerName: handler.handlerName,
+            inputType: handler.inputType,
+            outputType: handler.outputType,
+            eventType: handler.eventType,
+          },
+          expected
+        );
+      });
+    }
+
+    test("points at the handler's line", () => {
+      const source = `${HEADER}\nfunc main() { lambda.Start(handler) }\n\nfunc handler(ctx context.Context) error { return nil }\n`;
+      const handler = GoParser.findHandler(mainFile, source);
+      assert.strictEqual(
+        handler?.line,
+        source
+          .split("\n")
+          .indexOf("func handler(ctx context.Context) error { return nil }")
+      );
+    });
+  });
+
+  test("blanks comments but keeps strings and line breaks", () => {
+    const source = 'a := "// kept" // gone\n/* gone\ntoo */ b := `/* kept */`';
+    const stripped = GoParser.stripComments(source);
+
+    assert.strictEqual(stripped.length, source.length);
+    assert.strictEqual(stripped.split("\n").length, 3);
+    assert.ok(stripped.includes('"// kept"'));
+    assert.ok(stripped.includes("`/* kept */`"));
+    assert.ok(!stripped.includes("gone"));
+  });
+});
@@ -0,0 +1,155 @@
+import * as assert from "assert";
+import { TemplateIO } from "../utils";
+
+suite("TemplateIO", () => {
+  const setTimeout = (content: string) =>
+    TemplateIO.edit(content, (template) =>
+      template.set(["Globals", "Function", "Timeout"], 60)
+    );
+
+  test("keeps unpadded flow collections", () => {
+    const content = [
+      "Globals:",
+      "  Function:",
+      "    Timeout: 30",
+      "Resources:",
+      "  OrdersFunction:",
+      "    Type: AWS::Serverless::Function",
+      "    Properties:",
+      "      Architectures: [arm64]",
+      "      Environment: {Variables: {STAGE: dev}}",
+      "",
+    ].join("\n");
+
+    assert.strictEqual(
+      setTimeout(content),
+      content.replace("Timeout: 30", "Timeout: 60")
+    );
+  });
+
+  test("keeps padded flow collections", () => {
+    const content = [
+      "Globals:",
+      "  Function:",
+      "    Timeout: 30",
+      "    Architectures: [ arm64 ]",
+      "",
+    ].join("\n");
+
+    assert.strictEqual(
+      setTimeout(content),
+      content.replace("Timeout: 30", "Timeout: 60")
+    );
+  });
+
+  test("keeps comments and the layout of untouched parts", () => {
+    const content = [
+      "# Orders service",
+      "Globals:",
+      "  Function:",
+      "    Timeout: 30 # seconds",
+      "",
+      "Resources:",
+      "  # Reads the orders queue",
+      "  OrdersFunction:",
+      "    Type: AWS::Serverless::Function",
+      "    Properties:",
+      "      Handler: bootstrap",
+      "",
+    ].join("\n");
+
+    assert.strictEqual(
+      setTimeout(content),
+      content.replace("Timeout: 30", "Timeout: 60")
+    );
+  });
+
+  test("reads short-form tags in their JSON form", () => {
+    const template = TemplateIO.parse(
+      [
+        "Resources:",
+        "  OrdersFunction:",
+        "    Properties:",
+        "      Role: !GetAtt OrdersRole.Arn",
+        "      Queue: !Ref OrdersQueue",
+        "      Name: !Sub ${AWS::StackName}-orders",
+        "      Subnets: !Split [',', !ImportValue Subnets]",
+        "",
+      ].join("\n")
+    );
+
+    assert.deepStrictEqual(template.Resources.OrdersFunction.Properties, {
+      Role: { "Fn::GetAtt": ["OrdersRole", "Arn"] },
+      Queue: { Ref: "OrdersQueue" },
+      Name: { "Fn::Sub": "${AWS::StackName}-orders" },
+      Subnets: { "Fn::Split": [",", { "Fn::ImportValue": "Subnets" }] },
+    });
+  });
+
+  test("writes intrinsic functions in short form", () => {
+    const content = TemplateIO.stringify({
+      Outputs: {
+        Arn: { Value: { "Fn::GetAtt": ["OrdersFunction", "Arn"] } },
+        Queue: { Value: { Ref: "OrdersQueue" } },
+        Url: { Value: { "Fn::Join": ["", ["https://", { Ref: "Api" }]] } },
+      },
+    });
+
+    assert.strictEqual(
+      content,
+      [
+        "Outputs:",
+        "  Arn:",
+        "    Value: !GetAtt OrdersFunction.Arn",
+        "  Queue:",
+        "    Value: !Ref OrdersQueue",
+        "  Url:",
+        '    Value: !Join ["", [https://, !Ref Api]]',
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("keeps the short-form tag of an updated value", () => {
+    const content = "Value: !Ref OrdersQueue # queue\n";
+
+    assert.strictEqual(
+      TemplateIO.edit(content, (template) =>
+        template.set(["Value"], { Ref: "BillingQueue" })
+      ),
+      "Value: !Ref BillingQueue # queue\n"
+    );
+  });
+
+  test("quotes strings that YAML 1.1 reads as other types", () => {
+    const content = TemplateIO.stringify({
+      Variables: {
+        ENABLED: "yes",
+        DEBUG: "off",
+        RELEASED: "2024-01-31",
+        WINDOW: "1:30",
+        STAGE: "dev",
+      },
+    });
+
+    assert.strictEqual(
+      content,
+      [
+        "Variables:",
+        '  ENABLED: "yes"',
+        '  DEBUG: "off"',
+        '  RELEASED: "2024-01-31"',
+        '  WINDOW: "1:30"',
+        "  STAGE: dev",
+        "",
+      ].join("\n")
+    );
+    assert.deepStrictEqual(TemplateIO.parse(content).Variables, {
+      ENABLED: "yes",
+      DEBUG: "off",
+      RELEASED: "2024-01-31",
+      WINDOW: "1:30",
+      STAGE: "dev",
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import * as assert from "assert";
+import { TemplateValidator } from "../utils";
+
+suite("TemplateValidator", () => {
+  const template = (...properties: string[]) =>
+    [
+      "Resources:",
+      "  OrdersFunction:",
+      "    Type: AWS::Serverless::Function",
+      "    Properties:",
+      "      Handler: bootstrap",
+      "      Runtime: provided.al2023",
+      "      Architectures: [arm64]",
+      ...properties.map((line) => `      ${line}`),
+      "",
+    ].join("\n");
+
+  const issue = (content: string, code: string) => {
+    const found = TemplateValidator.validate(content).find(
+      (item) => item.code === code
+    );
+    assert.ok(found, `No ${code} issue`);
+    return found;
+  };
+
+  test("renames an unknown key to the closest known one", () => {
+    const content = template("Timeuot: 30");
+    const { fix } = issue(content, "unknown-property");
+
+    assert.strictEqual(fix?.title, "Rename to Timeout");
+    assert.strictEqual(
+      TemplateValidator.applyFix(content, fix!),
+      template("Timeout: 30")
+    );
+  });
+
+  test("removes an unknown key when the known one is already set", () => {
+    const content = template("Timeout: 30", "Timeuot: 60");
+    const { fix } = issue(content, "unknown-property");
+
+    assert.strictEqual(fix?.title, "Remove Timeuot");
+    assert.strictEqual(
+      TemplateValidator.applyFix(content, fix!),
+      template("Timeout: 30")
+    );
+  });
+
+  test("reports nothing on a sam init template", () => {
+    const content = [
+      "AWSTemplateFormatVersion: '2010-09-09'",
+      "Transform: AWS::Serverless-2016-10-31",
+      "Description: >",
+      "  sam-app",
+      "",
+      "  Sample SAM Template for sam-app",
+      "",
+      "Globals:",
+      "  Function:",
+      "    Timeout: 5",
+      "    MemorySize: 128",
+      "    LoggingConfig:",
+      "      LogFormat: JSON",
+      "Resources:",
+      "  HelloWorldFunction:",
+      "    Type: AWS::Serverless::Function",
+      "    Metadata:",
+      "      BuildMethod: go1.x",
+      "    Properties:",
+      "      CodeUri: hello-world/",
+      "      Handler: bootstrap",
+      "      Runtime: provided.al2023",
+      "      Architectures:",
+      "        - x86_64",
+      "      Events:",
+      "        CatchAll:",
+      "          Type: Api",
+      "          Properties:",
+      "            Path: /hello",
+      "            Method: GET",
+      "      Environment:",
+      "        Variables:",
+      "          PARAM1: VALUE",
+      "",
+      "Outputs:",
+      "  HelloWorldAPI:",
+      '    Description: "API Gateway endpoint URL for Prod environment for First Function"',
+      '    Value: !Sub "https://${ServerlessRestApi}.execute-api.${AWS::Region}.amazonaws.com/Prod/hello/"',
+      "  HelloWorldFunction:",
+      '    Description: "First Lambda Function ARN"',
+      "    Value: !GetAtt HelloWorldFunction.Arn",
+      "  HelloWorldFunctionIamRole:",
+      '    Description: "Implicit IAM Role created for Hello World function"',
+      "    Value: !GetAtt HelloWorldFunctionRole.Arn",
+      "",
+    ].join("\n");
+
+    assert.deepStrictEqual(TemplateValidator.validate(content), []);
+  });
+
+  test("suggests the closest resource for an unknown reference", () => {
+    const content = [
+      "Resources:",
+      "  OrdersQueue:",
+      "    Type: AWS::SQS::Queue",
+      "Outputs:",
+      "  Queue:",
+      "    Value: !GetAtt OrderQueue.Arn",
+      "",
+    ].join("\n");
+    const { message, fix } = issue(content, "unknown-reference");
+
+    assert.strictEqual(
+      message,
+      "OrderQueue is not a resource in this template"
+    );
+    assert.strictEqual(fix?.title, "Change to OrdersQueue");
+    assert.strictEqual(
+      TemplateValidator.applyFix(content, fix!),
+      content.replace("OrderQueue.Arn", "OrdersQueue.Arn")
+    );
+  });
+
+  test("checks Fn::Sub variables against parameters", () => {
+    const content = [
+      "Parameters:",
+      "  Stage:",
+      "    Type: String",
+      "Resources:",
+      "  OrdersQueue:",
+      "    Type: AWS::SQS::Queue",
+      "    Properties:",
+      "      QueueName: !Sub orders-${Stag}",
+      "",
+    ].join("\n");
+    const { fix } = issue(content, "unknown-reference");
+
+    assert.strictEqual(
+      TemplateValidator.applyFix(content, fix!),
+      content.replace("${Stag}", "${Stage}")
+    );
+  });
+
+  test("clamps limits out of range", () => {
+    const content = template("Timeout: 1200", "MemorySize: 64");
+    const issues = TemplateValidator.validate(content).filter(
+      (item) => item.code === "limit-out-of-range"
+    );
+
+    assert.deepStrictEqual(
+      issues.map((item) => item.fix?.value),
+      [900, 128]
+    );
+    assert.strictEqual(
+      issue(template("Timeout: 2.5"), "invalid-limit").message,
+      "Timeout must be a whole number of seconds"
+    );
+  });
+
+  test("reports runtimes that can't run a Go bootstrap", () => {
+    const python = template().replace("provided.al2023", "python3.12");
+    const { severity, fix } = issue(python, "unsupported-runtime");
+
+    assert.strictEqual(severity, "warning");
+    assert.strictEqual(TemplateValidator.applyFix(python, fix!), template());
+    issue(template().replace("provided.al2023", "go1.x"), "deprecated-runtime");
+  });
+
+  test("suggests the architecture an unknown one stands for", () => {
+    const content = template().replace("[arm64]", "[amd64]");
+    const { fix } = issue(content, "unknown-architecture");
+
+    assert.strictEqual(fix?.title, "Change to x86_64");
+    assert.strictEqual(
+      TemplateValidator.applyFix(content, fix!),
+      template().replace("[arm64]", "[x86_64]")
+    );
+  });
+
+  test("reports go1.x on arm64", () => {
+    const content = template().replace("provided.al2023", "go1.x");
+    const { fix } = issue(content, "runtime-architecture");
+
+    assert.strictEqual(TemplateValidator.applyFix(content, fix!), template());
+  });
+});
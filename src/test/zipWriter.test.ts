@@ -0,0 +1,93 @@
+import * as assert from "assert";
+import { inflateRawSync } from "zlib";
+import { ZipEntry, ZipWriter } from "../utils";
+
+interface ReadEntry {
+  name: string;
+  mode: number;
+  date: number;
+  time: number;
+  data: string;
+}
+
+/**
+ * Reads an archive back from its central directory
+ */
+function readZip(archive: Buffer): ReadEntry[] {
+  const end = archive.length - 22;
+  assert.strictEqual(archive.readUInt32LE(end), 0x06054b50);
+  const count = archive.readUInt16LE(end + 10);
+  let offset = archive.readUInt32LE(end + 16);
+
+  const entries: ReadEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    assert.strictEqual(archive.readUInt32LE(offset), 0x02014b50);
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const local = archive.readUInt32LE(offset + 42);
+    const dataStart = local + 30 + archive.readUInt16LE(local + 26);
+    const data = archive.subarray(dataStart, dataStart + compressedSize);
+    entries.push({
+      name: archive.toString("utf8", offset + 46, offset + 46 + nameLength),
+      mode: (archive.readUInt32LE(offset + 38) >>> 16) & 0o777,
+      time: archive.readUInt16LE(offset + 12),
+      date: archive.readUInt16LE(offset + 14),
+      data: (method === 8 ? inflateRawSync(data) : data).toString(),
+    });
+    offset += 46 + nameLength;
+  }
+  return entries;
+}
+
+suite("ZipWriter", () => {
+  const entries: ZipEntry[] = [
+    { name: "bootstrap", data: Buffer.from("binary"), mode: 0o755 },
+    {
+      name: "config/settings.json",
+      data: Buffer.from(JSON.stringify({ retries: 3 }).repeat(20)),
+      mode: 0o644,
+    },
+    { name: "assets/logo.svg", data: Buffer.from("<svg/>"), mode: 0o644 },
+  ];
+
+  test("writes the same bytes whatever the order of the entries", () => {
+    const archive = ZipWriter.create(entries);
+
+    assert.ok(archive.equals(ZipWriter.create([...entries].reverse())));
+    assert.ok(
+      archive.equals(ZipWriter.create([entries[1], entries[2], entries[0]]))
+    );
+  });
+
+  test("stores entries sorted by name with their permissions", () => {
+    const read = readZip(ZipWriter.create(entries));
+
+    assert.deepStrictEqual(
+      read.map(({ name, mode, data }) => ({ name, mode, data })),
+      [
+        { name: "assets/logo.svg", mode: 0o644, data: "<svg/>" },
+        { name: "bootstrap", mode: 0o755, data: "binary" },
+        {
+          name: "config/settings.json",
+          mode: 0o644,
+          data: JSON.stringify({ retries: 3 }).repeat(20),
+        },
+      ]
+    );
+  });
+
+  test("dates every entry 1980-01-01 00:00", () => {
+    for (const { date, time } of readZip(ZipWriter.create(entries))) {
+      assert.deepStrictEqual(
+        {
+          year: 1980 + (date >> 9),
+          month: (date >> 5) & 0xf,
+          day: date & 0x1f,
+          time,
+        },
+        { year: 1980, month: 1, day: 1, time: 0 }
+      );
+    }
+  });
+});
@@ -0,0 +1,372 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import {
+  AssertionStore,
+  BuildUtils,
+  ConfigManager,
+  EventStore,
+  InvocationOutput,
+  InvocationResult,
+  LocalLambdaConfig,
+  SnapshotStore,
+} from "../utils";
+import { LambdaConfig } from "../detector";
+import { LambdaIndex } from "../lambdaIndex";
+import { NativeRunner } from "../runtime/nativeRunner";
+import { SamRunner } from "../runtime/samRunner";
+import { DebugRunner } from "../runtime/debugRunner";
+import { getGlobalWorkspacePath } from "../extension";
+import { log, logError } from "../logger";
+
+interface EventTarget {
+  config: LambdaConfig;
+  eventName: string;
+}
+
+/**
+ * Publishes the lambdas of the workspace to the Testing view: each function
+ * is a suite and each of its saved events a test. Running a test invokes the
+ * event and checks the response against the event's snapshot and assertions,
+ * or only that the handler didn't fail when it has neither.
+ */
+export class LambdaTests implements vscode.Disposable {
+  private readonly controller = vscode.tests.createTestController(
+    "geckoLambdas",
+    "Gecko Lambdas"
+  );
+  private readonly disposables: vscode.Disposable[] = [this.controller];
+  private readonly targets = new WeakMap<vscode.TestItem, EventTarget>();
+  private watcher: vscode.FileSystemWatcher | undefined;
+  private watchedPath: string | undefined;
+
+  constructor() {
+    this.controller.createRunProfile(
+      "Run",
+      vscode.TestRunProfileKind.Run,
+      (request, token) => this.run(request, token, false),
+      true
+    );
+    this.controller.createRunProfile(
+      "Debug",
+      vscode.TestRunProfileKind.Debug,
+      (request, token) => this.run(request, token, true),
+      true
+    );
+    this.controller.refreshHandler = () => this.refresh();
+    this.disposables.push(
+      LambdaIndex.getInstance().onDidChange(() => this.refresh())
+    );
+    this.refresh();
+  }
+
+  /**
+   * Runs every event of the workspace that has a snapshot
+   */
+  async runAllSnapshots(): Promise<void> {
+    this.refresh();
+    const tests: vscode.TestItem[] = [];
+    this.controller.items.forEach((suite) =>
+      suite.children.forEach((test) => {
+        const { config, eventName } = this.targets.get(test)!;
+        const lambdaDir = path.join(config.workspacePath, config.functionName);
+        if (SnapshotStore.exists(lambdaDir, eventName)) {
+          tests.push(test);
+        }
+      })
+    );
+    if (tests.length === 0) {
+      vscode.window.showInformationMessage(
+        'No snapshots yet. Use "Save as Expected Snapshot" on an event after running it.'
+      );
+      return;
+    }
+
+    await vscode.commands.executeCommand("workbench.view.testing.focus");
+    const cancellation = new vscode.CancellationTokenSource();
+    try {
+      await this.run(
+        new vscode.TestRunRequest(tests),
+        cancellation.token,
+        false
+      );
+    } finally {
+      cancellation.dispose();
+    }
+  }
+
+  refresh(): void {
+    const workspacePath = getGlobalWorkspacePath();
+    this.watch(workspacePath);
+
+    const suites: vscode.TestItem[] = [];
+    for (const config of LambdaIndex.getInstance().getAll(workspacePath)) {
+      const lambdaDir = path.join(config.workspacePath, config.functionName);
+      const suite = this.controller.createTestItem(
+        config.functionName,
+        config.functionName,
+        vscode.Uri.file(config.sourceFile)
+      );
+      for (const eventName of EventStore.list(lambdaDir)) {
+        const test = this.controller.createTestItem(
+          `${config.functionName}:${eventName}`,
+          eventName,
+          vscode.Uri.file(EventStore.getEventPath(lambdaDir, eventName))
+        );
+        test.description = [
+          SnapshotStore.exists(lambdaDir, eventName) && "snapshot",
+          AssertionStore.exists(lambdaDir, eventName) && "assertions",
+        ]
+          .filter(Boolean)
+          .join(" · ");
+        this.targets.set(test, { config, eventName });
+        suite.children.add(test);
+      }
+      suites.push(suite);
+    }
+    this.controller.items.replace(suites);
+  }
+
+  dispose(): void {
+    this.watcher?.dispose();
+    this.disposables.forEach((disposable) => disposable.dispose());
+  }
+
+  private async run(
+    request: vscode.TestRunRequest,
+    token: vscode.CancellationToken,
+    debug: boolean
+  ): Promise<void> {
+    const run = this.controller.createTestRun(request);
+    const tests = this.collect(request);
+    tests.forEach((test) => run.enqueued(test));
+
+    const built = new Set<string>();
+    let failures = 0;
+    for (const test of tests) {
+      if (token.isCancellationRequested) {
+        run.skipped(test);
+        continue;
+      }
+      if (!(await this.runTest(test, run, built, debug))) {
+        failures++;
+      }
+    }
+    run.end();
+    log(`🧪 Tests: ${tests.length - failures} passed, ${failures} failed`);
+  }
+
+  /**
+   * The requested tests, or all of them, with suites expanded to their tests
+   */
+  private collect(request: vscode.TestRunRequest): vscode.TestItem[] {
+    const roots: vscode.TestItem[] = [];
+    if (request.include) {
+      roots.push(...request.include);
+    } else {
+      this.controller.items.forEach((item) => roots.push(item));
+    }
+    const excluded = new Set(request.exclude || []);
+    const tests: vscode.TestItem[] = [];
+    const visit = (item: vscode.TestItem) => {
+      if (excluded.has(item)) {
+        return;
+      }
+      if (this.targets.has(item)) {
+        tests.push(item);
+      }
+      item.children.forEach(visit);
+    };
+    roots.forEach(visit);
+    return tests;
+  }
+
+  private async runTest(
+    test: vscode.TestItem,
+    run: vscode.TestRun,
+    built: Set<string>,
+    debug: boolean
+  ): Promise<boolean> {
+    const { config, eventName } = this.targets.get(test)!;
+    const lambdaDir = path.join(config.workspacePath, config.functionName);
+    const eventFilePath = EventStore.getEventPath(lambdaDir, eventName);
+    run.started(test);
+    try {
+      const localConfig = ConfigManager.readLocalConfig(lambdaDir);
+      let result: InvocationResult;
+      if (debug) {
+        run.appendOutput(
+          `🐞 Debugging ${config.functionName} with ${eventName}...\r\n`
+        );
+        result = await DebugRunner.invoke(
+          localConfig,
+          lambdaDir,
+          eventFilePath
+        );
+      } else {
+        if (
+          !built.has(lambdaDir) &&
+          (await BuildUtils.needsRebuild(localConfig, lambdaDir))
+        ) {
+          run.appendOutput(`🔨 Building ${config.functionName}...\r\n`);
+          await BuildUtils.buildWithGo(lambdaDir, localConfig);
+        }
+        built.add(lambdaDir);
+        result = await this.invoke(localConfig, lambdaDir, eventFilePath);
+      }
+
+      if (result.logs) {
+        run.appendOutput(
+          `${result.logs.replace(/\r?\n/g, "\r\n")}\r\n`,
+          undefined,
+          test
+        );
+      }
+      if (result.error?.errorType === "SamInvokeError") {
+        run.errored(test, new vscode.TestMessage(result.error.errorMessage));
+        return false;
+      }
+
+      const duration = result.report?.durationMs ?? result.durationMs;
+      const messages = this.check(
+        localConfig,
+        lambdaDir,
+        eventName,
+        result,
+        debug ? undefined : duration
+      );
+      if (messages.length === 0) {
+        run.passed(test, duration);
+        return true;
+      }
+      run.failed(test, messages, duration);
+      return false;
+    } catch (error) {
+      logError(`Test ${test.id} failed to run`, error);
+      run.errored(
+        test,
+        new vscode.TestMessage(
+          error instanceof Error ? error.message : String(error)
+        )
+      );
+      return false;
+    }
+  }
+
+  private invoke(
+    localConfig: LocalLambdaConfig,
+    lambdaDir: string,
+    eventFilePath: string
+  ): Promise<InvocationResult> {
+    return BuildUtils.isNative(localConfig)
+      ? NativeRunner.invoke(localConfig, lambdaDir, eventFilePath)
+      : SamRunner.invoke(localConfig, lambdaDir, eventFilePath);
+  }
+
+  /**
+   * Failures of a response against the snapshot and assertions of its event.
+   * Events with neither only fail when the handler returns an error.
+   */
+  private check(
+    localConfig: LocalLambdaConfig,
+    lambdaDir: string,
+    eventName: string,
+    result: InvocationResult,
+    durationMs: number | undefined
+  ): vscode.TestMessage[] {
+    const response = InvocationOutput.toResponse(result);
+    const messages: vscode.TestMessage[] = [];
+    const hasSnapshot = SnapshotStore.exists(lambdaDir, eventName);
+    const hasAssertions = AssertionStore.exists(lambdaDir, eventName);
+
+    if (hasSnapshot) {
+      const comparison = SnapshotStore.compare(
+        SnapshotStore.load(lambdaDir, eventName),
+        response,
+        SnapshotStore.getIgnorePaths(localConfig)
+      );
+      if (!comparison.passed) {
+        messages.push(
+          this.createMessage(
+            result.error
+              ? `${result.error.errorType}: ${result.error.errorMessage}`
+              : `The response of "${eventName}" differs from its snapshot`,
+            SnapshotStore.getSnapshotPath(lambdaDir, eventName),
+            comparison.expected,
+            comparison.actual
+          )
+        );
+      }
+    }
+
+    if (hasAssertions) {
+      const assertionsPath = AssertionStore.getAssertionsPath(
+        lambdaDir,
+        eventName
+      );
+      for (const failure of AssertionStore.evaluate(
+        AssertionStore.load(lambdaDir, eventName),
+        response,
+        durationMs
+      )) {
+        messages.push(
+          this.createMessage(
+            failure.message,
+            assertionsPath,
+            failure.expected,
+            failure.actual
+          )
+        );
+      }
+    }
+
+    if (!hasSnapshot && !hasAssertions && result.error) {
+      messages.push(
+        this.createMessage(
+          `${result.error.errorType}: ${result.error.errorMessage}`,
+          EventStore.getEventPath(lambdaDir, eventName)
+        )
+      );
+    }
+    return messages;
+  }
+
+  private createMessage(
+    text: string,
+    filePath: string,
+    expected?: string,
+    actual?: string
+  ): vscode.TestMessage {
+    const message =
+      expected !== undefined && actual !== undefined
+        ? vscode.TestMessage.diff(text, expected, actual)
+        : new vscode.TestMessage(text);
+    message.location = new vscode.Location(
+      vscode.Uri.file(filePath),
+      new vscode.Position(0, 0)
+    );
+    return message;
+  }
+
+  /**
+   * Refreshes the tests when events, snapshots or assertions are added or
+   * removed outside the extension's own commands
+   */
+  private watch(workspacePath: string): void {
+    if (this.watchedPath === workspacePath) {
+      return;
+    }
+    this.watcher?.dispose();
+    this.watchedPath = workspacePath;
+    this.watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(
+        vscode.Uri.file(workspacePath),
+        "**/{events,snapshots,assertions}/*.json"
+      ),
+      false,
+      true,
+      false
+    );
+    this.watcher.onDidCreate(() => this.refresh());
+    this.watcher.onDidDelete(() => this.refresh());
+  }
+}
@@ -0,0 +1,190 @@
+import * as fs from "fs";
+import * as path from "path";
+import { AssertionFailure, EventAssertions } from "./types";
+import { InvocationOutput } from "./invocationOutput";
+import { JsonPath } from "./jsonPath";
+import { SnapshotStore } from "./snapshotStore";
+import { log } from "../logger";
+
+const ASSERTIONS_DIR = "assertions";
+
+/**
+ * Optional checks on the responses of a lambda's test events, stored as
+ * `assertions/<event>.json` in its workspace directory.
+ */
+export class AssertionStore {
+  static getAssertionsDir(lambdaDir: string): string {
+    return path.join(lambdaDir, ASSERTIONS_DIR);
+  }
+
+  static getAssertionsPath(lambdaDir: string, eventName: string): string {
+    return path.join(this.getAssertionsDir(lambdaDir), `${eventName}.json`);
+  }
+
+  static exists(lambdaDir: string, eventName: string): boolean {
+    return fs.existsSync(this.getAssertionsPath(lambdaDir, eventName));
+  }
+
+  static load(lambdaDir: string, eventName: string): EventAssertions {
+    const assertions = JSON.parse(
+      fs.readFileSync(this.getAssertionsPath(lambdaDir, eventName), "utf8")
+    );
+    if (!assertions || typeof assertions !== "object") {
+      throw new Error(`Assertions of ${eventName} must be a JSON object`);
+    }
+    return assertions;
+  }
+
+  /**
+   * Writes an assertions file to start from, expecting the status code of
+   * the given response for API functions
+   */
+  static create(lambdaDir: string, eventName: string, response?: any): string {
+    const assertionsPath = this.getAssertionsPath(lambdaDir, eventName);
+    const assertions: EventAssertions = {
+      ...(typeof response?.statusCode === "number" && {
+        statusCode: response.statusCode,
+      }),
+      maxDurationMs: 1000,
+      equals: {},
+      contains: {},
+    };
+    fs.mkdirSync(path.dirname(assertionsPath), { recursive: true });
+    fs.writeFileSync(assertionsPath, JSON.stringify(assertions, null, 2));
+    log(`🧪 Created the assertions of ${eventName}: ${assertionsPath}`);
+    return assertionsPath;
+  }
+
+  /**
+   * Keeps the assertions with their event when the event is renamed
+   */
+  static rename(lambdaDir: string, eventName: string, newName: string): void {
+    if (this.exists(lambdaDir, eventName)) {
+      fs.renameSync(
+        this.getAssertionsPath(lambdaDir, eventName),
+        this.getAssertionsPath(lambdaDir, newName)
+      );
+    }
+  }
+
+  static delete(lambdaDir: string, eventName: string): void {
+    fs.rmSync(this.getAssertionsPath(lambdaDir, eventName), { force: true });
+  }
+
+  /**
+   * Checks a response against the assertions of its event. JSON string bodies
+   * of API responses are decoded first, so paths can reach into them. The
+   * duration is only checked when one is given.
+   */
+  static evaluate(
+    assertions: EventAssertions,
+    response: any,
+    durationMs?: number
+  ): AssertionFailure[] {
+    const failures: AssertionFailure[] = [];
+    const decoded = InvocationOutput.decodeBody(response);
+
+    if (
+      assertions.statusCode !== undefined &&
+      decoded?.statusCode !== assertions.statusCode
+    ) {
+      failures.push({
+        message: `Expected status code ${assertions.statusCode}, got ${
+          decoded?.statusCode ?? "no status code"
+        }`,
+        expected: String(assertions.statusCode),
+        actual: String(decoded?.statusCode ?? ""),
+      });
+    }
+
+    if (
+      assertions.maxDurationMs !== undefined &&
+      durationMs !== undefined &&
+      durationMs > assertions.maxDurationMs
+    ) {
+      failures.push({
+        message: `Took ${durationMs} ms, more than the ${assertions.maxDurationMs} ms allowed`,
+      });
+    }
+
+    for (const [jsonPath, expected] of Object.entries(
+      assertions.equals || {}
+    )) {
+      const values = JsonPath.select(decoded, jsonPath);
+      if (
+        !values.length ||
+        !values.every((value) => this.equals(value, expected))
+      ) {
+        failures.push(this.pathFailure(jsonPath, "to equal", expected, values));
+      }
+    }
+
+    for (const [jsonPath, expected] of Object.entries(
+      assertions.contains || {}
+    )) {
+      const values = JsonPath.select(decoded, jsonPath);
+      if (!values.some((value) => this.contains(value, expected))) {
+        failures.push(
+          this.pathFailure(jsonPath, "to contain", expected, values)
+        );
+      }
+    }
+    return failures;
+  }
+
+  private static pathFailure(
+    jsonPath: string,
+    relation: string,
+    expected: any,
+    values: any[]
+  ): AssertionFailure {
+    return {
+      message: values.length
+        ? `Expected ${jsonPath} ${relation} ${JSON.stringify(expected)}`
+        : `Expected ${jsonPath} ${relation} ${JSON.stringify(
+            expected
+          )}, but the response has nothing there`,
+      expected: SnapshotStore.format(expected),
+      actual: SnapshotStore.format(values.length === 1 ? values[0] : values),
+    };
+  }
+
+  private static equals(actual: any, expected: any): boolean {
+    return SnapshotStore.format(actual) === SnapshotStore.format(expected);
+  }
+
+  /**
+   * Strings contain substrings, arrays an item matching the expected value
+   * and objects the expected keys with matching values
+   */
+  private static contains(actual: any, expected: any): boolean {
+    if (typeof actual === "string") {
+      return typeof expected === "string" && actual.includes(expected);
+    }
+    if (Array.isArray(actual)) {
+      return actual.some((item) => this.matches(item, expected));
+    }
+    return this.isObject(actual) && this.isObject(expected)
+      ? this.matches(actual, expected)
+      : this.equals(actual, expected);
+  }
+
+  /**
+   * Equality, where expected objects only need to be part of the actual one
+   */
+  private static matches(actual: any, expected: any): boolean {
+    if (!this.isObject(expected)) {
+      return this.equals(actual, expected);
+    }
+    return (
+      this.isObject(actual) &&
+      Object.entries(expected).every(
+        ([key, value]) => key in actual && this.matches(actual[key], value)
+      )
+    );
+  }
+
+  private static isObject(value: any): boolean {
+    return !!value && typeof value === "object" && !Array.isArray(value);
+  }
+}
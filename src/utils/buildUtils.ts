@@ -1,42 +1,112 @@
 import * as path from "path";
 import * as fs from "fs";
 import { exec } from "child_process";
+import { createHash } from "crypto";
 import { promisify } from "util";
 import * as vscode from "vscode";
-import { LocalLambdaConfig } from "./types";
+import { GoBuildOptions, GoBuildResult, LocalLambdaConfig } from "./types";
+import { ZipEntry, ZipWriter } from "./zipWriter";
 import { log, logError } from "../logger";
 
 const execAsync = promisify(exec);
 
+/** Names the shell accepts for environment variables */
+const ENV_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Everything that decides what `go build` produces besides the sources
+ */
+interface BuildSettings {
+  bootstrapPath: string;
+  /** Directory go runs in and the package it builds there */
+  cwd: string;
+  target: string;
+  /** Flags that choose which files are built, also given to go list */
+  listFlags: string[];
+  flags: string[];
+  /** GOOS, GOARCH, CGO_ENABLED and the function's own variables */
+  env: { [key: string]: string };
+  sourceDir: string;
+  /** Extra files of the ZIP package, none for native and debug builds */
+  include: string[];
+}
+
+/**
+ * Fields of a package printed by `go list -json`
+ */
+interface GoListPackage {
+  ImportPath: string;
+  Dir?: string;
+  GoFiles?: string[];
+  CgoFiles?: string[];
+  EmbedFiles?: string[];
+  Standard?: boolean;
+  Module?: GoListModule;
+}
+
+interface GoListModule {
+  Path: string;
+  Version?: string;
+  GoMod?: string;
+  Replace?: GoListModule;
+}
+
 export class BuildUtils {
+  private static _onDidBuild = new vscode.EventEmitter<GoBuildResult>();
+  /** Fires after every go build, failed or not */
+  static readonly onDidBuild: vscode.Event<GoBuildResult> =
+    this._onDidBuild.event;
+
+  /**
+   * Builds the bootstrap binary. Debug builds target the host, keep symbols
+   * and disable optimizations so Delve can step through the handler.
+   */
   static async buildWithGo(
     lambdaDir: string,
-    localConfig: LocalLambdaConfig
+    localConfig: LocalLambdaConfig,
+    debug = false
   ): Promise<void> {
-    const buildDir = path.join(lambdaDir, "build");
-    const bootstrapPath = path.join(buildDir, "bootstrap");
+    const settings = this.getBuildSettings(lambdaDir, localConfig, debug);
+    const { bootstrapPath, cwd, target, flags, env } = settings;
+    const buildDir = path.dirname(bootstrapPath);
+    const native = debug || this.isNative(localConfig);
 
     if (!fs.existsSync(buildDir)) {
       fs.mkdirSync(buildDir, { recursive: true });
     }
     
-    // MEJORA: La arquitectura ahora es configurable desde localConfig
-    const architecture = localConfig.architecture || "arm64";
-    const buildCmd = `GOOS=linux GOARCH=${architecture} CGO_ENABLED=0 go build -ldflags="-s -w" -o "${bootstrapPath}" .`;
+    // The function's own variables may hold tokens, so the log hides them
+    const ownEnv = new Set(Object.keys(localConfig.build?.env || {}));
+    const command = (masked: boolean) =>
+      [
+        ...Object.entries(env).map(
+          ([key, value]) =>
+            `${key}=${masked && ownEnv.has(key) ? "***" : this.shellArg(value)}`
+        ),
+        "go build",
+        ...flags,
+        `-o "${bootstrapPath}"`,
+        this.shellArg(target),
+      ].join(" ");
+    const buildCmd = command(false);
     
-    log(`🔨 Build command: ${buildCmd}`);
-    log(`📁 Working directory: ${localConfig.sourceDir}`);
+    log(`🔨 Build command: ${command(true)}`);
+    log(`📁 Working directory: ${cwd}`);
     log(`📦 Output: ${bootstrapPath}`);
 
+    // Hashed before building, so edits made during the build trigger the next one
+    fs.rmSync(this.getBuildHashPath(bootstrapPath), { force: true });
+    const sourceHash = await this.computeSourceHash(settings).catch(
+      (error) => {
+        logError("Could not hash the sources, the next run rebuilds", error);
+        return undefined;
+      }
+    );
+
     try {
       const { stdout, stderr } = await execAsync(buildCmd, {
-        cwd: localConfig.sourceDir,
-        env: {
-          ...process.env,
-          GOOS: "linux",
-          GOARCH: architecture,
-          CGO_ENABLED: "0",
-        },
+        cwd,
+        env: { ...process.env, ...env },
       });
 
       if (stderr) {
@@ -48,69 +118,218 @@ export class BuildUtils {
         throw new Error(`Bootstrap binary was not created at ${bootstrapPath}`);
       }
 
-      await execAsync(`chmod +x "${bootstrapPath}"`);
-      await this.createZipPackage(buildDir, "bootstrap");
+      await fs.promises.chmod(bootstrapPath, 0o755);
+      if (!native) {
+        await this.createZipPackage(settings);
+      }
+      if (sourceHash) {
+        fs.writeFileSync(this.getBuildHashPath(bootstrapPath), sourceHash);
+      }
       log(`✅ Bootstrap binary created: ${bootstrapPath}`);
     } catch (error) {
-      throw new Error(`Go build failed: ${error}`);
+      const stderr = (error as { stderr?: string }).stderr;
+      const output = stderr
+        ? this.resolveGoPaths(stderr, cwd)
+        : error instanceof Error
+        ? error.message
+        : String(error);
+      this._onDidBuild.fire({
+        lambdaDir,
+        functionName: localConfig.functionName,
+        cwd,
+        succeeded: false,
+        output,
+      });
+      throw new Error(`Go build failed: ${output}`);
     }
+    this._onDidBuild.fire({
+      lambdaDir,
+      functionName: localConfig.functionName,
+      cwd,
+      succeeded: true,
+    });
   }
 
-  static async createZipPackage(
-    buildDir: string,
-    binaryName: string
-  ): Promise<void> {
-    const zipPath = path.join(buildDir, `lambda-function.zip`);
-    const binaryPath = path.join(buildDir, binaryName);
-    try {
-      await execAsync(`zip -j "${zipPath}" "${binaryPath}"`, { cwd: buildDir });
-      log(`📦 ZIP package created: ${zipPath}`);
-    } catch {
-      vscode.window
-        .showWarningMessage(
-          "Could not create ZIP package. Please ensure 'zip' command is available in PATH.",
-          "Install Info"
+  /**
+   * Makes the file paths of compiler errors absolute, as go prints them
+   * relative to the build directory, so they link to the source
+   */
+  private static resolveGoPaths(output: string, cwd: string): string {
+    return output.replace(
+      /^(\S+?\.go)(?=:\d+)/gm,
+      (file) => path.resolve(cwd, file)
+    );
+  }
+
+  /**
+   * Path of the built bootstrap binary. Native builds target the host
+   * platform and live next to the Lambda build so both can coexist.
+   */
+  static getBinaryPath(
+    lambdaDir: string,
+    localConfig: Pick<LocalLambdaConfig, "buildMethod">
+  ): string {
+    return this.isNative(localConfig)
+      ? path.join(
+          lambdaDir,
+          "build",
+          "native",
+          process.platform === "win32" ? "bootstrap.exe" : "bootstrap"
         )
-        .then((selection) => {
-          if (selection === "Install Info") {
-            vscode.env.openExternal(
-              vscode.Uri.parse("https://formulae.brew.sh/formula/zip")
-            );
-          }
-        });
-    }
+      : path.join(lambdaDir, "build", "bootstrap");
   }
 
-  static needsRebuild(
-    localConfig: LocalLambdaConfig,
-    lambdaDir: string
-  ): boolean {
-    try {
-      if (!localConfig.sourceMainFile || !fs.existsSync(localConfig.sourceMainFile)) {
-        log(`Source file not found: ${localConfig.sourceMainFile}, rebuild needed.`);
-        return true;
-      }
-      const sourceStats = fs.statSync(localConfig.sourceMainFile);
-      const buildDir = path.join(lambdaDir, "build");
-      if (!fs.existsSync(buildDir)) { return true; }
+  /**
+   * Path of the unoptimized host binary the debugger runs
+   */
+  static getDebugBinaryPath(lambdaDir: string): string {
+    return path.join(
+      lambdaDir,
+      "build",
+      "debug",
+      process.platform === "win32" ? "bootstrap.exe" : "bootstrap"
+    );
+  }
 
-      const binaryPath = path.join(buildDir, "bootstrap");
-      if (!fs.existsSync(binaryPath)) { return true; }
-      
-      const binaryStats = fs.statSync(binaryPath);
-      
-      const templatePath = path.join(lambdaDir, "template.yaml");
-      if (fs.existsSync(templatePath)) {
-        const templateStats = fs.statSync(templatePath);
-        if (templateStats.mtime > binaryStats.mtime) {
-          log(`Template.yaml is newer than binary, rebuild needed.`);
-          return true;
+  /**
+   * File next to a binary holding the source hash it was built from
+   */
+  static getBuildHashPath(bootstrapPath: string): string {
+    return `${bootstrapPath}.buildhash`;
+  }
+
+  static isNative(localConfig: Pick<LocalLambdaConfig, "buildMethod">): boolean {
+    return localConfig.buildMethod === "native";
+  }
+
+  private static hostGoos(): string {
+    return process.platform === "win32" ? "windows" : process.platform;
+  }
+
+  private static hostGoarch(): string {
+    const arches: { [key: string]: string } = { x64: "amd64", ia32: "386" };
+    return arches[process.arch] || process.arch;
+  }
+
+  /**
+   * File next to a ZIP package holding its base64 SHA-256, the value AWS
+   * reports as the function's CodeSha256
+   */
+  static getZipHashPath(zipPath: string): string {
+    return `${zipPath}.sha256`;
+  }
+
+  /**
+   * Writes a new ZIP package of the bootstrap binary and the included files,
+   * the same bytes for the same content, and its SHA-256 next to it
+   */
+  private static async createZipPackage(
+    settings: BuildSettings
+  ): Promise<void> {
+    const zipPath = path.join(
+      path.dirname(settings.bootstrapPath),
+      "lambda-function.zip"
+    );
+    const entries: ZipEntry[] = [
+      {
+        name: "bootstrap",
+        data: await fs.promises.readFile(settings.bootstrapPath),
+        mode: 0o755,
+      },
+    ];
+    for (const file of this.listIncludedFiles(settings)) {
+      entries.push({
+        name: file.name,
+        data: await fs.promises.readFile(file.filePath),
+        // Only the executable bit is kept, so the archive doesn't depend on the umask
+        mode: fs.statSync(file.filePath).mode & 0o100 ? 0o755 : 0o644,
+      });
+    }
+
+    const zip = ZipWriter.create(entries);
+    const sha256 = createHash("sha256").update(zip).digest("base64");
+    await fs.promises.writeFile(zipPath, zip);
+    await fs.promises.writeFile(this.getZipHashPath(zipPath), `${sha256}\n`);
+    log(
+      `📦 ZIP package created: ${zipPath} (${entries.length} file${
+        entries.length === 1 ? "" : "s"
+      }, CodeSha256 ${sha256})`
+    );
+  }
+
+  /**
+   * The included files of a build with their path in the ZIP package.
+   * Directories are added with everything below them.
+   */
+  private static listIncludedFiles(
+    settings: BuildSettings
+  ): { name: string; filePath: string }[] {
+    const files: { name: string; filePath: string }[] = [];
+    const add = (filePath: string, nested: boolean) => {
+      // Symlinked directories below an included one are skipped, as they may
+      // point back at one of their parents
+      if (nested && fs.lstatSync(filePath).isSymbolicLink()) {
+        const target = fs.statSync(filePath, { throwIfNoEntry: false });
+        if (!target || target.isDirectory()) {
+          log(`⏭️ Skipping symlink ${filePath} in the ZIP package`);
+          return;
         }
       }
+      if (fs.statSync(filePath).isDirectory()) {
+        fs.readdirSync(filePath).forEach((child) =>
+          add(path.join(filePath, child), true)
+        );
+        return;
+      }
+      const name = path
+        .relative(settings.sourceDir, filePath)
+        .split(path.sep)
+        .join("/");
+      if (name !== "bootstrap" && !files.some((file) => file.name === name)) {
+        files.push({ name, filePath });
+      }
+    };
+    for (const include of settings.include) {
+      const filePath = path.resolve(settings.sourceDir, include);
+      const relative = path.relative(settings.sourceDir, filePath);
+      if (relative.startsWith("..") || path.isAbsolute(relative)) {
+        throw new Error(
+          `Included file ${include} is outside the source directory ${settings.sourceDir}`
+        );
+      }
+      if (!fs.existsSync(filePath)) {
+        throw new Error(
+          `Included file ${include} not found in ${settings.sourceDir}`
+        );
+      }
+      add(filePath, false);
+    }
+    return files.sort((a, b) =>
+      a.name < b.name ? -1 : a.name > b.name ? 1 : 0
+    );
+  }
 
-      const needsRebuild = sourceStats.mtime > binaryStats.mtime;
+  /**
+   * Whether the binary is missing or was built from other sources, build
+   * flags or target platform than the current ones
+   */
+  static async needsRebuild(
+    localConfig: LocalLambdaConfig,
+    lambdaDir: string,
+    debug = false
+  ): Promise<boolean> {
+    const settings = this.getBuildSettings(lambdaDir, localConfig, debug);
+    const hashPath = this.getBuildHashPath(settings.bootstrapPath);
+    if (!fs.existsSync(settings.bootstrapPath) || !fs.existsSync(hashPath)) {
+      log(`No build of ${localConfig.functionName} to reuse, rebuild needed.`);
+      return true;
+    }
+    try {
+      const sourceHash = await this.computeSourceHash(settings);
+      const builtHash = fs.readFileSync(hashPath, "utf8").trim();
+      const needsRebuild = sourceHash !== builtHash;
       if (needsRebuild) {
-        log(`Source file is newer than binary, rebuild needed.`);
+        log(`Sources, build flags or architecture changed, rebuild needed.`);
       } else {
         log(`Binary is up to date.`);
       }
@@ -120,4 +339,196 @@ export class BuildUtils {
       return true;
     }
   }
+
+  /**
+   * SHA-256 of what a build is made from: the Go and embedded files of the
+   * package and of every non-standard package it imports, go.mod and go.sum,
+   * the Go version, the build flags, the target platform and the files
+   * included in the ZIP package. Packages of versioned modules count by
+   * version, since the module cache never changes.
+   */
+  private static async computeSourceHash(
+    settings: BuildSettings
+  ): Promise<string> {
+    const { cwd, target, listFlags, flags } = settings;
+    const env = { ...process.env, ...settings.env };
+    const [{ stdout: listed }, { stdout: goVersion }] = await Promise.all([
+      execAsync(
+        [
+          "go list -deps -json=ImportPath,Dir,GoFiles,CgoFiles,EmbedFiles,Standard,Module",
+          ...listFlags,
+          this.shellArg(target),
+        ].join(" "),
+        { cwd, env, maxBuffer: 1024 * 1024 * 50 }
+      ),
+      execAsync("go env GOVERSION", { cwd, env }),
+    ]);
+
+    const hash = createHash("sha256");
+    hash.update(
+      `${JSON.stringify([goVersion.trim(), target, flags, settings.env])}\n`
+    );
+    const goModFiles = new Set<string>();
+    for (const pkg of this.parseGoList(listed)) {
+      if (pkg.Standard) {
+        continue;
+      }
+      const module = pkg.Module?.Replace || pkg.Module;
+      if (module?.Version) {
+        hash.update(`${pkg.ImportPath} ${module.Path}@${module.Version}\n`);
+        continue;
+      }
+      if (module?.GoMod) {
+        goModFiles.add(module.GoMod);
+      }
+      const files = [
+        ...(pkg.GoFiles || []),
+        ...(pkg.CgoFiles || []),
+        ...(pkg.EmbedFiles || []),
+      ].sort();
+      for (const file of files) {
+        hash.update(`${pkg.ImportPath}/${file}\n`);
+        hash.update(await fs.promises.readFile(path.join(pkg.Dir || "", file)));
+      }
+    }
+    for (const goMod of [...goModFiles].sort()) {
+      for (const file of [goMod, path.join(path.dirname(goMod), "go.sum")]) {
+        if (fs.existsSync(file)) {
+          hash.update(`${file}\n`);
+          hash.update(await fs.promises.readFile(file));
+        }
+      }
+    }
+    for (const file of this.listIncludedFiles(settings)) {
+      hash.update(`zip:${file.name}\n`);
+      hash.update(await fs.promises.readFile(file.filePath));
+    }
+    return hash.digest("hex");
+  }
+
+  /**
+   * Where, how and for which platform a function is built, from its build
+   * options. The native runtime runs the binary on this machine, so native
+   * and debug builds target the host.
+   */
+  private static getBuildSettings(
+    lambdaDir: string,
+    localConfig: LocalLambdaConfig,
+    debug: boolean
+  ): BuildSettings {
+    const native = debug || this.isNative(localConfig);
+    const options = localConfig.build || {};
+    const listFlags = options.tags?.length
+      ? [`-tags=${this.shellArg(options.tags.join(","))}`]
+      : [];
+    const ldflags = [debug ? "" : "-s -w", options.ldflags || ""]
+      .filter((flag) => flag)
+      .join(" ");
+    return {
+      bootstrapPath: debug
+        ? this.getDebugBinaryPath(lambdaDir)
+        : this.getBinaryPath(lambdaDir, localConfig),
+      cwd: options.packagePath
+        ? this.findModuleRoot(localConfig.sourceDir)
+        : localConfig.sourceDir,
+      target: options.packagePath || ".",
+      listFlags,
+      flags: [
+        ...listFlags,
+        // Trimmed paths would keep the debugger from finding the sources
+        ...(options.trimpath && !debug ? ["-trimpath"] : []),
+        ...(debug ? [`-gcflags="all=-N -l"`] : []),
+        ...(ldflags ? [`-ldflags=${this.quote(ldflags)}`] : []),
+      ],
+      env: {
+        CGO_ENABLED: "0",
+        ...(options.goflags && { GOFLAGS: options.goflags }),
+        ...(options.goprivate && { GOPRIVATE: options.goprivate }),
+        ...options.env,
+        GOOS: native ? this.hostGoos() : "linux",
+        GOARCH: native
+          ? this.hostGoarch()
+          : localConfig.architecture || "arm64",
+      },
+      sourceDir: localConfig.sourceDir,
+      include: native ? [] : options.include || [],
+    };
+  }
+
+  /**
+   * Build options from the `build` section of the Gecko metadata, or from the
+   * build options form, with empty values and environment variables whose
+   * names the shell wouldn't accept left out
+   */
+  static parseBuildOptions(build: any): GoBuildOptions | undefined {
+    if (!build || typeof build !== "object" || Array.isArray(build)) {
+      return undefined;
+    }
+    const text = (value: any) =>
+      typeof value === "string" && value.trim() ? value.trim() : undefined;
+    const list = (value: any): string[] =>
+      (Array.isArray(value) ? value : String(value || "").split(/[,\n]/))
+        .map((item: any) => String(item).trim())
+        .filter((item: string) => item);
+    const tags = list(build.tags);
+    const include = list(build.include);
+    const env: { [key: string]: string } = {};
+    for (const [key, value] of Object.entries(build.env || {})) {
+      if (
+        ENV_NAME.test(key.trim()) &&
+        value !== null &&
+        typeof value !== "object"
+      ) {
+        env[key.trim()] = String(value);
+      }
+    }
+    const options: GoBuildOptions = {
+      tags: tags.length ? tags : undefined,
+      ldflags: text(build.ldflags),
+      trimpath: build.trimpath === true || undefined,
+      packagePath: text(build.packagePath),
+      goflags: text(build.goflags),
+      goprivate: text(build.goprivate),
+      env: Object.keys(env).length ? env : undefined,
+      include: include.length ? include : undefined,
+    };
+    const set = Object.entries(options).filter(
+      ([, value]) => value !== undefined
+    );
+    return set.length ? Object.fromEntries(set) : undefined;
+  }
+
+  /**
+   * Closest directory with a go.mod, from a package directory up
+   */
+  static findModuleRoot(sourceDir: string): string {
+    let dir = path.resolve(sourceDir);
+    while (!fs.existsSync(path.join(dir, "go.mod"))) {
+      const parent = path.dirname(dir);
+      if (parent === dir) {
+        return sourceDir;
+      }
+      dir = parent;
+    }
+    return dir;
+  }
+
+  /**
+   * Quotes a shell argument that isn't a plain word
+   */
+  private static shellArg(value: string): string {
+    return /^[\w.,\/:=@+-]+$/.test(value) ? value : this.quote(value);
+  }
+
+  private static quote(value: string): string {
+    return `"${value.replace(/(["\\$`])/g, "\\$1")}"`;
+  }
+
+  /**
+   * `go list -json` prints one object per package, one after the other
+   */
+  private static parseGoList(stdout: string): GoListPackage[] {
+    const objects = stdout.trim().replace(/\n}\n{/g, "\n},\n{");
+    return objects ? JSON.parse(`[${objects}]`) : [];
+  }
 }
@@ -1,17 +1,33 @@
 import * as fs from "fs";
 import * as path from "path";
 import * as vscode from "vscode";
-import { LocalLambdaConfig } from "./types";
+import { LocalLambdaConfig, SamFunctionImport } from "./types";
 import { TemplateManager } from "./templateManager";
-import { EventTemplates } from "./eventTemplates";
+import { TemplateIO } from "./templateIO";
+import { EventStore } from "./eventStore";
+import { EventKinds } from "./eventKinds";
+import { LambdaIndex } from "../lambdaIndex";
 import { log, logError } from "../logger";
 
+/**
+ * Files of a lambda directory that belong to its function
+ */
+const STACK_FUNCTION_FILES = [
+  "events",
+  "history",
+  "snapshots",
+  "assertions",
+  "build",
+  "event.json",
+  "response.json",
+];
+
 export class ConfigManager {
   /**
    * Reads configuration directly from template.yaml (the only source of truth)
    */
   static readLocalConfig(lambdaDir: string): LocalLambdaConfig {
-    const templatePath = path.join(lambdaDir, "template.yaml");
+    const templatePath = TemplateIO.getTemplatePath(lambdaDir);
     if (!fs.existsSync(templatePath)) {
       throw new Error(
         `Template file not found: ${templatePath}. Please reconfigure the lambda.`
@@ -36,16 +52,131 @@ export class ConfigManager {
     }
   }
 
-  // AÑADIDO: La función que faltaba
   /**
-   * Creates an event.json file from a template.
-   * @param eventFilePath The full path where the event file will be created.
-   * @param eventType The type of event to generate a template for.
+   * Creates the workspace directory of a lambda: template.yaml with Gecko
+   * metadata, a default test event for non-API events and an empty build
+   * directory.
+   */
+  static createLambdaWorkspace(localConfig: Partial<LocalLambdaConfig>): string {
+    const lambdaDir = path.join(
+      localConfig.workspacePath!,
+      localConfig.functionName!
+    );
+    if (!fs.existsSync(lambdaDir)) {
+      fs.mkdirSync(lambdaDir, { recursive: true });
+    }
+    log(`📁 Created clean lambda directory: ${lambdaDir}`);
+
+    log(`📄 Creating template.yaml as the only source of truth...`);
+    TemplateManager.createTemplate(lambdaDir, localConfig);
+    this.cleanupConfigJson(lambdaDir);
+
+    this.createDefaultEvent(lambdaDir, localConfig.eventType!);
+
+    const buildDir = path.join(lambdaDir, "build");
+    if (!fs.existsSync(buildDir)) {
+      fs.mkdirSync(buildDir, { recursive: true });
+    }
+    return lambdaDir;
+  }
+
+  /**
+   * Adds a lambda to the multi-function stack of a workspace entry, turning a
+   * single-function entry into a stack first. Each function of a stack has
+   * its own `<stack>/<LogicalId>/` directory for events, history and builds.
+   */
+  static addLambdaToStack(
+    stackDir: string,
+    localConfig: Partial<LocalLambdaConfig>
+  ): string {
+    if (TemplateManager.readTemplate(stackDir).Metadata?.GeckoLambda) {
+      this.convertToStack(stackDir);
+    }
+    const logicalId = TemplateManager.addFunction(stackDir, localConfig);
+    const lambdaDir = path.join(stackDir, logicalId);
+    fs.mkdirSync(path.join(lambdaDir, "build"), { recursive: true });
+    log(`📁 Added ${logicalId} to stack ${stackDir}`);
+
+    this.createDefaultEvent(lambdaDir, localConfig.eventType!);
+    return lambdaDir;
+  }
+
+  /**
+   * Creates a workspace stack for a SAM project: a copy of its template with
+   * Gecko metadata on the imported functions, and a directory per function.
+   * The project's own template.yaml is never written.
    */
-  static createEventFile(eventFilePath: string, eventType: string): void {
-    const eventTemplate = EventTemplates.getTemplate(eventType);
-    fs.writeFileSync(eventFilePath, JSON.stringify(eventTemplate, null, 2));
-    log(`📝 Created event file at: ${eventFilePath}`);
+  static importStack(
+    stackDir: string,
+    templatePath: string,
+    functions: SamFunctionImport[]
+  ): string {
+    const content = TemplateManager.importTemplate(
+      fs.readFileSync(templatePath, "utf8"),
+      templatePath,
+      functions
+    );
+    for (const fn of functions) {
+      fs.mkdirSync(path.join(stackDir, fn.logicalId, "build"), { recursive: true });
+    }
+    TemplateIO.write(stackDir, content);
+    log(`📥 Imported ${functions.length} functions from ${templatePath} into ${stackDir}`);
+
+    for (const fn of functions) {
+      this.createDefaultEvent(path.join(stackDir, fn.logicalId), fn.eventType);
+    }
+    return stackDir;
+  }
+
+  /**
+   * Removes the workspace directory of a lambda. A function of a stack is
+   * also removed from the stack's template.yaml.
+   */
+  static removeLambdaWorkspace(lambdaDir: string): void {
+    if (TemplateIO.locate(lambdaDir).logicalId) {
+      TemplateManager.removeFunction(lambdaDir);
+    }
+    if (fs.existsSync(lambdaDir)) {
+      fs.rmSync(lambdaDir, { recursive: true, force: true });
+    }
+    LambdaIndex.getInstance().reload(lambdaDir);
+  }
+
+  /**
+   * Moves the files of a single-function entry into the directory of its
+   * function before its template becomes a stack
+   */
+  /**
+   * Creates the default test event of non-API lambdas, keeping the one a
+   * previous workspace of the same name left
+   */
+  private static createDefaultEvent(lambdaDir: string, eventType: string): void {
+    if (
+      eventType !== "apigateway" &&
+      !EventStore.exists(lambdaDir, EventStore.DEFAULT_EVENT)
+    ) {
+      EventStore.create(lambdaDir, EventStore.DEFAULT_EVENT, eventType);
+    }
+  }
+
+  private static convertToStack(lambdaDir: string): void {
+    const logicalId = TemplateManager.getFunctionKey(
+      lambdaDir,
+      TemplateManager.readTemplate(lambdaDir)
+    );
+    if (!logicalId) {
+      throw new Error("Lambda function resource not found in template.yaml");
+    }
+    const functionDir = path.join(lambdaDir, logicalId);
+    fs.mkdirSync(functionDir, { recursive: true });
+    for (const name of STACK_FUNCTION_FILES) {
+      const from = path.join(lambdaDir, name);
+      if (fs.existsSync(from)) {
+        fs.renameSync(from, path.join(functionDir, name));
+      }
+    }
+    TemplateManager.convertToStack(lambdaDir);
+    log(`🔀 Converted ${lambdaDir} to a multi-function stack`);
   }
 
   /**
@@ -56,7 +187,10 @@ export class ConfigManager {
       const templatePath = path.join(lambdaDir, "template.yaml");
       const template = TemplateManager.readTemplate(lambdaDir);
       const functionName = path.basename(lambdaDir);
-      const geckoMetadata = template.Metadata?.GeckoLambda;
+      const geckoMetadata = TemplateManager.getGeckoMetadata(
+        lambdaDir,
+        template
+      );
       if (geckoMetadata) {
         return {
           functionName: functionName,
@@ -103,19 +237,10 @@ export class ConfigManager {
         const eventKeys = Object.keys(events);
         if (eventKeys.length > 0) {
           const firstEvent = events[eventKeys[0]];
-          const eventType = firstEvent.Type;
-          switch (eventType) {
-            case "Api":
-              return "apigateway";
-            case "S3":
-              return "s3";
-            case "DynamoDB":
-              return "dynamodb";
-            case "SQS":
-              return "sqs";
-            default:
-              return "apigateway";
-          }
+          return (
+            EventKinds.fromSamEventType(firstEvent.Type)?.id ||
+            EventKinds.DEFAULT_ID
+          );
         }
       }
     } catch (error) {
@@ -150,26 +275,16 @@ export class ConfigManager {
     eventType: string
   ): void {
     try {
-      const templatePath = path.join(lambdaDir, "template.yaml");
-      const template = TemplateManager.readTemplate(lambdaDir);
-      if (!template.Metadata) {
-        template.Metadata = {};
-      }
-      template.Metadata.GeckoLambda = {
-        sourceFile: sourceFile,
-        sourceDir: sourceDir,
-        eventType: eventType,
-        lastModified: new Date().toISOString(),
-        version: "2.0",
-      };
-      const updatedContent = require("js-yaml").dump(template, {
-        indent: 2,
-        lineWidth: 120,
-        noRefs: true,
-        quotingType: '"',
-        forceQuotes: false,
-      });
-      fs.writeFileSync(templatePath, updatedContent);
+      const templatePath = TemplateIO.getTemplatePath(lambdaDir);
+      TemplateIO.update(lambdaDir, (template) =>
+        template.merge(TemplateManager.getMetadataPath(lambdaDir), {
+          sourceFile: sourceFile,
+          sourceDir: sourceDir,
+          eventType: eventType,
+          lastModified: new Date().toISOString(),
+          version: "2.0",
+        })
+      );
       log(
         `✅ Gecko metadata updated in template.yaml: ${templatePath}`
       );
@@ -183,16 +298,21 @@ export class ConfigManager {
     hasMetadata: boolean;
     metadata?: any;
   } {
-    const templatePath = path.join(lambdaDir, "template.yaml");
+    const templatePath = TemplateIO.getTemplatePath(lambdaDir);
     if (!fs.existsSync(templatePath)) {
       return { exists: false, hasMetadata: false };
     }
     try {
       const template = TemplateManager.readTemplate(lambdaDir);
-      const geckoMetadata = template.Metadata?.GeckoLambda;
+      const geckoMetadata = TemplateManager.getGeckoMetadata(
+        lambdaDir,
+        template
+      );
       return {
         exists: true,
-        hasMetadata: !!geckoMetadata,
+        hasMetadata:
+          !!geckoMetadata ||
+          TemplateManager.getStackFunctions(template).length > 0,
         metadata: geckoMetadata,
       };
     } catch (error) {
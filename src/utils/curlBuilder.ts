@@ -0,0 +1,120 @@
+/**
+ * Headers curl sets itself, or that API Gateway adds to the events it sends
+ */
+const SKIPPED_HEADERS =
+  /^(host|content-length|connection|x-forwarded-.*|x-amzn-.*|cloudfront-.*|via)$/i;
+
+const LAMBDA_ENDPOINT = "http://127.0.0.1:3001";
+
+/**
+ * Writes curl commands that send a test event again from a terminal
+ */
+export class CurlBuilder {
+  /**
+   * Replays an API Gateway event (REST or HTTP API payload) against a local
+   * API server
+   */
+  static fromApiEvent(event: any, baseUrl: string): string {
+    const v2 = event?.version === "2.0" || !!event?.requestContext?.http;
+    const method = String(
+      (v2 ? event.requestContext?.http?.method : event?.httpMethod) || "GET"
+    ).toUpperCase();
+    const url = `${baseUrl.replace(/\/+$/, "")}${
+      (v2 ? event.rawPath : event?.path) || "/"
+    }${this.queryString(event, v2)}`;
+
+    const args = ["curl", "-i"];
+    if (method !== "GET") {
+      args.push("-X", method);
+    }
+    for (const [name, value] of this.headers(event)) {
+      args.push("-H", this.quote(`${name}: ${value}`));
+    }
+    if (v2 && Array.isArray(event.cookies) && event.cookies.length) {
+      args.push("-b", this.quote(event.cookies.join("; ")));
+    }
+
+    const body = event?.body;
+    if (typeof body !== "string" || body === "") {
+      return [...args, this.quote(url)].join(" ");
+    }
+    if (!event.isBase64Encoded) {
+      return [...args, "--data-raw", this.quote(body), this.quote(url)].join(
+        " "
+      );
+    }
+    // Binary bodies are decoded by the shell and piped to curl
+    return `printf %s ${this.quote(body)} | base64 -d | ${[
+      ...args,
+      "--data-binary",
+      "@-",
+      this.quote(url),
+    ].join(" ")}`;
+  }
+
+  /**
+   * Sends any event to the Lambda invoke endpoint of `sam local start-lambda`
+   */
+  static fromInvokeEvent(event: any, functionName: string): string {
+    return [
+      "curl",
+      "-X",
+      "POST",
+      this.quote(
+        `${LAMBDA_ENDPOINT}/2015-03-31/functions/${functionName}/invocations`
+      ),
+      "-H",
+      this.quote("Content-Type: application/json"),
+      "--data-raw",
+      this.quote(JSON.stringify(event)),
+    ].join(" ");
+  }
+
+  private static queryString(event: any, v2: boolean): string {
+    if (v2) {
+      return event.rawQueryString ? `?${event.rawQueryString}` : "";
+    }
+    const multi = event?.multiValueQueryStringParameters;
+    const single = event?.queryStringParameters;
+    const pairs: [string, string][] = multi
+      ? Object.entries<any>(multi).flatMap(([name, values]) =>
+          (Array.isArray(values) ? values : [values]).map(
+            (value): [string, string] => [name, String(value)]
+          )
+        )
+      : Object.entries<any>(single || {}).map(([name, value]) => [
+          name,
+          String(value),
+        ]);
+    return pairs.length
+      ? `?${pairs
+          .map(
+            ([name, value]) =>
+              `${encodeURIComponent(name)}=${encodeURIComponent(value)}`
+          )
+          .join("&")}`
+      : "";
+  }
+
+  private static headers(event: any): [string, string][] {
+    const multi = event?.multiValueHeaders;
+    const entries: [string, string][] = multi
+      ? Object.entries<any>(multi).flatMap(([name, values]) =>
+          (Array.isArray(values) ? values : [values]).map(
+            (value): [string, string] => [name, String(value)]
+          )
+        )
+      : Object.entries<any>(event?.headers || {}).map(([name, value]) => [
+          name,
+          String(value),
+        ]);
+    return entries.filter(([name]) => !SKIPPED_HEADERS.test(name));
+  }
+
+  /**
+   * Single-quotes a shell argument
+   */
+  private static quote(value: string): string {
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+  }
+}
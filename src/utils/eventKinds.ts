@@ -0,0 +1,686 @@
+import { EventKind } from "./types";
+
+/**
+ * Registry of every event source Gecko understands. Detection, the event type
+ * picker, test event templates, SAM event configuration and tree icons are all
+ * derived from these definitions.
+ */
+const EVENT_KINDS: EventKind[] = [
+  {
+    id: "apigateway",
+    label: "🌐 API Gateway (REST)",
+    description: "HTTP REST API events",
+    icon: "globe",
+    goTypes: ["APIGatewayProxyRequest"],
+    responseTypes: ["APIGatewayProxyResponse"],
+    samEventType: "Api",
+    template: {
+      resource: "/{proxy+}",
+      path: "/hello",
+      httpMethod: "GET",
+      headers: {
+        Accept:
+          "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
+        "Accept-Encoding": "gzip, deflate, br",
+        "Accept-Language": "en-US,en;q=0.5",
+        "Content-Type": "application/json",
+        Host: "example.execute-api.us-east-1.amazonaws.com",
+        "User-Agent": "Mozilla/5.0 (compatible; GeckoLambda/1.0)",
+        "X-Forwarded-For": "192.0.2.1",
+        "X-Forwarded-Port": "443",
+        "X-Forwarded-Proto": "https",
+      },
+      multiValueHeaders: {},
+      queryStringParameters: { name: "world", test: "value" },
+      multiValueQueryStringParameters: {},
+      pathParameters: { proxy: "hello" },
+      stageVariables: null,
+      requestContext: {
+        accountId: "123456789012",
+        apiId: "1234567890",
+        httpMethod: "GET",
+        path: "/hello",
+        stage: "test",
+        requestId: "c6af9ac6-7b61-11e6-9a41-93e8deadbeef",
+        requestTimeEpoch: 1428582896000,
+        resourceId: "123456",
+        resourcePath: "/{proxy+}",
+      },
+      body: null,
+      isBase64Encoded: false,
+    },
+    sampleData: {
+      body: JSON.stringify({
+        name: "John Doe",
+        age: 30,
+        email: "john@example.com",
+      }),
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: "Bearer sample-token",
+      },
+    },
+    samEvents: () => ({
+      ApiEvent: {
+        Type: "Api",
+        Properties: {
+          Path: "/hello",
+          Method: "get",
+        },
+      },
+    }),
+  },
+  {
+    id: "apigatewayv2",
+    label: "🌍 API Gateway (HTTP API v2)",
+    description: "HTTP API payload format 2.0 events",
+    icon: "globe",
+    goTypes: ["APIGatewayV2HTTPRequest"],
+    responseTypes: ["APIGatewayV2HTTPResponse"],
+    samEventType: "HttpApi",
+    template: {
+      version: "2.0",
+      routeKey: "GET /hello",
+      rawPath: "/hello",
+      rawQueryString: "name=world",
+      cookies: [],
+      headers: {
+        accept: "application/json",
+        "content-type": "application/json",
+        host: "example.execute-api.us-east-1.amazonaws.com",
+        "user-agent": "Mozilla/5.0 (compatible; GeckoLambda/1.0)",
+        "x-forwarded-for": "192.0.2.1",
+        "x-forwarded-port": "443",
+        "x-forwarded-proto": "https",
+      },
+      queryStringParameters: { name: "world" },
+      pathParameters: {},
+      stageVariables: null,
+      requestContext: {
+        accountId: "123456789012",
+        apiId: "1234567890",
+        domainName: "example.execute-api.us-east-1.amazonaws.com",
+        domainPrefix: "example",
+        http: {
+          method: "GET",
+          path: "/hello",
+          protocol: "HTTP/1.1",
+          sourceIp: "192.0.2.1",
+          userAgent: "Mozilla/5.0 (compatible; GeckoLambda/1.0)",
+        },
+        requestId: "c6af9ac6-7b61-11e6-9a41-93e8deadbeef",
+        routeKey: "GET /hello",
+        stage: "$default",
+        time: "12/Mar/2020:19:03:58 +0000",
+        timeEpoch: 1583348638390,
+      },
+      body: "",
+      isBase64Encoded: false,
+    },
+    samEvents: () => ({
+      HttpApiEvent: {
+        Type: "HttpApi",
+        Properties: {
+          Path: "/hello",
+          Method: "get",
+        },
+      },
+    }),
+  },
+  {
+    id: "functionurl",
+    label: "🔗 Function URL",
+    description: "Lambda Function URL requests",
+    icon: "link",
+    goTypes: ["LambdaFunctionURLRequest"],
+    responseTypes: ["LambdaFunctionURLResponse"],
+    template: {
+      version: "2.0",
+      rawPath: "/hello",
+      rawQueryString: "name=world",
+      cookies: [],
+      headers: {
+        accept: "application/json",
+        host: "abcdefghijklmnop.lambda-url.us-east-1.on.aws",
+        "user-agent": "Mozilla/5.0 (compatible; GeckoLambda/1.0)",
+        "x-forwarded-proto": "https",
+      },
+      queryStringParameters: { name: "world" },
+      requestContext: {
+        accountId: "123456789012",
+        apiId: "abcdefghijklmnop",
+        domainName: "abcdefghijklmnop.lambda-url.us-east-1.on.aws",
+        domainPrefix: "abcdefghijklmnop",
+        http: {
+          method: "GET",
+          path: "/hello",
+          protocol: "HTTP/1.1",
+          sourceIp: "192.0.2.1",
+          userAgent: "Mozilla/5.0 (compatible; GeckoLambda/1.0)",
+        },
+        requestId: "c6af9ac6-7b61-11e6-9a41-93e8deadbeef",
+        routeKey: "$default",
+        stage: "$default",
+        time: "12/Mar/2020:19:03:58 +0000",
+        timeEpoch: 1583348638390,
+      },
+      body: "",
+      isBase64Encoded: false,
+    },
+    samEvents: () => ({}),
+    functionProperties: {
+      FunctionUrlConfig: {
+        AuthType: "NONE",
+      },
+    },
+  },
+  {
+    id: "alb",
+    label: "⚖️ Application Load Balancer",
+    description: "ALB target group requests",
+    icon: "server-environment",
+    goTypes: ["ALBTargetGroupRequest"],
+    responseTypes: ["ALBTargetGroupResponse"],
+    template: {
+      requestContext: {
+        elb: {
+          targetGroupArn:
+            "arn:aws:elasticloadbalancing:us-east-1:123456789012:targetgroup/lambda-target/abcdef123456",
+        },
+      },
+      httpMethod: "GET",
+      path: "/hello",
+      queryStringParameters: { name: "world" },
+      headers: {
+        accept: "application/json",
+        host: "lambda-alb-123578498.us-east-1.elb.amazonaws.com",
+        "user-agent": "Mozilla/5.0 (compatible; GeckoLambda/1.0)",
+        "x-forwarded-for": "192.0.2.1",
+        "x-forwarded-port": "80",
+        "x-forwarded-proto": "http",
+      },
+      body: "",
+      isBase64Encoded: false,
+    },
+    samEvents: () => ({}),
+  },
+  {
+    id: "s3",
+    label: "🪣 S3 Events",
+    description: "S3 bucket events",
+    icon: "database",
+    goTypes: ["S3Event"],
+    samEventType: "S3",
+    template: {
+      Records: [
+        {
+          eventVersion: "2.1",
+          eventSource: "aws:s3",
+          awsRegion: "us-east-1",
+          eventTime: "2021-01-01T12:00:00.000Z",
+          eventName: "ObjectCreated:Put",
+          userIdentity: { principalId: "AIDACKCEVSQ6C2EXAMPLE" },
+          requestParameters: { sourceIPAddress: "192.0.2.3" },
+          responseElements: {
+            "x-amz-request-id": "C3D13FE58DE4C810",
+            "x-amz-id-2":
+              "FMyUVURIY8/IgAtTv8xRjskZQpcIZ9KG4V5Wp6S7S/JRWeUWerMUE5JgHvANOjpD",
+          },
+          s3: {
+            s3SchemaVersion: "1.0",
+            configurationId: "testConfigRule",
+            bucket: {
+              name: "example-bucket",
+              ownerIdentity: { principalId: "AIDACKCEVSQ6C2EXAMPLE" },
+              arn: "arn:aws:s3:::example-bucket",
+            },
+            object: {
+              key: "uploads/test-file.jpg",
+              size: 1024,
+              eTag: "d41d8cd98f00b204e9800998ecf8427e",
+              sequencer: "0055AED6DCD90281E5",
+            },
+          },
+        },
+      ],
+    },
+    sampleData: {
+      Records: [
+        {
+          s3: {
+            object: {
+              key: "uploads/sample-image.png",
+              size: 2048,
+              eTag: "new-etag-example",
+            },
+          },
+        },
+      ],
+    },
+    eventSource: {
+      logicalId: "S3Bucket",
+      label: "S3 bucket",
+      property: "Bucket",
+      resource: { Type: "AWS::S3::Bucket" },
+    },
+    samEvents: () => ({
+      S3Event: {
+        Type: "S3",
+        Properties: {
+          Bucket: { Ref: "S3Bucket" },
+          Events: "s3:ObjectCreated:*",
+          Filter: {
+            S3Key: {
+              Rules: [
+                {
+                  Name: "prefix",
+                  Value: "uploads/",
+                },
+              ],
+            },
+          },
+        },
+      },
+    }),
+  },
+  {
+    id: "dynamodb",
+    label: "📊 DynamoDB Streams",
+    description: "DynamoDB stream events",
+    icon: "table",
+    goTypes: ["DynamoDBEvent"],
+    samEventType: "DynamoDB",
+    template: {
+      Records: [
+        {
+          eventID: "1",
+          eventVersion: "1.0",
+          dynamodb: {
+            Keys: { Id: { N: "101" } },
+            NewImage: { Message: { S: "New item!" }, Id: { N: "101" } },
+            StreamViewType: "NEW_AND_OLD_IMAGES",
+            SequenceNumber: "111",
+            SizeBytes: 26,
+          },
+          awsRegion: "us-west-2",
+          eventName: "INSERT",
+          eventSourceARN:
+            "arn:aws:dynamodb:us-west-2:account-id:table/ExampleTableWithStream/stream/2015-06-27T00:48:05.899",
+          eventSource: "aws:dynamodb",
+        },
+      ],
+    },
+    sampleData: {
+      Records: [
+        {
+          dynamodb: {
+            NewImage: {
+              AdditionalField: { S: "Sample additional data" },
+            },
+          },
+        },
+      ],
+    },
+    eventSource: {
+      logicalId: "DynamoDBTable",
+      label: "DynamoDB table",
+      property: "Stream",
+      resource: {
+        Type: "AWS::DynamoDB::Table",
+        Properties: {
+          BillingMode: "PAY_PER_REQUEST",
+          AttributeDefinitions: [{ AttributeName: "id", AttributeType: "S" }],
+          KeySchema: [{ AttributeName: "id", KeyType: "HASH" }],
+          StreamSpecification: { StreamViewType: "NEW_AND_OLD_IMAGES" },
+        },
+      },
+      existing: {
+        parameter: "DynamoDBStreamArn",
+        description: "ARN of the DynamoDB stream",
+        arnService: "dynamodb",
+      },
+    },
+    samEvents: () => ({
+      DynamoDBEvent: {
+        Type: "DynamoDB",
+        Properties: {
+          Stream: { "Fn::GetAtt": ["DynamoDBTable", "StreamArn"] },
+          StartingPosition: "TRIM_HORIZON",
+          BatchSize: 10,
+        },
+      },
+    }),
+  },
+  {
+    id: "sqs",
+    label: "📬 SQS Messages",
+    description: "SQS queue events",
+    icon: "mail",
+    goTypes: ["SQSEvent"],
+    responseTypes: ["SQSEventResponse"],
+    samEventType: "SQS",
+    template: {
+      Records: [
+        {
+          messageId: "19dd0b57-b21e-4ac1-bd88-01bbb068cb78",
+          receiptHandle: "MessageReceiptHandle",
+          body: "Hello from SQS!",
+          attributes: {
+            ApproximateReceiveCount: "1",
+            SentTimestamp: "1523232000000",
+            SenderId: "123456789012",
+            ApproximateFirstReceiveTimestamp: "1523232000001",
+          },
+          messageAttributes: {},
+          md5OfBody: "7b270e59b47ff90a553787216d55d91d",
+          eventSource: "aws:sqs",
+          eventSourceARN: "arn:aws:sqs:us-east-1:123456789012:MyQueue",
+          awsRegion: "us-east-1",
+        },
+      ],
+    },
+    sampleData: {
+      Records: [
+        {
+          body: JSON.stringify({
+            type: "order",
+            orderId: "12345",
+            customerId: "67890",
+          }),
+          messageAttributes: {
+            MessageType: { StringValue: "Order", DataType: "String" },
+          },
+        },
+      ],
+    },
+    eventSource: {
+      logicalId: "SQSQueue",
+      label: "SQS queue",
+      property: "Queue",
+      resource: { Type: "AWS::SQS::Queue" },
+      existing: {
+        parameter: "SQSQueueArn",
+        description: "ARN of the SQS queue",
+        arnService: "sqs",
+      },
+    },
+    samEvents: () => ({
+      SQSEvent: {
+        Type: "SQS",
+        Properties: {
+          Queue: { "Fn::GetAtt": ["SQSQueue", "Arn"] },
+          BatchSize: 10,
+        },
+      },
+    }),
+  },
+  {
+    id: "sns",
+    label: "📣 SNS Notifications",
+    description: "SNS topic messages",
+    icon: "bell",
+    goTypes: ["SNSEvent"],
+    samEventType: "SNS",
+    template: {
+      Records: [
+        {
+          EventVersion: "1.0",
+          EventSubscriptionArn:
+            "arn:aws:sns:us-east-1:123456789012:MyTopic:2bcfbf39-05c3-41de-beaa-fcfcc21c8f55",
+          EventSource: "aws:sns",
+          Sns: {
+            SignatureVersion: "1",
+            Timestamp: "2021-01-01T12:00:00.000Z",
+            Signature: "EXAMPLE",
+            SigningCertUrl: "EXAMPLE",
+            MessageId: "95df01b4-ee98-5cb9-9903-4c221d41eb5e",
+            Message: "Hello from SNS!",
+            MessageAttributes: {},
+            Type: "Notification",
+            UnsubscribeUrl: "EXAMPLE",
+            TopicArn: "arn:aws:sns:us-east-1:123456789012:MyTopic",
+            Subject: "TestInvoke",
+          },
+        },
+      ],
+    },
+    eventSource: {
+      logicalId: "SNSTopic",
+      label: "SNS topic",
+      property: "Topic",
+      resource: { Type: "AWS::SNS::Topic" },
+      existing: {
+        parameter: "SNSTopicArn",
+        description: "ARN of the SNS topic",
+        arnService: "sns",
+      },
+    },
+    samEvents: () => ({
+      SNSEvent: {
+        Type: "SNS",
+        Properties: {
+          Topic: { Ref: "SNSTopic" },
+        },
+      },
+    }),
+  },
+  {
+    id: "eventbridge",
+    label: "⚡ EventBridge",
+    description: "EventBridge / CloudWatch events",
+    icon: "zap",
+    goTypes: ["EventBridgeEvent", "CloudWatchEvent"],
+    samEventType: "EventBridgeRule",
+    template: {
+      version: "0",
+      id: "6a7e8feb-b491-4cf7-a9f1-bf3703467718",
+      "detail-type": "OrderCreated",
+      source: "com.example.orders",
+      account: "123456789012",
+      time: "2021-01-01T12:00:00Z",
+      region: "us-east-1",
+      resources: [],
+      detail: {
+        orderId: "12345",
+        customerId: "67890",
+      },
+    },
+    samEvents: () => ({
+      EventBridgeEvent: {
+        Type: "EventBridgeRule",
+        Properties: {
+          Pattern: {
+            source: ["com.example.orders"],
+          },
+        },
+      },
+    }),
+  },
+  {
+    id: "kinesis",
+    label: "🌊 Kinesis Streams",
+    description: "Kinesis data stream records",
+    icon: "pulse",
+    goTypes: ["KinesisEvent"],
+    responseTypes: ["KinesisEventResponse"],
+    samEventType: "Kinesis",
+    template: {
+      Records: [
+        {
+          kinesis: {
+            kinesisSchemaVersion: "1.0",
+            partitionKey: "1",
+            sequenceNumber:
+              "49590338271490256608559692538361571095921575989136588898",
+            data: "SGVsbG8gZnJvbSBLaW5lc2lzIQ==",
+            approximateArrivalTimestamp: 1545084650.987,
+          },
+          eventSource: "aws:kinesis",
+          eventVersion: "1.0",
+          eventID:
+            "shardId-000000000006:49590338271490256608559692538361571095921575989136588898",
+          eventName: "aws:kinesis:record",
+          invokeIdentityArn: "arn:aws:iam::123456789012:role/lambda-role",
+          awsRegion: "us-east-1",
+          eventSourceARN:
+            "arn:aws:kinesis:us-east-1:123456789012:stream/lambda-stream",
+        },
+      ],
+    },
+    eventSource: {
+      logicalId: "KinesisStream",
+      label: "Kinesis stream",
+      property: "Stream",
+      resource: {
+        Type: "AWS::Kinesis::Stream",
+        Properties: { ShardCount: 1 },
+      },
+      existing: {
+        parameter: "KinesisStreamArn",
+        description: "ARN of the Kinesis stream",
+        arnService: "kinesis",
+      },
+    },
+    samEvents: () => ({
+      KinesisEvent: {
+        Type: "Kinesis",
+        Properties: {
+          Stream: { "Fn::GetAtt": ["KinesisStream", "Arn"] },
+          StartingPosition: "TRIM_HORIZON",
+          BatchSize: 100,
+        },
+      },
+    }),
+  },
+  {
+    id: "cognito",
+    label: "👤 Cognito Trigger",
+    description: "Cognito user pool triggers",
+    icon: "person",
+    goTypes: [
+      "CognitoEventUserPoolsPreSignup",
+      "CognitoEventUserPoolsPreAuthentication",
+      "CognitoEventUserPoolsPostAuthentication",
+      "CognitoEventUserPoolsPostConfirmation",
+      "CognitoEventUserPoolsPreTokenGen",
+      "CognitoEventUserPoolsPreTokenGenV2_0",
+      "CognitoEventUserPoolsCustomMessage",
+      "CognitoEventUserPoolsMigrateUser",
+      "CognitoEventUserPoolsDefineAuthChallenge",
+      "CognitoEventUserPoolsCreateAuthChallenge",
+      "CognitoEventUserPoolsVerifyAuthChallenge",
+    ],
+    samEventType: "Cognito",
+    template: {
+      version: "1",
+      triggerSource: "PreSignUp_SignUp",
+      region: "us-east-1",
+      userPoolId: "us-east-1_EXAMPLE",
+      userName: "johndoe",
+      callerContext: {
+        awsSdkVersion: "aws-sdk-unknown-unknown",
+        clientId: "1example23456789",
+      },
+      request: {
+        userAttributes: {
+          email: "john@example.com",
+          name: "John Doe",
+        },
+        validationData: {},
+      },
+      response: {
+        autoConfirmUser: false,
+        autoVerifyEmail: false,
+        autoVerifyPhone: false,
+      },
+    },
+    eventSource: {
+      logicalId: "CognitoUserPool",
+      label: "Cognito user pool",
+      property: "UserPool",
+      resource: { Type: "AWS::Cognito::UserPool" },
+    },
+    samEvents: () => ({
+      CognitoEvent: {
+        Type: "Cognito",
+        Properties: {
+          UserPool: { Ref: "CognitoUserPool" },
+          Trigger: "PreSignUp",
+        },
+      },
+    }),
+  },
+  {
+    id: "schedule",
+    label: "⏰ Scheduled",
+    description: "Scheduled (cron/rate) invocations",
+    icon: "watch",
+    goTypes: [],
+    samEventType: "Schedule",
+    template: {
+      version: "0",
+      id: "53dc4d37-cffa-4f76-80c9-8b7d4a4d2eaa",
+      "detail-type": "Scheduled Event",
+      source: "aws.events",
+      account: "123456789012",
+      time: "2021-01-01T12:00:00Z",
+      region: "us-east-1",
+      resources: [
+        "arn:aws:events:us-east-1:123456789012:rule/my-schedule",
+      ],
+      detail: {},
+    },
+    samEvents: () => ({
+      DefaultEvent: {
+        Type: "Schedule",
+        Properties: {
+          Schedule: "rate(10 minutes)",
+        },
+      },
+    }),
+  },
+];
+
+export class EventKinds {
+  static readonly DEFAULT_ID = "apigateway";
+
+  static all(): EventKind[] {
+    return EVENT_KINDS;
+  }
+
+  static get(id: string): EventKind | undefined {
+    return EVENT_KINDS.find((kind) => kind.id === id);
+  }
+
+  /**
+   * Finds the event kind for a type of github.com/aws/aws-lambda-go/events,
+   * either as an input event or as a handler response.
+   */
+  static fromGoType(typeName: string): EventKind | undefined {
+    const name = typeName.replace(/^\*/, "").replace(/^events\./, "");
+    return (
+      EVENT_KINDS.find((kind) => kind.goTypes.includes(name)) ||
+      EVENT_KINDS.find((kind) => kind.responseTypes?.includes(name))
+    );
+  }
+
+  static fromSamEventType(samEventType: string): EventKind | undefined {
+    return EVENT_KINDS.find((kind) => kind.samEventType === samEventType);
+  }
+
+  static getIcon(id: string): string {
+    return this.get(id)?.icon || "symbol-function";
+  }
+
+  static getQuickPickItems(): {
+    label: string;
+    value: string;
+    description: string;
+  }[] {
+    return EVENT_KINDS.map((kind) => ({
+      label: kind.label,
+      value: kind.id,
+      description: kind.description,
+    }));
+  }
+}
@@ -0,0 +1,150 @@
+import * as fs from "fs";
+import * as path from "path";
+import { EventTemplates } from "./eventTemplates";
+import { log } from "../logger";
+
+const EVENTS_DIR = "events";
+const LEGACY_EVENT_FILE = "event.json";
+
+/**
+ * Named test events of a lambda, stored as `events/<name>.json` in its
+ * workspace directory.
+ */
+export class EventStore {
+  static readonly DEFAULT_EVENT = "default";
+
+  static getEventsDir(lambdaDir: string): string {
+    return path.join(lambdaDir, EVENTS_DIR);
+  }
+
+  static getEventPath(lambdaDir: string, name: string): string {
+    return path.join(this.getEventsDir(lambdaDir), `${name}.json`);
+  }
+
+  static isValidName(name: string): boolean {
+    return /^[a-zA-Z0-9][a-zA-Z0-9._-]*$/.test(name);
+  }
+
+  /**
+   * Lists the event names of a lambda, moving a legacy event.json into
+   * events/default.json first
+   */
+  static list(lambdaDir: string): string[] {
+    this.migrateLegacyEvent(lambdaDir);
+    const eventsDir = this.getEventsDir(lambdaDir);
+    if (!fs.existsSync(eventsDir)) {
+      return [];
+    }
+    return fs
+      .readdirSync(eventsDir)
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => file.slice(0, -".json".length))
+      .sort((a, b) => a.localeCompare(b));
+  }
+
+  static exists(lambdaDir: string, name: string): boolean {
+    return fs.existsSync(this.getEventPath(lambdaDir, name));
+  }
+
+  /**
+   * Name of the event used by a plain run: the default event from the Gecko
+   * metadata, then "default", then the first event
+   */
+  static resolveDefault(
+    lambdaDir: string,
+    defaultEvent?: string
+  ): string | undefined {
+    const names = this.list(lambdaDir);
+    if (defaultEvent && names.includes(defaultEvent)) {
+      return defaultEvent;
+    }
+    return names.includes(this.DEFAULT_EVENT) ? this.DEFAULT_EVENT : names[0];
+  }
+
+  /**
+   * Creates an event from the template of the event type
+   */
+  static create(lambdaDir: string, name: string, eventType: string): string {
+    const eventPath = this.getEventPath(lambdaDir, name);
+    this.ensureEventsDir(lambdaDir);
+    if (fs.existsSync(eventPath)) {
+      throw new Error(`Event "${name}" already exists`);
+    }
+    this.writeTemplate(eventPath, eventType);
+    return eventPath;
+  }
+
+  /**
+   * Overwrites an event with the template of the event type
+   */
+  static reset(lambdaDir: string, name: string, eventType: string): string {
+    const eventPath = this.getEventPath(lambdaDir, name);
+    this.ensureEventsDir(lambdaDir);
+    this.writeTemplate(eventPath, eventType);
+    return eventPath;
+  }
+
+  static duplicate(lambdaDir: string, name: string, newName: string): string {
+    const target = this.getEventPath(lambdaDir, newName);
+    if (fs.existsSync(target)) {
+      throw new Error(`Event "${newName}" already exists`);
+    }
+    fs.copyFileSync(this.getEventPath(lambdaDir, name), target);
+    log(`📋 Duplicated event ${name} as ${newName}`);
+    return target;
+  }
+
+  static rename(lambdaDir: string, name: string, newName: string): string {
+    const target = this.getEventPath(lambdaDir, newName);
+    if (fs.existsSync(target)) {
+      throw new Error(`Event "${newName}" already exists`);
+    }
+    fs.renameSync(this.getEventPath(lambdaDir, name), target);
+    log(`✏️ Renamed event ${name} to ${newName}`);
+    return target;
+  }
+
+  static delete(lambdaDir: string, name: string): void {
+    fs.rmSync(this.getEventPath(lambdaDir, name), { force: true });
+    log(`🗑️ Deleted event ${name}`);
+  }
+
+  /**
+   * Suggests an unused name based on an existing one (e.g. "default-copy-2")
+   */
+  static uniqueName(lambdaDir: string, base: string): string {
+    const names = new Set(this.list(lambdaDir));
+    if (!names.has(base)) {
+      return base;
+    }
+    let counter = 2;
+    while (names.has(`${base}-${counter}`)) {
+      counter++;
+    }
+    return `${base}-${counter}`;
+  }
+
+  private static migrateLegacyEvent(lambdaDir: string): void {
+    const legacyPath = path.join(lambdaDir, LEGACY_EVENT_FILE);
+    const defaultPath = this.getEventPath(lambdaDir, this.DEFAULT_EVENT);
+    if (!fs.existsSync(legacyPath) || fs.existsSync(defaultPath)) {
+      return;
+    }
+    this.ensureEventsDir(lambdaDir);
+    fs.renameSync(legacyPath, defaultPath);
+    log(`📦 Moved ${legacyPath} to ${defaultPath}`);
+  }
+
+  private static ensureEventsDir(lambdaDir: string): void {
+    const eventsDir = this.getEventsDir(lambdaDir);
+    if (!fs.existsSync(eventsDir)) {
+      fs.mkdirSync(eventsDir, { recursive: true });
+    }
+  }
+
+  private static writeTemplate(eventPath: string, eventType: string): void {
+    const eventTemplate = EventTemplates.getTemplate(eventType);
+    fs.writeFileSync(eventPath, JSON.stringify(eventTemplate, null, 2));
+    log(`📝 Created event file at: ${eventPath}`);
+  }
+}
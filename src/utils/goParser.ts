@@ -0,0 +1,488 @@
+import * as fs from "fs";
+import * as path from "path";
+import { GoEntryPoint, GoHandlerInfo } from "./types";
+import { EventKinds } from "./eventKinds";
+
+export interface GoSourceFile {
+  file: string;
+  /** Source with comments blanked out, string literals kept */
+  text: string;
+  /** Same as `text` with string and rune literal contents blanked out */
+  code: string;
+}
+
+interface GoFunction {
+  name: string;
+  receiver: string | null;
+  params: string[];
+  results: string[];
+  file: string;
+  line: number;
+}
+
+export interface GoEntryCall {
+  entryPoint: GoEntryPoint;
+  file: GoSourceFile;
+  expression: string;
+  packageFiles: GoSourceFile[];
+}
+
+/**
+ * Lightweight Go source analysis, good enough to locate the handler passed to
+ * lambda.Start and read its signature without a Go toolchain.
+ */
+export class GoParser {
+  static readonly DEFAULT_ENTRY_POINTS: GoEntryPoint[] = [
+    {
+      importPath: "github.com/aws/aws-lambda-go/lambda",
+      functions: [
+        "Start",
+        "StartWithOptions",
+        "StartHandler",
+        "StartHandlerFunc",
+      ],
+    },
+    {
+      importPath: "github.com/aws/aws-lambda-go/lambdaurl",
+      functions: ["Start"],
+      eventType: "functionurl",
+    },
+  ];
+
+  /**
+   * Finds the Lambda entry call (e.g. `lambda.Start(handler)`) of the `main`
+   * package that contains `sourceFile`, looking at every file of the package.
+   * `content` overrides the file contents on disk, so unsaved editor buffers
+   * can be analysed.
+   */
+  static findEntryCall(
+    sourceFile: string,
+    content?: string,
+    entryPoints: GoEntryPoint[] = this.DEFAULT_ENTRY_POINTS
+  ): GoEntryCall | null {
+    const ownFile = this.loadFile(sourceFile, content);
+    const packageName = this.parsePackageName(ownFile.text);
+    if (packageName !== "main") {
+      return null;
+    }
+    const packageFiles = [
+      ownFile,
+      ...this.loadPackageFiles(sourceFile, packageName),
+    ];
+
+    for (const file of packageFiles) {
+      const imports = this.parseImports(file.text);
+      for (const alias of Object.keys(imports)) {
+        for (const entryPoint of entryPoints) {
+          if (imports[alias] !== entryPoint.importPath) {
+            continue;
+          }
+          const args = this.findCallArguments(
+            file,
+            entryPoint.functions.map((fn) => `${alias}.${fn}`)
+          );
+          if (args.length > 0) {
+            return { entryPoint, file, expression: args[0], packageFiles };
+          }
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Finds the handler passed to the Lambda entry call and resolves its input
+   * and response types
+   */
+  static findHandler(
+    sourceFile: string,
+    content?: string,
+    entryPoints: GoEntryPoint[] = this.DEFAULT_ENTRY_POINTS
+  ): GoHandlerInfo | null {
+    const entryCall = this.findEntryCall(sourceFile, content, entryPoints);
+    if (!entryCall) {
+      return null;
+    }
+    const handler = this.resolveHandler(
+      entryCall.expression,
+      entryCall.file,
+      entryCall.packageFiles
+    );
+    handler.eventType =
+      handler.eventType || entryCall.entryPoint.eventType || null;
+    return handler;
+  }
+
+  static parsePackageName(text: string): string | null {
+    const match = /^\s*package\s+([A-Za-z_]\w*)/m.exec(text);
+    return match ? match[1] : null;
+  }
+
+  /**
+   * Returns the imports of a file keyed by their local name
+   */
+  static parseImports(text: string): { [alias: string]: string } {
+    const imports: { [alias: string]: string } = {};
+    const addImport = (spec: string) => {
+      const match = /^\s*([A-Za-z_]\w*|\.|_)?\s*["`]([^"`]+)["`]/.exec(spec);
+      if (!match) {
+        return;
+      }
+      const importPath = match[2];
+      const alias = match[1] || importPath.split("/").pop()!;
+      imports[alias] = importPath;
+    };
+
+    const blockPattern = /\bimport\s*\(([\s\S]*?)\)/g;
+    let match: RegExpExecArray | null;
+    while ((match = blockPattern.exec(text))) {
+      match[1].split("\n").forEach(addImport);
+    }
+    const singlePattern = /\bimport\s+((?:[A-Za-z_]\w*|\.|_)?\s*["`][^"`]+["`])/g;
+    while ((match = singlePattern.exec(text))) {
+      addImport(match[1]);
+    }
+    return imports;
+  }
+
+  /**
+   * Returns the source of the first argument of every call to one of the
+   * given qualified functions (e.g. `lambda.Start`).
+   */
+  static findCallArguments(file: GoSourceFile, callees: string[]): string[] {
+    const args: string[] = [];
+    for (const callee of callees) {
+      const pattern = new RegExp(
+        `(^|[^\\w.])${callee.replace(/\./g, "\\s*\\.\\s*")}\\s*\\(`,
+        "g"
+      );
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(file.code))) {
+        const open = match.index + match[0].length - 1;
+        const close = this.findClosing(file.code, open);
+        if (close < 0) {
+          continue;
+        }
+        const first = this.splitTopLevel(file.code.slice(open + 1, close))[0];
+        if (first && first.trim()) {
+          args.push(file.text.substr(open + 1, first.length).trim());
+        }
+      }
+    }
+    return args;
+  }
+
+  static loadFile(file: string, content?: string): GoSourceFile {
+    const text = this.stripComments(
+      content !== undefined ? content : fs.readFileSync(file, "utf8")
+    );
+    return { file, text, code: this.maskLiterals(text) };
+  }
+
+  /**
+   * Loads the other non-test files of the same Go package as `sourceFile`
+   */
+  static loadPackageFiles(
+    sourceFile: string,
+    packageName: string | null
+  ): GoSourceFile[] {
+    const dir = path.dirname(sourceFile);
+    const files: GoSourceFile[] = [];
+    try {
+      for (const name of fs.readdirSync(dir)) {
+        const file = path.join(dir, name);
+        if (
+          !name.endsWith(".go") ||
+          name.endsWith("_test.go") ||
+          file === sourceFile
+        ) {
+          continue;
+        }
+        const loaded = this.loadFile(file);
+        if (this.parsePackageName(loaded.text) === packageName) {
+          files.push(loaded);
+        }
+      }
+    } catch {
+      // Directory not readable, analyse the single file only
+    }
+    return files;
+  }
+
+  private static resolveHandler(
+    expression: string,
+    entryFile: GoSourceFile,
+    allFiles: GoSourceFile[]
+  ): GoHandlerInfo {
+    const expr = expression.trim();
+    const info: GoHandlerInfo = {
+      handlerName: expr,
+      file: entryFile.file,
+      line: 0,
+      inputType: null,
+      outputType: null,
+      eventType: null,
+    };
+
+    let fn: GoFunction | undefined;
+    if (/^func\s*\(/.test(expr)) {
+      // Inline function literal
+      fn = this.parseFunctionsIn({
+        file: entryFile.file,
+        text: `func __literal${expr.slice(4)}`,
+        code: this.maskLiterals(`func __literal${expr.slice(4)}`),
+      })[0];
+      if (fn) {
+        const offset = Math.max(0, entryFile.text.indexOf(expr));
+        fn.line = entryFile.text.slice(0, offset).split("\n").length - 1;
+      }
+      info.handlerName = "func literal";
+    } else {
+      const callMatch = /^([\w.]+)\s*\(([\s\S]*)\)$/.exec(expr);
+      const valueMatch = /(?:^|\.)([A-Za-z_]\w*)$/.exec(expr);
+      if (callMatch) {
+        // Wrapped handler, e.g. otellambda.InstrumentHandler(handler)
+        const inner = this.splitTopLevel(this.maskLiterals(callMatch[2]))[0];
+        if (inner && inner.trim()) {
+          return this.resolveHandler(
+            callMatch[2].substr(0, inner.length),
+            entryFile,
+            allFiles
+          );
+        }
+        return info;
+      }
+      if (valueMatch) {
+        const name = valueMatch[1];
+        const isMethod = expr.includes(".");
+        const functions = allFiles.flatMap((file) =>
+          this.parseFunctionsIn(file)
+        );
+        fn =
+          functions.find(
+            (candidate) =>
+              candidate.name === name && !!candidate.receiver === isMethod
+          ) || functions.find((candidate) => candidate.name === name);
+        info.handlerName = name;
+      }
+    }
+
+    if (!fn) {
+      return info;
+    }
+
+    const aliases = this.parseTypeAliases(allFiles);
+    const resolve = (type: string) => aliases[type.replace(/^\*/, "")] || type;
+    const input = [...fn.params]
+      .reverse()
+      .find((type) => type !== "context.Context");
+    const output = fn.results.find((type) => type !== "error");
+
+    info.file = fn.file;
+    info.line = fn.line;
+    info.inputType = input ? resolve(input) : null;
+    info.outputType = output ? resolve(output) : null;
+    info.eventType =
+      (info.inputType && EventKinds.fromGoType(info.inputType)?.id) ||
+      (info.outputType && EventKinds.fromGoType(info.outputType)?.id) ||
+      null;
+    return info;
+  }
+
+  private static parseFunctionsIn(file: GoSourceFile): GoFunction[] {
+    const functions: GoFunction[] = [];
+    const pattern =
+      /\bfunc\s*(\(([^()]*)\))?\s*([A-Za-z_]\w*)\s*(\[[^\]]*\])?\s*\(/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(file.code))) {
+      const open = match.index + match[0].length - 1;
+      const close = this.findClosing(file.code, open);
+      if (close < 0) {
+        continue;
+      }
+      const params = this.parseParameterTypes(
+        file.text.slice(open + 1, close)
+      );
+
+      let results: string[] = [];
+      const rest = file.code.slice(close + 1);
+      const leading = rest.length - rest.trimStart().length;
+      if (rest.trimStart().startsWith("(")) {
+        const resultsOpen = close + 1 + leading;
+        const resultsClose = this.findClosing(file.code, resultsOpen);
+        if (resultsClose > 0) {
+          results = this.parseParameterTypes(
+            file.text.slice(resultsOpen + 1, resultsClose)
+          );
+        }
+      } else {
+        const single = /^[ \t]*([^{\n]*?)\s*\{/.exec(rest);
+        if (single && single[1]) {
+          results = [single[1].trim()];
+        }
+      }
+
+      functions.push({
+        name: match[3],
+        receiver: match[2] ? match[2].trim() : null,
+        params,
+        results,
+        file: file.file,
+        line: file.code.slice(0, match.index).split("\n").length - 1,
+      });
+    }
+    return functions;
+  }
+
+  /**
+   * Turns a Go parameter list into its types, handling both named
+   * (`ctx context.Context, a, b int`) and unnamed (`context.Context, int`) forms.
+   */
+  private static parseParameterTypes(list: string): string[] {
+    const parts = this.splitTopLevel(this.maskLiterals(list))
+      .map((part) => part.trim())
+      .filter((part) => part.length > 0);
+    const named = parts.some((part) => /^[A-Za-z_]\w*\s+\S/.test(part));
+    if (!named) {
+      return parts;
+    }
+    const types: string[] = [];
+    let pendingNames = 0;
+    for (const part of parts) {
+      const match = /^[A-Za-z_]\w*\s+([\s\S]+)$/.exec(part);
+      if (match) {
+        const type = match[1].trim();
+        for (let i = 0; i <= pendingNames; i++) {
+          types.push(type);
+        }
+        pendingNames = 0;
+      } else {
+        pendingNames++;
+      }
+    }
+    return types;
+  }
+
+  private static parseTypeAliases(files: GoSourceFile[]): {
+    [name: string]: string;
+  } {
+    const aliases: { [name: string]: string } = {};
+    const pattern = /\btype\s+([A-Za-z_]\w*)\s*=?\s*(\*?[A-Za-z_][\w.]*)\s*$/gm;
+    for (const file of files) {
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(file.code))) {
+        if (match[2].includes(".")) {
+          aliases[match[1]] = match[2];
+        }
+      }
+    }
+    return aliases;
+  }
+
+  private static splitTopLevel(text: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = "";
+    for (const char of text) {
+      if ("([{".includes(char)) {
+        depth++;
+      } else if (")]}".includes(char)) {
+        depth--;
+      }
+      if (char === "," && depth === 0) {
+        parts.push(current);
+        current = "";
+      } else {
+        current += char;
+      }
+    }
+    parts.push(current);
+    return parts;
+  }
+
+  private static findClosing(code: string, openIndex: number): number {
+    const open = code[openIndex];
+    const close = open === "(" ? ")" : open === "[" ? "]" : "}";
+    let depth = 0;
+    for (let i = openIndex; i < code.length; i++) {
+      if (code[i] === open) {
+        depth++;
+      } else if (code[i] === close) {
+        depth--;
+        if (depth === 0) {
+          return i;
+        }
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Replaces comments with spaces, keeping line breaks so offsets and line
+   * numbers still match the original source.
+   */
+  static stripComments(source: string): string {
+    let result = "";
+    let i = 0;
+    while (i < source.length) {
+      const char = source[i];
+      const next = source[i + 1];
+      if (char === "/" && next === "/") {
+        while (i < source.length && source[i] !== "\n") {
+          result += " ";
+          i++;
+        }
+      } else if (char === "/" && next === "*") {
+        const end = source.indexOf("*/", i + 2);
+        const stop = end < 0 ? source.length : end + 2;
+        result += source.slice(i, stop).replace(/[^\n]/g, " ");
+        i = stop;
+      } else if (char === '"' || char === "'" || char === "`") {
+        const stop = this.literalEnd(source, i);
+        result += source.slice(i, stop);
+        i = stop;
+      } else {
+        result += char;
+        i++;
+      }
+    }
+    return result;
+  }
+
+  private static maskLiterals(text: string): string {
+    let result = "";
+    let i = 0;
+    while (i < text.length) {
+      const char = text[i];
+      if (char === '"' || char === "'" || char === "`") {
+        const stop = this.literalEnd(text, i);
+        const body = text.slice(i + 1, Math.max(i + 1, stop - 1));
+        result += char + body.replace(/[^\n]/g, " ");
+        if (stop - 1 > i) {
+          result += text[stop - 1];
+        }
+        i = stop;
+      } else {
+        result += char;
+        i++;
+      }
+    }
+    return result;
+  }
+
+  private static literalEnd(source: string, start: number): number {
+    const quote = source[start];
+    let i = start + 1;
+    while (i < source.length) {
+      if (quote !== "`" && source[i] === "\\") {
+        i += 2;
+        continue;
+      }
+      if (source[i] === quote || (quote !== "`" && source[i] === "\n")) {
+        return i + 1;
+      }
+      i++;
+    }
+    return source.length;
+  }
+}
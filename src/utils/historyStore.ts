@@ -0,0 +1,135 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import { InvocationRecord } from "./types";
+import { log, logError } from "../logger";
+
+const HISTORY_DIR = "history";
+const RECORD_FILE = "record.json";
+const RESPONSE_FILE = "response.json";
+const DEFAULT_MAX_ENTRIES = 50;
+
+/**
+ * Per-function history of invocations, stored as
+ * `history/<id>/record.json` (metadata and logs) and
+ * `history/<id>/response.json` in the lambda's workspace directory.
+ */
+export class HistoryStore {
+  static getHistoryDir(lambdaDir: string): string {
+    return path.join(lambdaDir, HISTORY_DIR);
+  }
+
+  static getResponsePath(lambdaDir: string, id: string): string {
+    return path.join(this.getHistoryDir(lambdaDir), id, RESPONSE_FILE);
+  }
+
+  /**
+   * Stores an invocation and drops the oldest ones beyond
+   * `gecko.history.maxEntries`
+   */
+  static add(
+    lambdaDir: string,
+    entry: Omit<InvocationRecord, "id" | "timestamp">,
+    response: any
+  ): InvocationRecord {
+    const timestamp = new Date().toISOString();
+    const record: InvocationRecord = {
+      id: this.uniqueId(lambdaDir, timestamp.replace(/[:.]/g, "-")),
+      timestamp,
+      ...entry,
+    };
+    const recordDir = path.join(this.getHistoryDir(lambdaDir), record.id);
+    fs.mkdirSync(recordDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(recordDir, RECORD_FILE),
+      JSON.stringify(record, null, 2)
+    );
+    fs.writeFileSync(
+      path.join(recordDir, RESPONSE_FILE),
+      JSON.stringify(response ?? null, null, 2)
+    );
+    log(`🕘 Invocation recorded in history: ${record.id}`);
+
+    const maxEntries =
+      vscode.workspace
+        .getConfiguration("gecko.history")
+        .get<number>("maxEntries") || DEFAULT_MAX_ENTRIES;
+    this.list(lambdaDir)
+      .slice(maxEntries)
+      .forEach((old) => this.delete(lambdaDir, old.id));
+    return record;
+  }
+
+  /**
+   * Lists the recorded invocations, newest first
+   */
+  static list(lambdaDir: string): InvocationRecord[] {
+    const historyDir = this.getHistoryDir(lambdaDir);
+    if (!fs.existsSync(historyDir)) {
+      return [];
+    }
+    const records: InvocationRecord[] = [];
+    for (const id of fs.readdirSync(historyDir)) {
+      const recordPath = path.join(historyDir, id, RECORD_FILE);
+      if (!fs.existsSync(recordPath)) {
+        continue;
+      }
+      try {
+        records.push(JSON.parse(fs.readFileSync(recordPath, "utf8")));
+      } catch (error) {
+        logError(`Could not read history record ${recordPath}`, error);
+      }
+    }
+    return records.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  }
+
+  /**
+   * Response of a run, or undefined when its entry was pruned or can't be read
+   */
+  static loadResponse(lambdaDir: string, id: string): any {
+    const responsePath = this.getResponsePath(lambdaDir, id);
+    if (!fs.existsSync(responsePath)) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(fs.readFileSync(responsePath, "utf8"));
+    } catch (error) {
+      logError(`Could not read history response ${responsePath}`, error);
+      return undefined;
+    }
+  }
+
+  static get(lambdaDir: string, id: string): InvocationRecord | undefined {
+    return this.list(lambdaDir).find((record) => record.id === id);
+  }
+
+  /**
+   * The run recorded just before the given one, if any
+   */
+  static previous(lambdaDir: string, id: string): InvocationRecord | undefined {
+    const records = this.list(lambdaDir);
+    const index = records.findIndex((record) => record.id === id);
+    return index >= 0 ? records[index + 1] : undefined;
+  }
+
+  static delete(lambdaDir: string, id: string): void {
+    fs.rmSync(path.join(this.getHistoryDir(lambdaDir), id), {
+      recursive: true,
+      force: true,
+    });
+  }
+
+  static clear(lambdaDir: string): void {
+    fs.rmSync(this.getHistoryDir(lambdaDir), { recursive: true, force: true });
+    log(`🧹 History cleared: ${lambdaDir}`);
+  }
+
+  private static uniqueId(lambdaDir: string, base: string): string {
+    let id = base;
+    let counter = 2;
+    while (fs.existsSync(path.join(this.getHistoryDir(lambdaDir), id))) {
+      id = `${base}-${counter++}`;
+    }
+    return id;
+  }
+}
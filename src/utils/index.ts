@@ -1,7 +1,19 @@
 export * from "./types";
 export * from "./configManager";
 export * from "./templateManager";
+export * from "./templateIO";
+export * from "./templateValidator";
+export * from "./eventKinds";
 export * from "./eventTemplates";
+export * from "./eventStore";
+export * from "./historyStore";
+export * from "./invocationOutput";
+export * from "./jsonPath";
+export * from "./snapshotStore";
+export * from "./assertionStore";
 export * from "./stringUtils";
 export * from "./buildUtils";
+export * from "./zipWriter";
+export * from "./goParser";
 export * from "./awsUtils";
+export * from "./curlBuilder";
@@ -0,0 +1,249 @@
+import * as fs from "fs";
+import * as path from "path";
+import { HistoryStore } from "./historyStore";
+import {
+  InvocationError,
+  InvocationRecord,
+  InvocationReport,
+  InvocationResult,
+} from "./types";
+import { log } from "../logger";
+
+const START_LINE = /START RequestId: (\S+)/;
+const END_LINE = /END RequestId: \S+/;
+const REPORT_LINE = /REPORT RequestId: \S+/;
+const REPORT_FIGURE = /([A-Za-z][A-Za-z ]*): ([\d.]+) (ms|MB)/g;
+
+/**
+ * Keys of the error object a runtime returns instead of a payload
+ */
+const ERROR_KEYS = ["errorType", "errorMessage", "stackTrace", "cause"];
+
+/**
+ * Splits what an invocation printed into the returned payload, the function
+ * logs and the figures of the `REPORT` line
+ */
+export class InvocationOutput {
+  /**
+   * `sam local invoke` prints the payload on stdout and the container output
+   * on stderr, where the function logs sit between the START and END lines
+   */
+  static fromSam(
+    stdout: string,
+    stderr: string,
+    durationMs: number,
+    exitCode: number | null = 0
+  ): InvocationResult {
+    const logs: string[] = [];
+    const runnerOutput: string[] = [];
+    let requestId = "";
+    let report: InvocationReport | undefined;
+    let inFunction = false;
+
+    for (const line of stderr.split(/\r?\n/)) {
+      const start = START_LINE.exec(line);
+      if (start) {
+        requestId = start[1];
+        inFunction = true;
+        continue;
+      }
+      const end = END_LINE.exec(line);
+      if (inFunction && end) {
+        // Logs without a trailing newline end up on the END line
+        if (end.index > 0) {
+          logs.push(line.slice(0, end.index));
+        }
+        inFunction = false;
+        continue;
+      }
+      const figures = this.parseReport(line);
+      if (figures) {
+        report = figures;
+        inFunction = false;
+        continue;
+      }
+      (inFunction ? logs : runnerOutput).push(line);
+    }
+
+    const { payload, rawPayload } = this.parsePayload(stdout);
+    const error = this.toError(payload);
+    return {
+      requestId,
+      payload: error ? undefined : payload,
+      rawPayload,
+      error,
+      logs: logs.join("\n").trim(),
+      durationMs,
+      exitCode,
+      report,
+      runnerOutput: runnerOutput.join("\n").trim(),
+    };
+  }
+
+  /**
+   * Reads the payload from stdout: the whole output if it is JSON, otherwise
+   * its last JSON line, otherwise the raw text
+   */
+  static parsePayload(stdout: string): { payload: any; rawPayload: string } {
+    const trimmed = stdout.trim();
+    const candidates = [
+      trimmed,
+      trimmed
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter((line) => line)
+        .pop() || "",
+    ];
+    for (const candidate of candidates) {
+      try {
+        return { payload: JSON.parse(candidate), rawPayload: candidate };
+      } catch {
+        continue;
+      }
+    }
+    return { payload: trimmed, rawPayload: trimmed };
+  }
+
+  /**
+   * Reads a `REPORT RequestId: ... Duration: 1.23 ms Billed Duration: 2 ms
+   * Memory Size: 128 MB Max Memory Used: 20 MB Init Duration: 50.1 ms` line
+   */
+  static parseReport(line: string): InvocationReport | undefined {
+    const report = REPORT_LINE.exec(line);
+    if (!report) {
+      return undefined;
+    }
+    const figures: { [label: string]: number } = {};
+    for (const [, label, value] of line
+      .slice(report.index + report[0].length)
+      .matchAll(REPORT_FIGURE)) {
+      figures[label.trim()] = Number(value);
+    }
+    if (figures["Duration"] === undefined) {
+      return undefined;
+    }
+    return {
+      durationMs: figures["Duration"],
+      billedDurationMs:
+        figures["Billed Duration"] ?? Math.ceil(figures["Duration"]),
+      memorySizeMb: figures["Memory Size"],
+      maxMemoryUsedMb: figures["Max Memory Used"],
+      initDurationMs: figures["Init Duration"],
+    };
+  }
+
+  /**
+   * Writes a report the way Lambda logs it
+   */
+  static formatReport(requestId: string, report: InvocationReport): string {
+    return [
+      `REPORT RequestId: ${requestId}`,
+      `Duration: ${report.durationMs.toFixed(2)} ms`,
+      `Billed Duration: ${report.billedDurationMs} ms`,
+      report.memorySizeMb !== undefined
+        ? `Memory Size: ${report.memorySizeMb} MB`
+        : "",
+      report.maxMemoryUsedMb !== undefined
+        ? `Max Memory Used: ${report.maxMemoryUsedMb} MB`
+        : "",
+      report.initDurationMs !== undefined
+        ? `Init Duration: ${report.initDurationMs.toFixed(2)} ms`
+        : "",
+    ]
+      .filter((field) => field)
+      .join("\t");
+  }
+
+  /**
+   * Writes the outcome to the lambda's response.json and records it in the
+   * history
+   */
+  static save(
+    lambdaDir: string,
+    eventName: string,
+    mode: string,
+    result: InvocationResult
+  ): { record: InvocationRecord; response: any } {
+    const response = this.toResponse(result);
+    const responseFilePath = path.join(lambdaDir, "response.json");
+    fs.writeFileSync(responseFilePath, JSON.stringify(response, null, 2));
+    log(`📄 Response saved to: ${responseFilePath} (${result.durationMs} ms)`);
+    const record = HistoryStore.add(
+      lambdaDir,
+      this.toRecord(result, eventName, mode),
+      response
+    );
+    return { record, response };
+  }
+
+  /**
+   * What response.json holds: the payload, or the error object the runtime
+   * returned instead
+   */
+  static toResponse(result: InvocationResult): any {
+    if (!result.error) {
+      return result.payload ?? null;
+    }
+    const { errorType, errorMessage, stackTrace } = result.error;
+    return stackTrace === undefined
+      ? { errorType, errorMessage }
+      : { errorType, errorMessage, stackTrace };
+  }
+
+  /**
+   * Parses the JSON string body of an API proxy response, leaving other
+   * responses and bodies as they are
+   */
+  static decodeBody(response: any): any {
+    if (
+      !response ||
+      typeof response !== "object" ||
+      typeof response.statusCode !== "number" ||
+      typeof response.body !== "string" ||
+      response.isBase64Encoded
+    ) {
+      return response;
+    }
+    try {
+      return { ...response, body: JSON.parse(response.body) };
+    } catch {
+      return response;
+    }
+  }
+
+  private static toRecord(
+    result: InvocationResult,
+    eventName: string,
+    mode: string
+  ): Omit<InvocationRecord, "id" | "timestamp"> {
+    return {
+      eventName,
+      mode,
+      durationMs: result.durationMs,
+      status: result.error ? "error" : "success",
+      exitCode: result.exitCode,
+      error: result.error,
+      logs: result.logs,
+      requestId: result.requestId || undefined,
+      report: result.report,
+      runnerOutput: result.runnerOutput || undefined,
+    };
+  }
+
+  private static toError(payload: any): InvocationError | undefined {
+    if (
+      !payload ||
+      typeof payload !== "object" ||
+      Array.isArray(payload) ||
+      typeof payload.errorMessage !== "string" ||
+      !Object.keys(payload).every((key) => ERROR_KEYS.includes(key))
+    ) {
+      return undefined;
+    }
+    return {
+      errorType: payload.errorType || "Unhandled",
+      errorMessage: payload.errorMessage,
+      stackTrace: payload.stackTrace,
+    };
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Simple JSON paths such as `$.body.items[*].createdAt`: `*` matches any key
+ * or index and `**` any number of levels.
+ */
+export class JsonPath {
+  static parse(jsonPath: string): string[] {
+    return jsonPath
+      .trim()
+      .replace(/^\$\.?/, "")
+      .replace(/\[(\*|\d+)\]/g, ".$1")
+      .split(".")
+      .filter((segment) => segment);
+  }
+
+  /**
+   * Values at a path, in document order. Paths without wildcards select at
+   * most one value.
+   */
+  static select(value: any, jsonPath: string): any[] {
+    const selected: any[] = [];
+    const visit = (current: any, segments: string[]) => {
+      if (segments.length === 0) {
+        selected.push(current);
+        return;
+      }
+      const [segment, ...rest] = segments;
+      if (segment === "**") {
+        visit(current, rest);
+        this.children(current).forEach(([, child]) => visit(child, segments));
+        return;
+      }
+      for (const [key, child] of this.children(current)) {
+        if (segment === "*" || segment === key) {
+          visit(child, rest);
+        }
+      }
+    };
+    visit(value, this.parse(jsonPath));
+    return selected;
+  }
+
+  /**
+   * Copy of a value with everything at a path replaced
+   */
+  static replace(value: any, jsonPath: string, replacement: any): any {
+    const replaceAt = (current: any, segments: string[]): any => {
+      if (segments.length === 0) {
+        return replacement;
+      }
+      const [segment, ...rest] = segments;
+      if (segment === "**") {
+        return this.mapChildren(replaceAt(current, rest), (child) =>
+          replaceAt(child, segments)
+        );
+      }
+      return this.mapChildren(current, (child, key) =>
+        segment === "*" || segment === key ? replaceAt(child, rest) : child
+      );
+    };
+    return replaceAt(value, this.parse(jsonPath));
+  }
+
+  private static children(value: any): [string, any][] {
+    if (Array.isArray(value)) {
+      return value.map((child, index) => [String(index), child]);
+    }
+    if (value === null || typeof value !== "object") {
+      return [];
+    }
+    return Object.entries(value);
+  }
+
+  private static mapChildren(
+    value: any,
+    map: (child: any, key: string) => any
+  ): any {
+    if (Array.isArray(value)) {
+      return value.map((child, index) => map(child, String(index)));
+    }
+    if (value === null || typeof value !== "object") {
+      return value;
+    }
+    const result: { [key: string]: any } = {};
+    for (const [key, child] of Object.entries(value)) {
+      result[key] = map(child, key);
+    }
+    return result;
+  }
+}
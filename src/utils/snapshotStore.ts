@@ -0,0 +1,131 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import { LocalLambdaConfig, SnapshotComparison } from "./types";
+import { InvocationOutput } from "./invocationOutput";
+import { JsonPath } from "./jsonPath";
+import { log } from "../logger";
+
+const SNAPSHOTS_DIR = "snapshots";
+const IGNORED = "<ignored>";
+
+/**
+ * Expected responses of a lambda's test events, stored as
+ * `snapshots/<event>.json` in its workspace directory.
+ */
+export class SnapshotStore {
+  static getSnapshotsDir(lambdaDir: string): string {
+    return path.join(lambdaDir, SNAPSHOTS_DIR);
+  }
+
+  static getSnapshotPath(lambdaDir: string, eventName: string): string {
+    return path.join(this.getSnapshotsDir(lambdaDir), `${eventName}.json`);
+  }
+
+  static exists(lambdaDir: string, eventName: string): boolean {
+    return fs.existsSync(this.getSnapshotPath(lambdaDir, eventName));
+  }
+
+  /**
+   * Lists the events that have an expected response
+   */
+  static list(lambdaDir: string): string[] {
+    const snapshotsDir = this.getSnapshotsDir(lambdaDir);
+    if (!fs.existsSync(snapshotsDir)) {
+      return [];
+    }
+    return fs
+      .readdirSync(snapshotsDir)
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => file.slice(0, -".json".length))
+      .sort((a, b) => a.localeCompare(b));
+  }
+
+  static save(lambdaDir: string, eventName: string, response: any): string {
+    const snapshotPath = this.getSnapshotPath(lambdaDir, eventName);
+    fs.mkdirSync(path.dirname(snapshotPath), { recursive: true });
+    fs.writeFileSync(snapshotPath, JSON.stringify(response ?? null, null, 2));
+    log(`📸 Saved the expected response of ${eventName}: ${snapshotPath}`);
+    return snapshotPath;
+  }
+
+  static load(lambdaDir: string, eventName: string): any {
+    return JSON.parse(
+      fs.readFileSync(this.getSnapshotPath(lambdaDir, eventName), "utf8")
+    );
+  }
+
+  /**
+   * Keeps the snapshot with its event when the event is renamed
+   */
+  static rename(lambdaDir: string, eventName: string, newName: string): void {
+    if (this.exists(lambdaDir, eventName)) {
+      fs.renameSync(
+        this.getSnapshotPath(lambdaDir, eventName),
+        this.getSnapshotPath(lambdaDir, newName)
+      );
+    }
+  }
+
+  static delete(lambdaDir: string, eventName: string): void {
+    fs.rmSync(this.getSnapshotPath(lambdaDir, eventName), { force: true });
+  }
+
+  /**
+   * Paths from `gecko.snapshots.ignorePaths` and the function's
+   * `snapshotIgnore` metadata
+   */
+  static getIgnorePaths(localConfig: LocalLambdaConfig): string[] {
+    const global =
+      vscode.workspace
+        .getConfiguration("gecko.snapshots")
+        .get<string[]>("ignorePaths") || [];
+    return [...new Set([...global, ...(localConfig.snapshotIgnore || [])])];
+  }
+
+  /**
+   * Compares a response with the snapshot of its event. JSON string bodies of
+   * API responses are compared decoded, key order doesn't matter and values
+   * at ignored paths are masked on both sides.
+   */
+  static compare(
+    expected: any,
+    actual: any,
+    ignorePaths: string[]
+  ): SnapshotComparison {
+    const [expectedText, actualText] = [expected, actual].map((response) =>
+      this.format(
+        ignorePaths.reduce(
+          (masked, ignorePath) => JsonPath.replace(masked, ignorePath, IGNORED),
+          InvocationOutput.decodeBody(response)
+        )
+      )
+    );
+    return {
+      passed: expectedText === actualText,
+      expected: expectedText,
+      actual: actualText,
+    };
+  }
+
+  /**
+   * Pretty JSON with sorted keys, so equal values always read the same
+   */
+  static format(value: any): string {
+    return JSON.stringify(this.sortKeys(value), null, 2) ?? "undefined";
+  }
+
+  private static sortKeys(value: any): any {
+    if (Array.isArray(value)) {
+      return value.map((child) => this.sortKeys(child));
+    }
+    if (value === null || typeof value !== "object") {
+      return value;
+    }
+    const sorted: { [key: string]: any } = {};
+    for (const key of Object.keys(value).sort()) {
+      sorted[key] = this.sortKeys(value[key]);
+    }
+    return sorted;
+  }
+}
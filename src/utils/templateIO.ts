@@ -0,0 +1,414 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  Document,
+  isAlias,
+  isMap,
+  isNode,
+  isScalar,
+  isSeq,
+  parseDocument,
+  Scalar,
+  ToStringOptions,
+  visit,
+} from "yaml";
+import { TemplateLocation, TemplatePath } from "./types";
+import { LambdaIndex } from "../lambdaIndex";
+
+/**
+ * CloudFormation intrinsic functions with a YAML short form (`!Ref`, `!Sub`...)
+ */
+const INTRINSIC_FUNCTIONS = [
+  "Ref",
+  "Condition",
+  "Base64",
+  "Cidr",
+  "FindInMap",
+  "GetAtt",
+  "GetAZs",
+  "ImportValue",
+  "Join",
+  "Length",
+  "Select",
+  "Split",
+  "Sub",
+  "ToJsonString",
+  "Transform",
+  "And",
+  "Equals",
+  "If",
+  "Not",
+  "Or",
+];
+
+/**
+ * Tagged nodes are kept as they are in the document, so they are written back
+ * in short form. `TemplateIO.toJS` turns them into their JSON form.
+ */
+const CLOUDFORMATION_TAGS: any[] = INTRINSIC_FUNCTIONS.flatMap((name) => [
+  { tag: `!${name}`, resolve: (value: string) => value },
+  { tag: `!${name}`, collection: "seq", resolve: (value: unknown) => value },
+  { tag: `!${name}`, collection: "map", resolve: (value: unknown) => value },
+]);
+
+/**
+ * Strings that YAML 1.1 parsers (PyYAML in the SAM CLI, CloudFormation) read
+ * as booleans, timestamps or sexagesimal numbers, so they need quotes
+ */
+const YAML_1_1_AMBIGUOUS =
+  /^(y|yes|n|no|true|false|on|off|\d{4}-\d\d?-\d\d?([Tt ].*)?|[-+]?\d[\d_]*(:[0-5]?\d)+(\.[\d_]*)?)$/i;
+
+const TEMPLATE_FILE = "template.yaml";
+
+const WRITE_OPTIONS: ToStringOptions = {
+  lineWidth: 0,
+  flowCollectionPadding: false,
+};
+
+/**
+ * Reads and writes template.yaml. Parsing understands the CloudFormation
+ * short-form tags, and updates edit the parsed document in place so comments,
+ * key order and formatting of untouched parts are kept.
+ */
+export class TemplateIO {
+  static getTemplatePath(lambdaDir: string): string {
+    return this.locate(lambdaDir).templatePath;
+  }
+
+  /**
+   * Finds the template of a lambda directory. Functions of a multi-function
+   * stack live in `<stack>/<LogicalId>/` next to the stack's template.yaml.
+   */
+  static locate(lambdaDir: string): TemplateLocation {
+    const own = path.join(lambdaDir, TEMPLATE_FILE);
+    const stackDir = path.dirname(lambdaDir);
+    const stackTemplate = path.join(stackDir, TEMPLATE_FILE);
+    const logicalId = path.basename(lambdaDir);
+    if (
+      !fs.existsSync(own) &&
+      /^[A-Za-z0-9]+$/.test(logicalId) &&
+      fs.existsSync(stackTemplate)
+    ) {
+      return { templatePath: stackTemplate, stackDir, logicalId };
+    }
+    return { templatePath: own, stackDir: lambdaDir };
+  }
+
+  /**
+   * Parses template content into plain objects, with intrinsic functions in
+   * their JSON form (`{ Ref: "Bucket" }`, `{ "Fn::GetAtt": ["Table", "Arn"] }`)
+   */
+  static parse(content: string): any {
+    const document = this.parseDocument(content);
+    return this.toJS(document, document.contents);
+  }
+
+  static load(lambdaDir: string): any {
+    const templatePath = this.getTemplatePath(lambdaDir);
+    if (!fs.existsSync(templatePath)) {
+      throw new Error(`Template file not found: ${templatePath}`);
+    }
+    return this.parse(fs.readFileSync(templatePath, "utf8"));
+  }
+
+  /**
+   * Parses template content keeping comments and layout. Throws on YAML
+   * errors unless `allowErrors` is set.
+   */
+  static parseDocument(content: string, allowErrors = false): Document {
+    const document = parseDocument(content, {
+      customTags: CLOUDFORMATION_TAGS,
+    });
+    if (!allowErrors && document.errors.length > 0) {
+      const error = document.errors[0];
+      throw new Error(
+        `${error.message}${
+          error.linePos ? ` (line ${error.linePos[0].line})` : ""
+        }`
+      );
+    }
+    return document;
+  }
+
+  /**
+   * Serializes a new template, writing intrinsic functions in short form
+   */
+  static stringify(template: any): string {
+    const document = new Document(null, { customTags: CLOUDFORMATION_TAGS });
+    const contents = TemplateEditor.createNode(document, template);
+    document.contents = isNode(contents) ? contents : null;
+    return document.toString(WRITE_OPTIONS);
+  }
+
+  static write(lambdaDir: string, content: string): void {
+    const { templatePath, stackDir } = this.locate(lambdaDir);
+    fs.writeFileSync(templatePath, content);
+    LambdaIndex.getInstance().reload(stackDir);
+  }
+
+  /**
+   * Applies edits to the existing template.yaml and writes it back only if
+   * something changed
+   */
+  static update(
+    lambdaDir: string,
+    edit: (template: TemplateEditor) => void
+  ): void {
+    const templatePath = this.getTemplatePath(lambdaDir);
+    if (!fs.existsSync(templatePath)) {
+      throw new Error(`Template file not found: ${templatePath}`);
+    }
+    const content = fs.readFileSync(templatePath, "utf8");
+    let updated: string;
+    try {
+      updated = this.edit(content, edit);
+    } catch (error) {
+      throw new Error(`Failed to update template.yaml: ${error}`);
+    }
+    if (updated !== content) {
+      this.write(lambdaDir, updated);
+    }
+  }
+
+  /**
+   * Applies edits to template content and returns the new content
+   */
+  static edit(
+    content: string,
+    edit: (template: TemplateEditor) => void
+  ): string {
+    const document = this.parseDocument(content);
+    const options = this.getWriteOptions(document, content);
+    edit(new TemplateEditor(document));
+    return document.toString(options);
+  }
+
+  /**
+   * Write options keeping the padding of the template's flow collections,
+   * `[ arm64 ]` or `[arm64]`, as the first non-empty one has it
+   */
+  private static getWriteOptions(
+    document: Document,
+    content: string
+  ): ToStringOptions {
+    let flowCollectionPadding = WRITE_OPTIONS.flowCollectionPadding;
+    visit(document, {
+      Collection(_, node) {
+        if (node.flow && node.items.length > 0 && node.range) {
+          flowCollectionPadding = content[node.range[0] + 1] === " ";
+          return visit.BREAK;
+        }
+      },
+    });
+    return { ...WRITE_OPTIONS, flowCollectionPadding };
+  }
+
+  static toJS(document: Document, node: unknown): any {
+    if (isAlias(node)) {
+      return this.toJS(document, node.resolve(document));
+    }
+    if (isScalar(node)) {
+      return this.fromShortForm(node.tag, node.value);
+    }
+    if (isMap(node)) {
+      const result: { [key: string]: any } = {};
+      for (const pair of node.items) {
+        const key = isScalar(pair.key) ? pair.key.value : pair.key;
+        result[String(key)] = this.toJS(document, pair.value);
+      }
+      return this.fromShortForm(node.tag, result);
+    }
+    if (isSeq(node)) {
+      return this.fromShortForm(
+        node.tag,
+        node.items.map((item) => this.toJS(document, item))
+      );
+    }
+    return node ?? null;
+  }
+
+  static jsonKey(name: string): string {
+    return name === "Ref" || name === "Condition" ? name : `Fn::${name}`;
+  }
+
+  static intrinsicName(jsonKey: string): string | undefined {
+    const name = jsonKey.replace(/^Fn::/, "");
+    return INTRINSIC_FUNCTIONS.includes(name) && this.jsonKey(name) === jsonKey
+      ? name
+      : undefined;
+  }
+
+  private static fromShortForm(tag: string | undefined, value: any): any {
+    const name = tag?.startsWith("!") ? tag.slice(1) : undefined;
+    if (!name || !INTRINSIC_FUNCTIONS.includes(name)) {
+      return value;
+    }
+    if (name === "GetAtt" && typeof value === "string") {
+      const dot = value.indexOf(".");
+      value = dot > 0 ? [value.slice(0, dot), value.slice(dot + 1)] : [value];
+    }
+    return { [this.jsonKey(name)]: value };
+  }
+}
+
+/**
+ * Edits a parsed template document. Values are plain objects like the ones
+ * returned by `TemplateIO.parse`.
+ */
+export class TemplateEditor {
+  constructor(readonly document: Document) {}
+
+  get(templatePath: TemplatePath): any {
+    return TemplateIO.toJS(
+      this.document,
+      this.document.getIn(templatePath, true)
+    );
+  }
+
+  has(templatePath: TemplatePath): boolean {
+    return this.document.hasIn(templatePath);
+  }
+
+  /**
+   * Sets a value. A scalar replaced by another scalar of the same kind is
+   * updated in place, keeping its quoting and short-form tag.
+   */
+  set(templatePath: TemplatePath, value: any): void {
+    const existing = this.document.getIn(templatePath, true);
+    if (isScalar(existing) && TemplateEditor.updateScalar(existing, value)) {
+      return;
+    }
+    this.document.setIn(
+      templatePath,
+      TemplateEditor.createNode(this.document, value)
+    );
+  }
+
+  delete(templatePath: TemplatePath): void {
+    if (this.document.hasIn(templatePath)) {
+      this.document.deleteIn(templatePath);
+    }
+  }
+
+  renameKey(templatePath: TemplatePath, newKey: string): void {
+    const parent = this.document.getIn(templatePath.slice(0, -1), true);
+    const key = templatePath[templatePath.length - 1];
+    const pair = isMap(parent)
+      ? parent.items.find(
+          (item) => TemplateEditor.keyOf(item.key) === String(key)
+        )
+      : undefined;
+    if (pair) {
+      pair.key = new Scalar(newKey);
+    }
+  }
+
+  /**
+   * Sets each key of a map, keeping its other keys. Undefined values remove
+   * the key.
+   */
+  merge(templatePath: TemplatePath, values: { [key: string]: any }): void {
+    for (const [key, value] of Object.entries(values)) {
+      if (value === undefined) {
+        this.delete([...templatePath, key]);
+      } else {
+        this.set([...templatePath, key], value);
+      }
+    }
+  }
+
+  /**
+   * Logical ID of the first resource of a type
+   */
+  findResourceKey(type: string): string | undefined {
+    const resources = this.get(["Resources"]) || {};
+    return Object.keys(resources).find((key) => resources[key]?.Type === type);
+  }
+
+  private static updateScalar(node: Scalar, value: any): boolean {
+    const name = node.tag?.startsWith("!")
+      ? TemplateIO.intrinsicName(TemplateIO.jsonKey(node.tag.slice(1)))
+      : undefined;
+    if (name) {
+      const key = TemplateIO.jsonKey(name);
+      if (value === null || typeof value !== "object" || !(key in value)) {
+        return false;
+      }
+      value = value[key];
+      if (name === "GetAtt" && Array.isArray(value)) {
+        value = value.join(".");
+      }
+    }
+    if (value === null || typeof value !== typeof node.value) {
+      return false;
+    }
+    node.value = value;
+    return true;
+  }
+
+  static keyOf(key: unknown): string {
+    return String(isScalar(key) ? key.value : key);
+  }
+
+  static createNode(document: Document, value: any): unknown {
+    const node = document.createNode(value);
+    visit(node, {
+      Scalar(_, scalar) {
+        if (
+          typeof scalar.value === "string" &&
+          YAML_1_1_AMBIGUOUS.test(scalar.value)
+        ) {
+          scalar.type = Scalar.QUOTE_DOUBLE;
+        }
+      },
+    });
+    return value === null || typeof value !== "object"
+      ? node
+      : this.toShortForm(node);
+  }
+
+  /**
+   * Rewrites `{ Ref: X }` and `{ "Fn::*": ... }` maps as tagged nodes
+   */
+  private static toShortForm(node: unknown): unknown {
+    if (isSeq(node)) {
+      node.items = node.items.map((item) => this.toShortForm(item));
+      return node;
+    }
+    if (!isMap(node)) {
+      return node;
+    }
+    const [first] = node.items;
+    const key = isScalar(first?.key) ? String(first.key.value) : undefined;
+    const name =
+      node.items.length === 1 && key
+        ? TemplateIO.intrinsicName(key)
+        : undefined;
+    if (!name) {
+      node.items.forEach((pair) => (pair.value = this.toShortForm(pair.value)));
+      return node;
+    }
+
+    let inner = this.toShortForm(first.value);
+    if (
+      name === "GetAtt" &&
+      isSeq(inner) &&
+      inner.items.length === 2 &&
+      inner.items.every(
+        (item) => isScalar(item) && typeof item.value === "string"
+      )
+    ) {
+      inner = new Scalar(
+        inner.items.map((item) => (item as Scalar).value).join(".")
+      );
+    }
+    if (isSeq(inner)) {
+      inner.flow = true;
+    }
+    if (isScalar(inner) || isSeq(inner) || isMap(inner)) {
+      inner.tag = `!${name}`;
+      return inner;
+    }
+    return node;
+  }
+}
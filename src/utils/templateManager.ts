@@ -1,8 +1,18 @@
 import * as fs from "fs";
 import * as path from "path";
-import * as yaml from "js-yaml";
-import { LocalLambdaConfig } from "./types";
+import { LocalLambdaConfig, SamFunctionImport, TemplatePath } from "./types";
 import { StringUtils } from "./stringUtils";
+import { EventKinds } from "./eventKinds";
+import { TemplateEditor, TemplateIO } from "./templateIO";
+import { BuildUtils } from "./buildUtils";
+import { log } from "../logger";
+
+const FUNCTION_TYPE = "AWS::Serverless::Function";
+
+/**
+ * Resource properties that may hold a path relative to the template
+ */
+const LOCAL_PATH_PROPERTIES = ["CodeUri", "ContentUri", "DefinitionUri"];
 
 export class TemplateManager {
   /**
@@ -12,21 +22,12 @@ export class TemplateManager {
     lambdaDir: string,
     config: Partial<LocalLambdaConfig>
   ): string {
-    const functionName = StringUtils.toPascalCase(config.functionName!);
     const timeout = config.template?.timeout || 30;
     const memorySize = config.template?.memorySize || 128;
     const description =
       config.template?.description ||
       `Lambda function for ${config.eventType} events`;
-
-    const environmentSection = this.generateEnvironmentSection(
-      config.environment
-    );
-
-    const eventConfiguration = this.getEventConfiguration(
-      config.eventType!,
-      functionName
-    );
+    const fn = this.buildFunction(config, "build/");
 
     // Build template as object first, then convert to YAML
     const templateObject = {
@@ -36,19 +37,11 @@ export class TemplateManager {
 
       // UNIFIED METADATA - Single source of truth for all Gecko configuration
       Metadata: {
-        GeckoLambda: {
-          sourceFile: config.sourceMainFile || "",
-          sourceDir: config.sourceDir || "",
-          eventType: config.eventType || "apigateway",
-          lastModified: new Date().toISOString(),
-          version: "2.0", // Unified system version
-          // Additional metadata for future extensibility
-          buildMethod: config.buildMethod || "direct",
-          architecture: config.architecture || "arm64",
-          runtime: config.runtime || "provided.al2023",
-        },
+        GeckoLambda: this.buildGeckoMetadata(config),
       },
 
+      ...fn.parameters,
+
       Globals: {
         Function: {
           Timeout: timeout,
@@ -58,58 +51,337 @@ export class TemplateManager {
       },
 
       Resources: {
-        [`${functionName}Function`]: {
-          Type: "AWS::Serverless::Function",
-          Properties: {
-            CodeUri: "build/",
-            Handler: "bootstrap",
-            Runtime: config.runtime || "provided.al2023",
-            Architectures: [config.architecture || "arm64"],
-            ...environmentSection,
-            Events: eventConfiguration,
-          },
-        },
+        [fn.logicalId]: fn.resource,
+        ...fn.resources,
       },
 
-      Outputs: {
-        [`${functionName}Function`]: {
+      Outputs: fn.outputs,
+    };
+
+    const templateContent = TemplateIO.stringify(templateObject);
+    TemplateIO.write(lambdaDir, templateContent);
+    log(`📄 Unified template created: ${TemplateIO.getTemplatePath(lambdaDir)}`);
+    return templateContent;
+  }
+
+  /**
+   * Adds a function resource to a multi-function stack. Its Gecko metadata
+   * lives on the resource and its code is built into `<LogicalId>/build/`.
+   */
+  static addFunction(
+    stackDir: string,
+    config: Partial<LocalLambdaConfig>
+  ): string {
+    const logicalId = this.getFunctionLogicalId(config.functionName!);
+    // Event sources are named after the function so each one gets its own
+    const fn = this.buildFunction(
+      config,
+      `${logicalId}/build/`,
+      StringUtils.toPascalCase(config.functionName!)
+    );
+
+    TemplateIO.update(stackDir, (template) => {
+      const parameters = fn.parameters.Parameters || {};
+      const taken = [
+        ...[fn.logicalId, ...Object.keys(fn.resources)].filter((key) =>
+          template.has(["Resources", key])
+        ),
+        ...Object.keys(parameters).filter((key) =>
+          template.has(["Parameters", key])
+        ),
+      ];
+      if (taken.length) {
+        throw new Error(
+          `${taken.join(", ")} already ${
+            taken.length === 1 ? "exists" : "exist"
+          } in the stack`
+        );
+      }
+      template.set(["Resources", fn.logicalId], {
+        ...fn.resource,
+        Metadata: { GeckoLambda: this.buildGeckoMetadata(config) },
+      });
+      for (const [key, resource] of Object.entries(fn.resources)) {
+        template.set(["Resources", key], resource);
+      }
+      for (const [key, parameter] of Object.entries<any>(parameters)) {
+        template.set(["Parameters", key], parameter);
+      }
+      template.merge(["Outputs"], fn.outputs);
+    });
+    log(`📄 ${fn.logicalId} added to ${TemplateIO.getTemplatePath(stackDir)}`);
+    return fn.logicalId;
+  }
+
+  /**
+   * Turns a single-function template into a stack: the template Gecko
+   * metadata moves onto the function resource, whose code is then built into
+   * `<LogicalId>/build/`. Returns the logical ID of the function.
+   */
+  static convertToStack(lambdaDir: string): string {
+    const template = this.readTemplate(lambdaDir);
+    const logicalId = this.getFunctionKey(lambdaDir, template);
+    const metadata = template.Metadata?.GeckoLambda;
+    if (!logicalId || !metadata) {
+      throw new Error("No Gecko function found in template.yaml");
+    }
+
+    TemplateIO.update(lambdaDir, (editor) => {
+      editor.set(["Resources", logicalId, "Metadata", "GeckoLambda"], metadata);
+      editor.set(
+        ["Resources", logicalId, "Properties", "CodeUri"],
+        `${logicalId}/build/`
+      );
+      editor.delete(["Metadata", "GeckoLambda"]);
+      if (Object.keys(editor.get(["Metadata"]) || {}).length === 0) {
+        editor.delete(["Metadata"]);
+      }
+    });
+    return logicalId;
+  }
+
+  /**
+   * Copy of a hand-written SAM template for a workspace stack. The imported
+   * functions get their Gecko metadata and are built into
+   * `<LogicalId>/build/`; other local paths are made absolute so they still
+   * point into the project.
+   */
+  static importTemplate(
+    content: string,
+    templatePath: string,
+    functions: SamFunctionImport[]
+  ): string {
+    const templateDir = path.dirname(templatePath);
+    return TemplateIO.edit(content, (template) => {
+      const globalCodeUri = template.get(["Globals", "Function", "CodeUri"]);
+      if (this.isLocalPath(globalCodeUri)) {
+        template.set(
+          ["Globals", "Function", "CodeUri"],
+          path.resolve(templateDir, globalCodeUri)
+        );
+      }
+      const globalRuntime = template.get(["Globals", "Function", "Runtime"]);
+      const resources = template.get(["Resources"]) || {};
+      for (const [key, resource] of Object.entries<any>(resources)) {
+        for (const property of LOCAL_PATH_PROPERTIES) {
+          const value = resource?.Properties?.[property];
+          if (this.isLocalPath(value)) {
+            template.set(
+              ["Resources", key, "Properties", property],
+              path.resolve(templateDir, value)
+            );
+          }
+        }
+      }
+
+      for (const fn of functions) {
+        const properties = ["Resources", fn.logicalId, "Properties"];
+        const metadata = ["Resources", fn.logicalId, "Metadata"];
+        template.set([...properties, "CodeUri"], `${fn.logicalId}/build/`);
+        // Gecko builds a bootstrap binary, which go1.x can't run
+        const runtime =
+          resources[fn.logicalId].Properties?.Runtime || globalRuntime;
+        if (fn.runtime !== runtime) {
+          template.set([...properties, "Runtime"], fn.runtime);
+          template.set([...properties, "Handler"], "bootstrap");
+        }
+        // The sources are built by Gecko, not by `sam build`
+        template.delete([...metadata, "BuildMethod"]);
+        template.delete([...metadata, "BuildProperties"]);
+        template.set([...metadata, "GeckoLambda"], {
+          ...this.buildGeckoMetadata({
+            sourceMainFile: fn.sourceFile,
+            sourceDir: fn.sourceDir,
+            eventType: fn.eventType,
+            architecture: fn.architecture,
+            runtime: fn.runtime,
+          }),
+          importedFrom: templatePath,
+        });
+      }
+    });
+  }
+
+  /**
+   * Removes a function resource and its outputs from a stack, with the event
+   * sources nothing else uses
+   */
+  static removeFunction(lambdaDir: string): void {
+    const { logicalId } = TemplateIO.locate(lambdaDir);
+    if (!logicalId) {
+      throw new Error(`${lambdaDir} is not a function of a stack`);
+    }
+    TemplateIO.update(lambdaDir, (template) => {
+      const events =
+        template.get(["Resources", logicalId, "Properties", "Events"]) || {};
+      template.delete(["Resources", logicalId]);
+      this.removeUnusedEventSources(template, events);
+      const outputs = template.get(["Outputs"]) || {};
+      for (const key of Object.keys(outputs)) {
+        const target = outputs[key]?.Value?.["Fn::GetAtt"]?.[0];
+        if (target === logicalId || target === `${logicalId}Role`) {
+          template.delete(["Outputs", key]);
+        }
+      }
+    });
+  }
+
+  /**
+   * Logical ID of the function resource of a lambda directory: the stack
+   * function it stands for, or the only function of its own template
+   */
+  static getFunctionKey(lambdaDir: string, template: any): string | undefined {
+    const { logicalId } = TemplateIO.locate(lambdaDir);
+    const resources = template?.Resources || {};
+    if (logicalId) {
+      return resources[logicalId]?.Type === FUNCTION_TYPE ? logicalId : undefined;
+    }
+    return Object.keys(resources).find(
+      (key) => resources[key]?.Type === FUNCTION_TYPE
+    );
+  }
+
+  /**
+   * Where the Gecko metadata of a lambda directory is kept
+   */
+  static getMetadataPath(lambdaDir: string): TemplatePath {
+    const { logicalId } = TemplateIO.locate(lambdaDir);
+    return logicalId
+      ? ["Resources", logicalId, "Metadata", "GeckoLambda"]
+      : ["Metadata", "GeckoLambda"];
+  }
+
+  /**
+   * Logical IDs of the function resources that carry their own Gecko metadata
+   */
+  static getStackFunctions(template: any): string[] {
+    const resources = template?.Resources || {};
+    return Object.keys(resources).filter(
+      (key) =>
+        resources[key]?.Type === FUNCTION_TYPE &&
+        resources[key].Metadata?.GeckoLambda
+    );
+  }
+
+  /**
+   * Gecko metadata of a lambda directory
+   */
+  static getGeckoMetadata(lambdaDir: string, template: any): any {
+    const { logicalId } = TemplateIO.locate(lambdaDir);
+    return logicalId
+      ? template?.Resources?.[logicalId]?.Metadata?.GeckoLambda
+      : template?.Metadata?.GeckoLambda;
+  }
+
+  /**
+   * Logical ID to pass to `sam local invoke` for a lambda
+   */
+  static getInvokeTarget(localConfig: LocalLambdaConfig): string {
+    return (
+      localConfig.logicalId ||
+      this.getFunctionLogicalId(localConfig.functionName)
+    );
+  }
+
+  static getFunctionLogicalId(functionName: string): string {
+    return `${StringUtils.toPascalCase(functionName)}Function`;
+  }
+
+  private static isLocalPath(value: unknown): value is string {
+    return (
+      typeof value === "string" &&
+      !/^s3:\/\//.test(value) &&
+      !path.isAbsolute(value)
+    );
+  }
+
+  private static buildGeckoMetadata(config: Partial<LocalLambdaConfig>): any {
+    return {
+      sourceFile: config.sourceMainFile || "",
+      sourceDir: config.sourceDir || "",
+      eventType: config.eventType || "apigateway",
+      lastModified: new Date().toISOString(),
+      version: "2.0", // Unified system version
+      // Additional metadata for future extensibility
+      buildMethod: config.buildMethod || "direct",
+      architecture: config.architecture || "arm64",
+      runtime: config.runtime || "provided.al2023",
+    };
+  }
+
+  /**
+   * Function resource of a configuration, with the event source resources
+   * or parameters and the outputs it needs
+   */
+  private static buildFunction(
+    config: Partial<LocalLambdaConfig>,
+    codeUri: string,
+    eventSourcePrefix = ""
+  ): {
+    logicalId: string;
+    resource: any;
+    resources: any;
+    parameters: any;
+    outputs: any;
+  } {
+    const logicalId = this.getFunctionLogicalId(config.functionName!);
+    const environmentSection = this.generateEnvironmentSection(
+      config.environment
+    );
+
+    const eventConfiguration = this.getEventConfiguration(
+      config.eventType!,
+      StringUtils.toPascalCase(config.functionName!)
+    );
+    const eventProperties =
+      EventKinds.get(config.eventType!)?.functionProperties || {};
+    const eventSource = this.getEventSourceSection(
+      config.eventType!,
+      eventConfiguration,
+      config.eventSourceArn,
+      eventSourcePrefix
+    );
+
+    return {
+      logicalId,
+      resource: {
+        Type: FUNCTION_TYPE,
+        Properties: {
+          CodeUri: codeUri,
+          Handler: "bootstrap",
+          Runtime: config.runtime || "provided.al2023",
+          Architectures: [config.architecture || "arm64"],
+          ...environmentSection,
+          ...eventProperties,
+          Events: eventConfiguration,
+        },
+      },
+      resources: eventSource.resources,
+      parameters: eventSource.parameters,
+      outputs: {
+        [logicalId]: {
           Description: "Lambda Function ARN",
-          Value: { "Fn::GetAtt": [`${functionName}Function`, "Arn"] },
+          Value: { "Fn::GetAtt": [logicalId, "Arn"] },
         },
-        [`${functionName}FunctionIamRole`]: {
+        [`${logicalId}IamRole`]: {
           Description: "Implicit IAM Role created for function",
-          Value: { "Fn::GetAtt": [`${functionName}FunctionRole`, "Arn"] },
+          Value: { "Fn::GetAtt": [`${logicalId}Role`, "Arn"] },
         },
       },
     };
-
-    // Convert to YAML string
-    const templateContent = yaml.dump(templateObject, {
-      indent: 2,
-      lineWidth: 120,
-      noRefs: true,
-      quotingType: '"',
-      forceQuotes: false,
-    });
-
-    const templatePath = path.join(lambdaDir, "template.yaml");
-    fs.writeFileSync(templatePath, templateContent);
-    console.log(`📄 Unified template created: ${templatePath}`);
-    return templateContent;
   }
 
   /**
    * Reads and parses template.yaml
    */
   static readTemplate(lambdaDir: string): any {
-    const templatePath = path.join(lambdaDir, "template.yaml");
+    const templatePath = TemplateIO.getTemplatePath(lambdaDir);
     if (!fs.existsSync(templatePath)) {
       throw new Error(`Template file not found: ${templatePath}`);
     }
 
     try {
-      const templateContent = fs.readFileSync(templatePath, "utf8");
-      return yaml.load(templateContent);
+      return TemplateIO.parse(fs.readFileSync(templatePath, "utf8"));
     } catch (error) {
       throw new Error(`Failed to parse template.yaml: ${error}`);
     }
@@ -123,56 +395,27 @@ export class TemplateManager {
     environment: { [key: string]: string },
     awsFunctionName?: string
   ): void {
-    const templatePath = path.join(lambdaDir, "template.yaml");
-    const template = this.readTemplate(lambdaDir);
-
-    // Find the function resource
-    const resources = template.Resources || {};
-    const functionResource = Object.values(resources).find(
-      (resource: any) => resource.Type === "AWS::Serverless::Function"
-    ) as any;
-
-    if (!functionResource) {
-      throw new Error("Lambda function resource not found in template.yaml");
-    }
-
-    // Update environment variables
-    if (!functionResource.Properties) {
-      functionResource.Properties = {};
-    }
-    if (!functionResource.Properties.Environment) {
-      functionResource.Properties.Environment = {};
-    }
-    functionResource.Properties.Environment.Variables = environment;
-
-    // Update environment metadata in Gecko section
-    if (!template.Metadata) {
-      template.Metadata = {};
-    }
-    if (!template.Metadata.GeckoLambda) {
-      template.Metadata.GeckoLambda = {};
-    }
-
-    template.Metadata.GeckoLambda.environmentInfo = {
-      lastUpdated: new Date().toISOString(),
-      source: "aws",
-      awsFunctionName: awsFunctionName || "manual",
-      variableCount: Object.keys(environment).length,
-    };
-
-    // Update general last modified
-    template.Metadata.GeckoLambda.lastModified = new Date().toISOString();
-
-    // Write back to template.yaml
-    const updatedContent = yaml.dump(template, {
-      indent: 2,
-      lineWidth: 120,
-      noRefs: true,
-      quotingType: '"',
-      forceQuotes: false,
+    TemplateIO.update(lambdaDir, (template) => {
+      const functionKey = this.getFunctionKey(lambdaDir, template.get([]));
+      if (!functionKey) {
+        throw new Error("Lambda function resource not found in template.yaml");
+      }
+      template.set(
+        ["Resources", functionKey, "Properties", "Environment", "Variables"],
+        environment
+      );
+
+      // Update environment metadata in Gecko section
+      template.merge(this.getMetadataPath(lambdaDir), {
+        environmentInfo: {
+          lastUpdated: new Date().toISOString(),
+          source: "aws",
+          awsFunctionName: awsFunctionName || "manual",
+          variableCount: Object.keys(environment).length,
+        },
+        lastModified: new Date().toISOString(),
+      });
     });
-
-    fs.writeFileSync(templatePath, updatedContent);
     console.log(`✅ Environment variables updated in unified template.yaml`);
   }
 
@@ -185,39 +428,34 @@ export class TemplateManager {
     sourceDir: string,
     eventType: string
   ): void {
-    const templatePath = path.join(lambdaDir, "template.yaml");
-    const template = this.readTemplate(lambdaDir);
-
-    // Ensure Metadata section exists
-    if (!template.Metadata) {
-      template.Metadata = {};
-    }
-
-    // Update or create Gecko Lambda metadata
-    const existingMetadata = template.Metadata.GeckoLambda || {};
-
-    template.Metadata.GeckoLambda = {
-      ...existingMetadata,
-      sourceFile: sourceFile,
-      sourceDir: sourceDir,
-      eventType: eventType,
-      lastModified: new Date().toISOString(),
-      version: "2.0",
-    };
-
-    // Write back to template.yaml
-    const updatedContent = yaml.dump(template, {
-      indent: 2,
-      lineWidth: 120,
-      noRefs: true,
-      quotingType: '"',
-      forceQuotes: false,
-    });
-
-    fs.writeFileSync(templatePath, updatedContent);
+    TemplateIO.update(lambdaDir, (template) =>
+      template.merge(this.getMetadataPath(lambdaDir), {
+        sourceFile: sourceFile,
+        sourceDir: sourceDir,
+        eventType: eventType,
+        lastModified: new Date().toISOString(),
+        version: "2.0",
+      })
+    );
     console.log(`✅ Gecko metadata updated in unified template.yaml`);
   }
 
+  /**
+   * Sets individual Gecko Lambda metadata values, keeping the rest as is.
+   * Keys set to undefined are removed.
+   */
+  static updateGeckoMetadataValues(
+    lambdaDir: string,
+    values: { [key: string]: any }
+  ): void {
+    TemplateIO.update(lambdaDir, (template) =>
+      template.merge(this.getMetadataPath(lambdaDir), {
+        ...values,
+        lastModified: new Date().toISOString(),
+      })
+    );
+  }
+
   /**
    * Extracts configuration from template.yaml using unified metadata
    */
@@ -226,15 +464,11 @@ export class TemplateManager {
     fallbackSourceInfo?: any
   ): LocalLambdaConfig {
     const template = this.readTemplate(lambdaDir);
-
-    // Get Gecko metadata (primary source)
-    const geckoMetadata = template.Metadata?.GeckoLambda;
+    const { stackDir, logicalId } = TemplateIO.locate(lambdaDir);
 
     // Find the function resource
     const resources = template.Resources || {};
-    const functionResourceKey = Object.keys(resources).find(
-      (key) => resources[key].Type === "AWS::Serverless::Function"
-    );
+    const functionResourceKey = this.getFunctionKey(lambdaDir, template);
 
     if (!functionResourceKey) {
       throw new Error("Lambda function resource not found in template.yaml");
@@ -244,11 +478,15 @@ export class TemplateManager {
     const properties = functionResource.Properties || {};
     const globals = template.Globals?.Function || {};
 
-    // Extract function name from resource key or metadata
-    const functionName =
-      geckoMetadata?.functionName ||
-      functionResourceKey.replace(/Function$/, "").toLowerCase() ||
-      path.basename(lambdaDir);
+    // Get Gecko metadata (primary source), kept on the resource in a stack
+    const geckoMetadata = logicalId
+      ? functionResource.Metadata?.GeckoLambda
+      : template.Metadata?.GeckoLambda;
+
+    // The workspace-relative directory of the function, as in the index
+    const functionName = logicalId
+      ? `${path.basename(stackDir)}/${logicalId}`
+      : geckoMetadata?.functionName || path.basename(lambdaDir);
 
     // Extract environment variables
     const envVars = properties.Environment?.Variables || {};
@@ -277,7 +515,7 @@ export class TemplateManager {
       sourceMainFile: sourceInfo.sourceMainFile,
       sourceDir: sourceInfo.sourceDir,
       eventType: eventType,
-      workspacePath: path.dirname(lambdaDir),
+      workspacePath: path.dirname(stackDir),
       lastModified: geckoMetadata?.lastModified || new Date().toISOString(),
       runtime:
         geckoMetadata?.runtime ||
@@ -287,6 +525,14 @@ export class TemplateManager {
       architecture:
         geckoMetadata?.architecture || properties.Architectures?.[0] || "arm64",
       buildMethod: geckoMetadata?.buildMethod || "direct",
+      apiHost: geckoMetadata?.apiHost,
+      apiPort: geckoMetadata?.apiPort ? Number(geckoMetadata.apiPort) : undefined,
+      defaultEvent: geckoMetadata?.defaultEvent,
+      snapshotIgnore: Array.isArray(geckoMetadata?.snapshotIgnore)
+        ? geckoMetadata.snapshotIgnore.map(String)
+        : undefined,
+      build: BuildUtils.parseBuildOptions(geckoMetadata?.build),
+      logicalId: functionResourceKey,
       environment: {
         variables: envVars,
         lastUpdated: envMetadata.lastUpdated,
@@ -297,7 +543,9 @@ export class TemplateManager {
         timeout: properties.Timeout || globals.Timeout || 30,
         memorySize: properties.MemorySize || globals.MemorySize || 128,
         description:
-          template.Description || `Lambda function for ${eventType} events`,
+          properties.Description ||
+          template.Description ||
+          `Lambda function for ${eventType} events`,
       },
     };
 
@@ -312,20 +560,9 @@ export class TemplateManager {
     if (eventKeys.length === 0) return "apigateway";
 
     const firstEvent = events[eventKeys[0]];
-    const eventType = firstEvent.Type;
-
-    switch (eventType) {
-      case "Api":
-        return "apigateway";
-      case "S3":
-        return "s3";
-      case "DynamoDB":
-        return "dynamodb";
-      case "SQS":
-        return "sqs";
-      default:
-        return "apigateway";
-    }
+    return (
+      EventKinds.fromSamEventType(firstEvent.Type)?.id || EventKinds.DEFAULT_ID
+    );
   }
 
   /**
@@ -341,7 +578,7 @@ export class TemplateManager {
 
     try {
       const template = this.readTemplate(lambdaDir);
-      const geckoMetadata = template.Metadata?.GeckoLambda;
+      const geckoMetadata = this.getGeckoMetadata(lambdaDir, template);
 
       if (!geckoMetadata) {
         return {
@@ -419,68 +656,103 @@ export class TemplateManager {
     };
   }
 
-  private static getEventConfiguration(
+  /**
+   * Declares the resource the event source reads from, or a parameter with
+   * the ARN of an existing one that the event references instead
+   */
+  /**
+   * The resource the events read from, or the parameter holding the ARN of an
+   * existing one. Their names start with the prefix, which the events'
+   * references follow.
+   */
+  private static getEventSourceSection(
     eventType: string,
-    functionName: string
-  ): any {
-    const configurations: any = {
-      apigateway: {
-        ApiEvent: {
-          Type: "Api",
-          Properties: {
-            Path: "/hello",
-            Method: "get",
-          },
-        },
-      },
-      s3: {
-        S3Event: {
-          Type: "S3",
-          Properties: {
-            Bucket: { Ref: "S3Bucket" },
-            Events: "s3:ObjectCreated:*",
-            Filter: {
-              S3Key: {
-                Rules: [
-                  {
-                    Name: "prefix",
-                    Value: "uploads/",
-                  },
-                ],
-              },
-            },
-          },
-        },
-      },
-      dynamodb: {
-        DynamoDBEvent: {
-          Type: "DynamoDB",
-          Properties: {
-            Stream: { "Fn::GetAtt": ["DynamoDBTable", "StreamArn"] },
-            StartingPosition: "TRIM_HORIZON",
-            BatchSize: 10,
-          },
-        },
-      },
-      sqs: {
-        SQSEvent: {
-          Type: "SQS",
-          Properties: {
-            Queue: { "Fn::GetAtt": ["SQSQueue", "Arn"] },
-            BatchSize: 10,
-          },
-        },
-      },
-      default: {
-        DefaultEvent: {
-          Type: "Schedule",
-          Properties: {
-            Schedule: "rate(10 minutes)",
+    eventConfiguration: any,
+    existingArn?: string,
+    prefix = ""
+  ): { resources: any; parameters: any } {
+    const source = EventKinds.get(eventType)?.eventSource;
+    if (!source) {
+      return { resources: {}, parameters: {} };
+    }
+    const existing = existingArn ? source.existing : undefined;
+    const logicalId = `${prefix}${source.logicalId}`;
+    for (const event of Object.values<any>(eventConfiguration)) {
+      const value = event.Properties?.[source.property];
+      if (value !== undefined) {
+        event.Properties[source.property] = existing
+          ? { Ref: `${prefix}${existing.parameter}` }
+          : this.renameReference(value, source.logicalId, logicalId);
+      }
+    }
+    if (!existing) {
+      return {
+        resources: { [logicalId]: source.resource },
+        parameters: {},
+      };
+    }
+    return {
+      resources: {},
+      parameters: {
+        Parameters: {
+          [`${prefix}${existing.parameter}`]: {
+            Type: "String",
+            Description: existing.description,
+            Default: existingArn,
           },
         },
       },
     };
+  }
 
-    return configurations[eventType] || configurations.default;
+  /**
+   * Removes the resources and parameters referenced by the events when the
+   * rest of the template no longer mentions them
+   */
+  private static removeUnusedEventSources(
+    template: TemplateEditor,
+    events: any
+  ): void {
+    const names = Object.values<any>(events)
+      .flatMap((event) => Object.values<any>(event?.Properties || {}))
+      .map((value) => value?.Ref ?? value?.["Fn::GetAtt"]?.[0]);
+    for (const name of new Set(names)) {
+      if (typeof name !== "string") {
+        continue;
+      }
+      const rest = template.get([]);
+      delete rest.Resources?.[name];
+      delete rest.Parameters?.[name];
+      if (new RegExp(`\\b${name}\\b`).test(JSON.stringify(rest))) {
+        continue;
+      }
+      template.delete(["Resources", name]);
+      template.delete(["Parameters", name]);
+      if (Object.keys(template.get(["Parameters"]) || {}).length === 0) {
+        template.delete(["Parameters"]);
+      }
+    }
+  }
+
+  /**
+   * A `Ref` or `Fn::GetAtt` of a resource, pointed at its new name
+   */
+  private static renameReference(value: any, from: string, to: string): any {
+    if (value?.Ref === from) {
+      return { ...value, Ref: to };
+    }
+    const getAtt = value?.["Fn::GetAtt"];
+    if (Array.isArray(getAtt) && getAtt[0] === from) {
+      return { ...value, "Fn::GetAtt": [to, ...getAtt.slice(1)] };
+    }
+    return value;
+  }
+
+  private static getEventConfiguration(
+    eventType: string,
+    functionName: string
+  ): any {
+    const kind = EventKinds.get(eventType) || EventKinds.get("schedule")!;
+    return kind.samEvents(functionName);
   }
 }
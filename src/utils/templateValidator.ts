@@ -0,0 +1,1171 @@
+import { Document, isMap, isSeq } from "yaml";
+import { TemplateIO, TemplateEditor } from "./templateIO";
+import { TemplateFix, TemplateIssue, TemplatePath } from "./types";
+
+const TOP_LEVEL_SECTIONS = [
+  "AWSTemplateFormatVersion",
+  "Description",
+  "Metadata",
+  "Parameters",
+  "Rules",
+  "Mappings",
+  "Conditions",
+  "Transform",
+  "Globals",
+  "Resources",
+  "Outputs",
+];
+
+const RESOURCE_ATTRIBUTES = [
+  "Type",
+  "Properties",
+  "Metadata",
+  "DependsOn",
+  "Condition",
+  "DeletionPolicy",
+  "UpdateReplacePolicy",
+  "UpdatePolicy",
+  "CreationPolicy",
+  "Connectors",
+  "IgnoreGlobals",
+];
+
+const PSEUDO_PARAMETERS = [
+  "AWS::AccountId",
+  "AWS::NotificationARNs",
+  "AWS::NoValue",
+  "AWS::Partition",
+  "AWS::Region",
+  "AWS::StackId",
+  "AWS::StackName",
+  "AWS::URLSuffix",
+];
+
+const FUNCTION_PROPERTIES = [
+  "Architectures",
+  "AssumeRolePolicyDocument",
+  "AutoPublishAlias",
+  "AutoPublishCodeSha256",
+  "CodeSigningConfigArn",
+  "CodeUri",
+  "DeadLetterQueue",
+  "DeploymentPreference",
+  "Description",
+  "Environment",
+  "EphemeralStorage",
+  "EventInvokeConfig",
+  "Events",
+  "FileSystemConfigs",
+  "FunctionName",
+  "FunctionUrlConfig",
+  "Handler",
+  "ImageConfig",
+  "ImageUri",
+  "InlineCode",
+  "KmsKeyArn",
+  "Layers",
+  "LoggingConfig",
+  "MemorySize",
+  "PackageType",
+  "PermissionsBoundary",
+  "Policies",
+  "PropagateTags",
+  "ProvisionedConcurrencyConfig",
+  "RecursiveLoop",
+  "ReservedConcurrentExecutions",
+  "Role",
+  "RolePath",
+  "Runtime",
+  "RuntimeManagementConfig",
+  "SnapStart",
+  "Tags",
+  "Timeout",
+  "Tracing",
+  "VersionDescription",
+  "VpcConfig",
+];
+
+/**
+ * Property names of the resource types Gecko generates. Types mapped to
+ * undefined are known but their properties are not checked.
+ */
+const RESOURCE_TYPES: { [type: string]: string[] | undefined } = {
+  "AWS::Serverless::Function": FUNCTION_PROPERTIES,
+  "AWS::Serverless::Api": undefined,
+  "AWS::Serverless::HttpApi": undefined,
+  "AWS::Serverless::SimpleTable": undefined,
+  "AWS::Serverless::LayerVersion": undefined,
+  "AWS::Serverless::Application": undefined,
+  "AWS::Serverless::StateMachine": undefined,
+  "AWS::Serverless::Connector": undefined,
+  "AWS::Serverless::GraphQLApi": undefined,
+  "AWS::S3::Bucket": [
+    "AccelerateConfiguration",
+    "AccessControl",
+    "AnalyticsConfigurations",
+    "BucketEncryption",
+    "BucketName",
+    "CorsConfiguration",
+    "IntelligentTieringConfigurations",
+    "InventoryConfigurations",
+    "LifecycleConfiguration",
+    "LoggingConfiguration",
+    "MetricsConfigurations",
+    "NotificationConfiguration",
+    "ObjectLockConfiguration",
+    "ObjectLockEnabled",
+    "OwnershipControls",
+    "PublicAccessBlockConfiguration",
+    "ReplicationConfiguration",
+    "Tags",
+    "VersioningConfiguration",
+    "WebsiteConfiguration",
+  ],
+  "AWS::DynamoDB::Table": [
+    "AttributeDefinitions",
+    "BillingMode",
+    "ContributorInsightsSpecification",
+    "DeletionProtectionEnabled",
+    "GlobalSecondaryIndexes",
+    "ImportSourceSpecification",
+    "KeySchema",
+    "KinesisStreamSpecification",
+    "LocalSecondaryIndexes",
+    "PointInTimeRecoverySpecification",
+    "ProvisionedThroughput",
+    "ResourcePolicy",
+    "SSESpecification",
+    "StreamSpecification",
+    "TableClass",
+    "TableName",
+    "Tags",
+    "TimeToLiveSpecification",
+  ],
+  "AWS::SQS::Queue": [
+    "ContentBasedDeduplication",
+    "DeduplicationScope",
+    "DelaySeconds",
+    "FifoQueue",
+    "FifoThroughputLimit",
+    "KmsDataKeyReusePeriodSeconds",
+    "KmsMasterKeyId",
+    "MaximumMessageSize",
+    "MessageRetentionPeriod",
+    "QueueName",
+    "ReceiveMessageWaitTimeSeconds",
+    "RedriveAllowPolicy",
+    "RedrivePolicy",
+    "SqsManagedSseEnabled",
+    "Tags",
+    "VisibilityTimeout",
+  ],
+  "AWS::SNS::Topic": [
+    "ArchivePolicy",
+    "ContentBasedDeduplication",
+    "DataProtectionPolicy",
+    "DisplayName",
+    "FifoTopic",
+    "KmsMasterKeyId",
+    "SignatureVersion",
+    "Subscription",
+    "Tags",
+    "TopicName",
+    "TracingConfig",
+  ],
+  "AWS::Kinesis::Stream": [
+    "Name",
+    "RetentionPeriodHours",
+    "ShardCount",
+    "StreamEncryption",
+    "StreamModeDetails",
+    "Tags",
+  ],
+  "AWS::Cognito::UserPool": undefined,
+  "AWS::Events::Rule": undefined,
+  "AWS::IAM::Role": undefined,
+  "AWS::Lambda::Permission": undefined,
+  "AWS::Logs::LogGroup": undefined,
+};
+
+const STREAM_PROPERTIES = [
+  "BatchSize",
+  "BisectBatchOnFunctionError",
+  "DestinationConfig",
+  "Enabled",
+  "FilterCriteria",
+  "FunctionResponseTypes",
+  "KmsKeyArn",
+  "MaximumBatchingWindowInSeconds",
+  "MaximumRecordAgeInSeconds",
+  "MaximumRetryAttempts",
+  "MetricsConfig",
+  "ParallelizationFactor",
+  "StartingPositionTimestamp",
+  "TumblingWindowInSeconds",
+];
+
+/**
+ * Required and optional properties of the SAM event sources
+ */
+const EVENT_SOURCES: {
+  [type: string]: { required: string[]; optional: string[] };
+} = {
+  Api: {
+    required: ["Path", "Method"],
+    optional: [
+      "Auth",
+      "RequestModel",
+      "RequestParameters",
+      "RestApiId",
+      "TimeoutInMillis",
+    ],
+  },
+  HttpApi: {
+    required: [],
+    optional: [
+      "ApiId",
+      "Auth",
+      "Method",
+      "Path",
+      "PayloadFormatVersion",
+      "RouteSettings",
+      "TimeoutInMillis",
+    ],
+  },
+  S3: { required: ["Bucket", "Events"], optional: ["Filter"] },
+  SQS: {
+    required: ["Queue"],
+    optional: [
+      "BatchSize",
+      "Enabled",
+      "FilterCriteria",
+      "FunctionResponseTypes",
+      "KmsKeyArn",
+      "MaximumBatchingWindowInSeconds",
+      "MetricsConfig",
+      "ScalingConfig",
+    ],
+  },
+  SNS: {
+    required: ["Topic"],
+    optional: [
+      "FilterPolicy",
+      "FilterPolicyScope",
+      "RedrivePolicy",
+      "Region",
+      "SqsSubscription",
+    ],
+  },
+  DynamoDB: {
+    required: ["Stream", "StartingPosition"],
+    optional: STREAM_PROPERTIES,
+  },
+  Kinesis: {
+    required: ["Stream", "StartingPosition"],
+    optional: STREAM_PROPERTIES,
+  },
+  EventBridgeRule: {
+    required: ["Pattern"],
+    optional: [
+      "DeadLetterConfig",
+      "EventBusName",
+      "Input",
+      "InputPath",
+      "InputTransformer",
+      "RetryPolicy",
+      "RuleName",
+      "State",
+      "Target",
+    ],
+  },
+  CloudWatchEvent: {
+    required: ["Pattern"],
+    optional: ["EventBusName", "Input", "InputPath", "State", "Target"],
+  },
+  Schedule: {
+    required: ["Schedule"],
+    optional: [
+      "DeadLetterConfig",
+      "Description",
+      "Enabled",
+      "Input",
+      "Name",
+      "RetryPolicy",
+      "State",
+    ],
+  },
+  ScheduleV2: {
+    required: ["ScheduleExpression"],
+    optional: [
+      "DeadLetterConfig",
+      "Description",
+      "EndDate",
+      "FlexibleTimeWindow",
+      "GroupName",
+      "Input",
+      "KmsKeyArn",
+      "Name",
+      "RetryPolicy",
+      "RoleArn",
+      "ScheduleExpressionTimezone",
+      "StartDate",
+      "State",
+    ],
+  },
+  Cognito: { required: ["UserPool", "Trigger"], optional: [] },
+  CloudWatchLogs: { required: ["LogGroupName", "FilterPattern"], optional: [] },
+};
+
+const HTTP_METHODS = [
+  "get",
+  "post",
+  "put",
+  "patch",
+  "delete",
+  "head",
+  "options",
+  "any",
+];
+const GO_RUNTIMES = ["provided.al2023", "provided.al2", "provided", "go1.x"];
+const DEPRECATED_RUNTIMES = ["provided", "go1.x"];
+const OTHER_RUNTIME = /^(nodejs|python|java|dotnet|ruby)/;
+const ARCHITECTURES = ["x86_64", "arm64"];
+const DEFAULT_RUNTIME = "provided.al2023";
+
+const LIMITS = {
+  Timeout: { min: 1, max: 900, unit: "seconds" },
+  MemorySize: { min: 128, max: 10240, unit: "MB" },
+};
+
+/**
+ * Offline structural validation of the SAM/CloudFormation subset Gecko
+ * generates. Issues carry offsets into the template content and, when there
+ * is an obvious correction, a fix that `applyFix` can write back.
+ */
+export class TemplateValidator {
+  static validate(content: string): TemplateIssue[] {
+    const document = TemplateIO.parseDocument(content, true);
+    if (document.errors.length > 0) {
+      return document.errors.map((error) => ({
+        code: "yaml-syntax",
+        severity: "error",
+        message: error.message.split("\n")[0],
+        path: [],
+        start: error.pos[0],
+        end: Math.max(error.pos[1], error.pos[0] + 1),
+      }));
+    }
+    return new TemplateCheck(document).run();
+  }
+
+  /**
+   * Returns the template content with the fix applied
+   */
+  static applyFix(content: string, fix: TemplateFix): string {
+    return TemplateIO.edit(content, (template) => {
+      if (fix.remove) {
+        template.delete(fix.path);
+      } else if (fix.renameKey) {
+        template.renameKey(fix.path, fix.renameKey);
+      } else {
+        template.set(fix.path, fix.value);
+      }
+    });
+  }
+}
+
+type Severity = TemplateIssue["severity"];
+
+/**
+ * One validation run over a parsed document
+ */
+class TemplateCheck {
+  private readonly issues: TemplateIssue[] = [];
+  private readonly editor: TemplateEditor;
+  private readonly template: any;
+
+  constructor(private readonly document: Document) {
+    this.editor = new TemplateEditor(document);
+    this.template = this.editor.get([]) || {};
+  }
+
+  run(): TemplateIssue[] {
+    if (!isObject(this.template)) {
+      this.report(
+        [],
+        "template-shape",
+        "error",
+        "template.yaml must be a mapping"
+      );
+      return this.issues;
+    }
+    for (const key of Object.keys(this.template)) {
+      if (!TOP_LEVEL_SECTIONS.includes(key)) {
+        this.reportKey(
+          [],
+          key,
+          TOP_LEVEL_SECTIONS,
+          "unknown-section",
+          "Unknown template section"
+        );
+      }
+    }
+
+    const resources = this.template.Resources;
+    if (!isObject(resources)) {
+      this.report(
+        ["Resources"],
+        "missing-resources",
+        "error",
+        "Template has no Resources section"
+      );
+    } else {
+      for (const [logicalId, resource] of Object.entries<any>(resources)) {
+        this.checkResource(logicalId, resource);
+      }
+    }
+
+    const globals = this.template.Globals?.Function;
+    if (isObject(globals)) {
+      this.checkProperties(
+        ["Globals", "Function"],
+        globals,
+        FUNCTION_PROPERTIES,
+        "Globals.Function"
+      );
+      this.checkLimits(["Globals", "Function"], globals);
+    }
+
+    if (isObject(this.template.Outputs)) {
+      for (const [name, output] of Object.entries<any>(this.template.Outputs)) {
+        if (!isObject(output) || output.Value === undefined) {
+          this.report(
+            ["Outputs", name],
+            "missing-output-value",
+            "error",
+            `Output ${name} has no Value`,
+            true
+          );
+        }
+      }
+    }
+
+    this.checkReferences([], this.template);
+    return this.issues;
+  }
+
+  private checkResource(logicalId: string, resource: any): void {
+    const resourcePath = ["Resources", logicalId];
+    if (!/^[A-Za-z0-9]+$/.test(logicalId)) {
+      this.report(
+        resourcePath,
+        "invalid-logical-id",
+        "error",
+        `Logical ID ${logicalId} must be alphanumeric`,
+        true
+      );
+    }
+    if (!isObject(resource)) {
+      this.report(
+        resourcePath,
+        "resource-shape",
+        "error",
+        `Resource ${logicalId} must be a mapping`
+      );
+      return;
+    }
+    for (const key of Object.keys(resource)) {
+      if (!RESOURCE_ATTRIBUTES.includes(key)) {
+        this.reportKey(
+          resourcePath,
+          key,
+          RESOURCE_ATTRIBUTES,
+          "unknown-attribute",
+          "Unknown resource attribute"
+        );
+      }
+    }
+
+    const type = resource.Type;
+    if (typeof type !== "string") {
+      this.report(
+        resourcePath,
+        "missing-type",
+        "error",
+        `Resource ${logicalId} has no Type`,
+        true
+      );
+      return;
+    }
+    if (!(type in RESOURCE_TYPES)) {
+      this.checkUnknownType([...resourcePath, "Type"], type);
+      return;
+    }
+
+    const properties = resource.Properties ?? {};
+    if (!isObject(properties)) {
+      this.report(
+        [...resourcePath, "Properties"],
+        "properties-shape",
+        "error",
+        "Properties must be a mapping"
+      );
+      return;
+    }
+    const knownProperties = RESOURCE_TYPES[type];
+    if (knownProperties) {
+      this.checkProperties(
+        [...resourcePath, "Properties"],
+        properties,
+        knownProperties,
+        type
+      );
+    }
+    if (type === "AWS::Serverless::Function") {
+      this.checkFunction([...resourcePath, "Properties"], properties);
+    }
+  }
+
+  /**
+   * Types outside the Gecko subset are accepted, unless they are misspelled
+   * SAM types or look like a typo of a known type of the same service
+   */
+  private checkUnknownType(typePath: TemplatePath, type: string): void {
+    const knownTypes = Object.keys(RESOURCE_TYPES);
+    let suggestion: string | undefined;
+    let severity: Severity = "warning";
+    if (
+      type.startsWith("AWS::Serverless::") ||
+      !/^(AWS::\w+::\w+|Custom::[\w@-]+)$/.test(type)
+    ) {
+      suggestion = closest(type, knownTypes);
+      severity = "error";
+    } else {
+      const service = type.slice(0, type.lastIndexOf("::") + 2);
+      const name = closest(
+        type.slice(service.length),
+        knownTypes
+          .filter((known) => known.startsWith(service))
+          .map((known) => known.slice(service.length))
+      );
+      if (!name) {
+        return;
+      }
+      suggestion = service + name;
+    }
+    this.report(
+      typePath,
+      "unknown-type",
+      severity,
+      `Unknown resource type ${type}`,
+      false,
+      suggestion
+        ? {
+            title: `Change to ${suggestion}`,
+            path: typePath,
+            value: suggestion,
+          }
+        : undefined
+    );
+  }
+
+  private checkFunction(propertiesPath: TemplatePath, properties: any): void {
+    const globals = isObject(this.template.Globals?.Function)
+      ? this.template.Globals.Function
+      : {};
+    this.checkLimits(propertiesPath, properties);
+
+    // Runtime and architectures may come from Globals
+    const runtimePath =
+      properties.Runtime !== undefined
+        ? [...propertiesPath, "Runtime"]
+        : ["Globals", "Function", "Runtime"];
+    const runtime = properties.Runtime ?? globals.Runtime;
+    const architecturesPath =
+      properties.Architectures !== undefined
+        ? [...propertiesPath, "Architectures"]
+        : ["Globals", "Function", "Architectures"];
+    const architectures = properties.Architectures ??
+      globals.Architectures ?? ["x86_64"];
+    const runtimeFix: TemplateFix = {
+      title: `Use ${DEFAULT_RUNTIME}`,
+      path: runtimePath,
+      value: DEFAULT_RUNTIME,
+    };
+
+    if (runtime === undefined) {
+      if (properties.PackageType !== "Image") {
+        this.report(
+          propertiesPath,
+          "missing-runtime",
+          "error",
+          "Function has no Runtime",
+          true,
+          { ...runtimeFix, path: [...propertiesPath, "Runtime"] }
+        );
+      }
+    } else if (typeof runtime === "string") {
+      if (OTHER_RUNTIME.test(runtime)) {
+        this.report(
+          runtimePath,
+          "unsupported-runtime",
+          "warning",
+          `Gecko builds Go bootstrap binaries, which can't run on ${runtime}`,
+          false,
+          runtimeFix
+        );
+      } else if (!GO_RUNTIMES.includes(runtime)) {
+        this.report(
+          runtimePath,
+          "unknown-runtime",
+          "error",
+          `Unknown runtime ${runtime}`,
+          false,
+          runtimeFix
+        );
+      } else if (DEPRECATED_RUNTIMES.includes(runtime)) {
+        this.report(
+          runtimePath,
+          "deprecated-runtime",
+          "warning",
+          `Runtime ${runtime} is deprecated`,
+          false,
+          runtimeFix
+        );
+      }
+    }
+
+    if (!Array.isArray(architectures)) {
+      if (!isIntrinsic(architectures)) {
+        this.report(
+          architecturesPath,
+          "architectures-shape",
+          "error",
+          "Architectures must be a list",
+          false,
+          { title: "Use [arm64]", path: architecturesPath, value: ["arm64"] }
+        );
+      }
+      return;
+    }
+    if (architectures.length !== 1) {
+      this.report(
+        architecturesPath,
+        "architectures-count",
+        "error",
+        "Architectures must have exactly one value",
+        false,
+        {
+          title: `Use [${architectures[0] ?? "arm64"}]`,
+          path: architecturesPath,
+          value: [
+            ARCHITECTURES.includes(architectures[0])
+              ? architectures[0]
+              : "arm64",
+          ],
+        }
+      );
+      return;
+    }
+    const [architecture] = architectures;
+    if (
+      typeof architecture === "string" &&
+      !ARCHITECTURES.includes(architecture)
+    ) {
+      const suggestion =
+        { amd64: "x86_64", aarch64: "arm64" }[architecture] ||
+        closest(architecture, ARCHITECTURES) ||
+        "arm64";
+      this.report(
+        [...architecturesPath, 0],
+        "unknown-architecture",
+        "error",
+        `Unknown architecture ${architecture}, expected x86_64 or arm64`,
+        false,
+        {
+          title: `Change to ${suggestion}`,
+          path: [...architecturesPath, 0],
+          value: suggestion,
+        }
+      );
+    } else if (runtime === "go1.x" && architecture === "arm64") {
+      this.report(
+        runtimePath,
+        "runtime-architecture",
+        "error",
+        "The go1.x runtime only supports x86_64",
+        false,
+        runtimeFix
+      );
+    }
+
+    if (isObject(properties.Events)) {
+      for (const [name, event] of Object.entries<any>(properties.Events)) {
+        this.checkEvent([...propertiesPath, "Events", name], event);
+      }
+    }
+  }
+
+  private checkEvent(eventPath: TemplatePath, event: any): void {
+    const name = eventPath[eventPath.length - 1];
+    if (!isObject(event)) {
+      this.report(
+        eventPath,
+        "event-shape",
+        "error",
+        `Event ${name} must be a mapping`
+      );
+      return;
+    }
+    for (const key of Object.keys(event)) {
+      if (key !== "Type" && key !== "Properties") {
+        this.reportKey(
+          eventPath,
+          key,
+          ["Type", "Properties"],
+          "unknown-event-key",
+          "Unknown event key"
+        );
+      }
+    }
+    const source = EVENT_SOURCES[event.Type];
+    if (!source) {
+      if (typeof event.Type !== "string") {
+        this.report(
+          eventPath,
+          "missing-event-type",
+          "error",
+          `Event ${name} has no Type`,
+          true
+        );
+        return;
+      }
+      const suggestion = closest(event.Type, Object.keys(EVENT_SOURCES));
+      this.report(
+        [...eventPath, "Type"],
+        "unknown-event-type",
+        "warning",
+        `Event type ${event.Type} is not checked by Gecko`,
+        false,
+        suggestion
+          ? {
+              title: `Change to ${suggestion}`,
+              path: [...eventPath, "Type"],
+              value: suggestion,
+            }
+          : undefined
+      );
+      return;
+    }
+
+    const properties = event.Properties ?? {};
+    if (!isObject(properties)) {
+      this.report(
+        [...eventPath, "Properties"],
+        "event-properties-shape",
+        "error",
+        "Event Properties must be a mapping"
+      );
+      return;
+    }
+    this.checkProperties(
+      [...eventPath, "Properties"],
+      properties,
+      [...source.required, ...source.optional],
+      `${event.Type} events`
+    );
+    for (const required of source.required) {
+      if (properties[required] === undefined) {
+        this.report(
+          event.Properties ? [...eventPath, "Properties"] : eventPath,
+          "missing-event-property",
+          "error",
+          `${event.Type} event ${name} requires ${required}`,
+          true
+        );
+      }
+    }
+
+    const { Method: method, Path: routePath } = properties;
+    if (
+      typeof method === "string" &&
+      !HTTP_METHODS.includes(method.toLowerCase())
+    ) {
+      const suggestion = closest(method.toLowerCase(), HTTP_METHODS);
+      this.report(
+        [...eventPath, "Properties", "Method"],
+        "invalid-method",
+        "error",
+        `Invalid HTTP method ${method}`,
+        false,
+        suggestion
+          ? {
+              title: `Change to ${suggestion}`,
+              path: [...eventPath, "Properties", "Method"],
+              value: suggestion,
+            }
+          : undefined
+      );
+    }
+    if (typeof routePath === "string" && !routePath.startsWith("/")) {
+      this.report(
+        [...eventPath, "Properties", "Path"],
+        "invalid-path",
+        "error",
+        "Path must start with /",
+        false,
+        {
+          title: `Change to /${routePath}`,
+          path: [...eventPath, "Properties", "Path"],
+          value: `/${routePath}`,
+        }
+      );
+    }
+    if (
+      event.Type === "HttpApi" &&
+      (method === undefined) !== (routePath === undefined)
+    ) {
+      this.report(
+        [...eventPath, "Properties"],
+        "incomplete-route",
+        "error",
+        "HttpApi events need both Path and Method, or neither",
+        true
+      );
+    }
+  }
+
+  private checkLimits(propertiesPath: TemplatePath, properties: any): void {
+    for (const [property, limit] of Object.entries(LIMITS)) {
+      const value = properties[property];
+      if (value === undefined || isIntrinsic(value)) {
+        continue;
+      }
+      const valuePath = [...propertiesPath, property];
+      if (typeof value !== "number" || !Number.isInteger(value)) {
+        this.report(
+          valuePath,
+          "invalid-limit",
+          "error",
+          `${property} must be a whole number of ${limit.unit}`
+        );
+      } else if (value < limit.min || value > limit.max) {
+        const clamped = Math.min(Math.max(value, limit.min), limit.max);
+        this.report(
+          valuePath,
+          "limit-out-of-range",
+          "error",
+          `${property} must be between ${limit.min} and ${limit.max} ${limit.unit}`,
+          false,
+          {
+            title: `Set ${property} to ${clamped}`,
+            path: valuePath,
+            value: clamped,
+          }
+        );
+      }
+    }
+  }
+
+  private checkProperties(
+    propertiesPath: TemplatePath,
+    properties: any,
+    known: string[],
+    owner: string
+  ): void {
+    for (const key of Object.keys(properties)) {
+      if (!known.includes(key)) {
+        this.reportKey(
+          propertiesPath,
+          key,
+          known,
+          "unknown-property",
+          `Unknown property for ${owner}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Checks that Ref, Fn::GetAtt and Fn::Sub point at declared resources
+   * and parameters
+   */
+  private checkReferences(valuePath: TemplatePath, value: any): void {
+    if (Array.isArray(value)) {
+      value.forEach((item, index) =>
+        this.checkReferences([...valuePath, index], item)
+      );
+      return;
+    }
+    if (!isObject(value)) {
+      return;
+    }
+    const keys = Object.keys(value);
+    if (
+      keys.length === 1 &&
+      keys[0] === "Ref" &&
+      typeof value.Ref === "string"
+    ) {
+      this.checkTarget(valuePath, value.Ref, false, (target) => ({
+        Ref: target,
+      }));
+      return;
+    }
+    if (keys.length === 1 && keys[0] === "Fn::GetAtt") {
+      const [resource, attribute] = Array.isArray(value["Fn::GetAtt"])
+        ? value["Fn::GetAtt"]
+        : [];
+      if (typeof resource === "string") {
+        this.checkTarget(valuePath, resource, true, (target) => ({
+          "Fn::GetAtt": [target, attribute],
+        }));
+      }
+      return;
+    }
+    if (keys.length === 1 && keys[0] === "Fn::Sub") {
+      const sub = value["Fn::Sub"];
+      const [text, variables] = Array.isArray(sub) ? sub : [sub, {}];
+      if (typeof text === "string") {
+        for (const match of text.matchAll(/\$\{([^!}][^}]*)\}/g)) {
+          const [name, attribute] = match[1].trim().split(/\.(.*)/);
+          if (isObject(variables) && name in variables) {
+            continue;
+          }
+          this.checkTarget(
+            valuePath,
+            name,
+            attribute !== undefined,
+            (target) => ({
+              "Fn::Sub": Array.isArray(sub)
+                ? [
+                    text.split(match[0]).join(match[0].replace(name, target)),
+                    variables,
+                  ]
+                : text.split(match[0]).join(match[0].replace(name, target)),
+            })
+          );
+        }
+      }
+      this.checkReferences(valuePath, Array.isArray(sub) ? sub[1] : undefined);
+      return;
+    }
+    for (const [key, item] of Object.entries(value)) {
+      if (valuePath.length === 0 && key === "Metadata") {
+        continue;
+      }
+      this.checkReferences([...valuePath, key], item);
+    }
+  }
+
+  private checkTarget(
+    valuePath: TemplatePath,
+    target: string,
+    attribute: boolean,
+    replace: (target: string) => any
+  ): void {
+    const resources = this.resourceIds();
+    const candidates = attribute
+      ? resources
+      : [...resources, ...this.parameterIds(), ...PSEUDO_PARAMETERS];
+    if (candidates.includes(target)) {
+      return;
+    }
+    const suggestion = closest(target, candidates);
+    const kind = attribute ? "resource" : "resource or parameter";
+    this.report(
+      valuePath,
+      "unknown-reference",
+      "error",
+      `${target} is not a ${kind} in this template`,
+      false,
+      suggestion
+        ? {
+            title: `Change to ${suggestion}`,
+            path: valuePath,
+            value: replace(suggestion),
+          }
+        : undefined
+    );
+  }
+
+  private resourceIdsCache?: string[];
+
+  /**
+   * Declared resources plus the ones SAM generates implicitly
+   */
+  private resourceIds(): string[] {
+    if (this.resourceIdsCache) {
+      return this.resourceIdsCache;
+    }
+    const resources = isObject(this.template.Resources)
+      ? this.template.Resources
+      : {};
+    const ids = Object.keys(resources);
+    for (const [logicalId, resource] of Object.entries<any>(resources)) {
+      if (resource?.Type !== "AWS::Serverless::Function") {
+        continue;
+      }
+      const properties = isObject(resource.Properties)
+        ? resource.Properties
+        : {};
+      if (properties.Role === undefined) {
+        ids.push(`${logicalId}Role`);
+      }
+      if (properties.AutoPublishAlias !== undefined) {
+        ids.push(
+          `${logicalId}Alias${properties.AutoPublishAlias}`,
+          `${logicalId}Version`
+        );
+      }
+      if (properties.FunctionUrlConfig !== undefined) {
+        ids.push(`${logicalId}Url`);
+      }
+      for (const event of Object.values<any>(
+        isObject(properties.Events) ? properties.Events : {}
+      )) {
+        if (
+          event?.Type === "Api" &&
+          event.Properties?.RestApiId === undefined
+        ) {
+          ids.push("ServerlessRestApi");
+        }
+        if (
+          event?.Type === "HttpApi" &&
+          event.Properties?.ApiId === undefined
+        ) {
+          ids.push("ServerlessHttpApi");
+        }
+      }
+    }
+    this.resourceIdsCache = ids;
+    return ids;
+  }
+
+  private parameterIds(): string[] {
+    return isObject(this.template.Parameters)
+      ? Object.keys(this.template.Parameters)
+      : [];
+  }
+
+  private reportKey(
+    parentPath: TemplatePath,
+    key: string,
+    known: string[],
+    code: string,
+    message: string
+  ): void {
+    const suggestion = closest(key, known);
+    // Renaming onto a key the map already has would duplicate it
+    const fix: TemplateFix | undefined = !suggestion
+      ? undefined
+      : this.editor.has([...parentPath, suggestion])
+      ? { title: `Remove ${key}`, path: [...parentPath, key], remove: true }
+      : {
+          title: `Rename to ${suggestion}`,
+          path: [...parentPath, key],
+          renameKey: suggestion,
+        };
+    this.report(
+      [...parentPath, key],
+      code,
+      "warning",
+      `${message}: ${key}`,
+      true,
+      fix
+    );
+  }
+
+  private report(
+    issuePath: TemplatePath,
+    code: string,
+    severity: Severity,
+    message: string,
+    onKey = false,
+    fix?: TemplateFix
+  ): void {
+    const [start, end] = this.rangeOf(issuePath, onKey);
+    this.issues.push({
+      code,
+      severity,
+      message,
+      path: issuePath,
+      start,
+      end,
+      fix,
+    });
+  }
+
+  /**
+   * Offsets of the node at a path (or of its key), falling back to the
+   * closest ancestor present in the document
+   */
+  private rangeOf(issuePath: TemplatePath, onKey: boolean): [number, number] {
+    for (let length = issuePath.length; length > 0; length--) {
+      const parent = this.document.getIn(issuePath.slice(0, length - 1), true);
+      const key = issuePath[length - 1];
+      let node: any;
+      if (isMap(parent)) {
+        const pair = parent.items.find(
+          (item) => TemplateEditor.keyOf(item.key) === String(key)
+        );
+        node =
+          onKey || length < issuePath.length || !pair?.value
+            ? pair?.key
+            : pair.value;
+      } else if (isSeq(parent) && typeof key === "number") {
+        node = parent.items[key];
+      }
+      if (node?.range) {
+        return [node.range[0], node.range[1]];
+      }
+    }
+    const contents: any = this.document.contents;
+    return contents?.range ? [contents.range[0], contents.range[0]] : [0, 0];
+  }
+}
+
+function isObject(value: any): boolean {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function isIntrinsic(value: any): boolean {
+  if (!isObject(value)) {
+    return false;
+  }
+  const keys = Object.keys(value);
+  return keys.length === 1 && TemplateIO.intrinsicName(keys[0]) !== undefined;
+}
+
+/**
+ * Closest candidate by edit distance, if it is close enough to be a typo
+ */
+function closest(value: string, candidates: string[]): string | undefined {
+  let best: string | undefined;
+  let bestDistance = Infinity;
+  for (const candidate of candidates) {
+    const distance = editDistance(value.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return bestDistance <= Math.max(2, Math.floor(value.length / 3))
+    ? best
+    : undefined;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
@@ -8,6 +8,16 @@ export interface LocalLambdaConfig {
   runtime: string;
   architecture: string;
   buildMethod: string;
+  apiHost?: string;
+  apiPort?: number;
+  defaultEvent?: string;
+  /** Function resource in template.yaml */
+  logicalId?: string;
+  /** ARN of an existing event source resource instead of a generated one */
+  eventSourceArn?: string;
+  /** JSON paths left out when responses are compared with their snapshot */
+  snapshotIgnore?: string[];
+  build?: GoBuildOptions;
   environment?: {
     variables: { [key: string]: string };
     lastUpdated?: string;
@@ -22,3 +32,201 @@ export interface LocalLambdaConfig {
     layers?: string[];
   };
 }
+
+/**
+ * How `go build` builds a function, kept as `build` in its Gecko metadata
+ */
+export interface GoBuildOptions {
+  /** Passed as -tags */
+  tags?: string[];
+  /** Added to the default -s -w (e.g. -X main.version=1.2.3) */
+  ldflags?: string;
+  trimpath?: boolean;
+  /** Package built from the module root (e.g. ./cmd/api) instead of the source directory */
+  packagePath?: string;
+  goflags?: string;
+  goprivate?: string;
+  /** Extra environment variables of go build */
+  env?: { [key: string]: string };
+  /** Files or directories added to the ZIP package, relative to the source directory */
+  include?: string[];
+}
+
+/**
+ * Outcome of a `go build` of a function, published by `BuildUtils.onDidBuild`
+ */
+export interface GoBuildResult {
+  lambdaDir: string;
+  functionName: string;
+  /** Directory go ran in, which relative paths of the output start from */
+  cwd: string;
+  succeeded: boolean;
+  /** Compiler output of a failed build */
+  output?: string;
+}
+
+export interface EventKind {
+  id: string;
+  label: string;
+  description: string;
+  icon: string;
+  goTypes: string[];
+  responseTypes?: string[];
+  samEventType?: string;
+  template: any;
+  sampleData?: any;
+  samEvents(functionName: string): any;
+  functionProperties?: any;
+  eventSource?: EventSourceResource;
+}
+
+/**
+ * Resource an event source reads from. Generated templates declare it, or
+ * take the ARN of an existing one as a parameter when SAM allows it.
+ */
+export interface EventSourceResource {
+  logicalId: string;
+  label: string;
+  /** Event property that references the resource */
+  property: string;
+  resource: any;
+  existing?: {
+    parameter: string;
+    description: string;
+    arnService: string;
+  };
+}
+
+export interface GoHandlerInfo {
+  handlerName: string;
+  file: string;
+  line: number;
+  inputType: string | null;
+  outputType: string | null;
+  eventType: string | null;
+}
+
+export interface GoEntryPoint {
+  importPath: string;
+  functions: string[];
+  eventType?: string;
+}
+
+export interface InvocationError {
+  errorMessage: string;
+  errorType: string;
+  stackTrace?: any;
+}
+
+/**
+ * Figures of the `REPORT RequestId: ...` line written after each invocation
+ */
+export interface InvocationReport {
+  durationMs: number;
+  billedDurationMs: number;
+  memorySizeMb?: number;
+  maxMemoryUsedMb?: number;
+  /** Only reported for the first invocation of a new runtime (cold start) */
+  initDurationMs?: number;
+}
+
+export interface InvocationResult {
+  requestId: string;
+  payload?: any;
+  rawPayload: string;
+  error?: InvocationError;
+  /** What the function itself logged */
+  logs: string;
+  durationMs: number;
+  exitCode?: number | null;
+  report?: InvocationReport;
+  /** Output of the runner around the invocation (SAM CLI, container) */
+  runnerOutput?: string;
+}
+
+export interface InvocationRecord {
+  id: string;
+  timestamp: string;
+  eventName: string;
+  mode: string;
+  durationMs: number;
+  status: "success" | "error";
+  exitCode?: number | null;
+  error?: InvocationError;
+  logs: string;
+  requestId?: string;
+  report?: InvocationReport;
+  runnerOutput?: string;
+}
+
+export interface SnapshotComparison {
+  passed: boolean;
+  /** Both responses as compared: JSON bodies decoded, ignored paths masked */
+  expected: string;
+  actual: string;
+}
+
+/**
+ * Checks on the response of a test event, read from `assertions/<event>.json`
+ */
+export interface EventAssertions {
+  statusCode?: number;
+  maxDurationMs?: number;
+  /** JSON path → the value found there */
+  equals?: { [jsonPath: string]: any };
+  /** JSON path → a substring, array item or partial object found there */
+  contains?: { [jsonPath: string]: any };
+}
+
+export interface AssertionFailure {
+  message: string;
+  expected?: string;
+  actual?: string;
+}
+
+export type TemplatePath = (string | number)[];
+
+export interface TemplateLocation {
+  templatePath: string;
+  /** Workspace entry directory holding template.yaml */
+  stackDir: string;
+  /** Function resource of a multi-function stack */
+  logicalId?: string;
+}
+
+/**
+ * A change to template.yaml that resolves a validation issue: either a new
+ * value at `path` or a new name for the key at `path`
+ */
+export interface TemplateFix {
+  title: string;
+  path: TemplatePath;
+  value?: any;
+  renameKey?: string;
+  /** Removes the key at the path */
+  remove?: boolean;
+}
+
+export interface TemplateIssue {
+  code: string;
+  severity: "error" | "warning" | "info";
+  message: string;
+  path: TemplatePath;
+  /** Offsets in the template content */
+  start: number;
+  end: number;
+  fix?: TemplateFix;
+}
+
+/**
+ * A function resource of a hand-written SAM template, linked to the Go main
+ * package its `CodeUri` points at
+ */
+export interface SamFunctionImport {
+  logicalId: string;
+  sourceFile: string;
+  sourceDir: string;
+  eventType: string;
+  architecture: string;
+  runtime: string;
+}
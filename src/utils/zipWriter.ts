@@ -0,0 +1,121 @@
+import { deflateRawSync } from "zlib";
+
+export interface ZipEntry {
+  /** Path inside the archive, with forward slashes */
+  name: string;
+  data: Buffer;
+  /** Unix permissions, such as 0o755 */
+  mode: number;
+}
+
+/** MS-DOS date of 1980-01-01, the earliest a ZIP entry can have */
+const DOS_DATE = (1 << 5) | 1;
+const DOS_TIME = 0;
+/** Version 2.0 (deflate) made on Unix, so the permissions are kept */
+const VERSION_MADE_BY = (3 << 8) | 20;
+const VERSION_NEEDED = 20;
+/** File names are UTF-8 */
+const FLAGS = 1 << 11;
+/** Limits of the 32-bit sizes and offsets and 16-bit entry count, without ZIP64 */
+const MAX_SIZE = 0xffffffff;
+const MAX_ENTRIES = 0xffff;
+
+let crcTable: Uint32Array | undefined;
+
+/**
+ * Writes ZIP archives that are the same bytes for the same files: entries
+ * are sorted by name, every timestamp is 1980-01-01 and permissions are
+ * given by the caller, so the archive's SHA-256 only changes with its content.
+ */
+export class ZipWriter {
+  static create(entries: ZipEntry[]): Buffer {
+    if (entries.length > MAX_ENTRIES) {
+      throw new Error(
+        `A ZIP package holds at most ${MAX_ENTRIES} files, got ${entries.length}`
+      );
+    }
+    const sorted = [...entries].sort((a, b) =>
+      a.name < b.name ? -1 : a.name > b.name ? 1 : 0
+    );
+    const localParts: Buffer[] = [];
+    const centralParts: Buffer[] = [];
+    let offset = 0;
+
+    for (const entry of sorted) {
+      if (entry.data.length > MAX_SIZE) {
+        throw new Error(`${entry.name} is too large for a ZIP package`);
+      }
+      const name = Buffer.from(entry.name, "utf8");
+      const deflated = deflateRawSync(entry.data, { level: 9 });
+      const stored = deflated.length >= entry.data.length;
+      const data = stored ? entry.data : deflated;
+      const crc = this.crc32(entry.data);
+
+      const local = Buffer.alloc(30);
+      local.writeUInt32LE(0x04034b50, 0);
+      local.writeUInt16LE(VERSION_NEEDED, 4);
+      local.writeUInt16LE(FLAGS, 6);
+      local.writeUInt16LE(stored ? 0 : 8, 8);
+      local.writeUInt16LE(DOS_TIME, 10);
+      local.writeUInt16LE(DOS_DATE, 12);
+      local.writeUInt32LE(crc, 14);
+      local.writeUInt32LE(data.length, 18);
+      local.writeUInt32LE(entry.data.length, 22);
+      local.writeUInt16LE(name.length, 26);
+      local.writeUInt16LE(0, 28);
+
+      const central = Buffer.alloc(46);
+      central.writeUInt32LE(0x02014b50, 0);
+      central.writeUInt16LE(VERSION_MADE_BY, 4);
+      central.writeUInt16LE(VERSION_NEEDED, 6);
+      central.writeUInt16LE(FLAGS, 8);
+      central.writeUInt16LE(stored ? 0 : 8, 10);
+      central.writeUInt16LE(DOS_TIME, 12);
+      central.writeUInt16LE(DOS_DATE, 14);
+      central.writeUInt32LE(crc, 16);
+      central.writeUInt32LE(data.length, 20);
+      central.writeUInt32LE(entry.data.length, 24);
+      central.writeUInt16LE(name.length, 28);
+      // Extra field, comment, disk number and internal attributes stay 0
+      central.writeUInt32LE(((0o100000 | entry.mode) << 16) >>> 0, 38);
+      central.writeUInt32LE(offset, 42);
+
+      localParts.push(local, name, data);
+      centralParts.push(central, name);
+      offset += local.length + name.length + data.length;
+      if (offset > MAX_SIZE) {
+        throw new Error(`The ZIP package is too large after ${entry.name}`);
+      }
+    }
+
+    const centralDirectory = Buffer.concat(centralParts);
+    if (offset + centralDirectory.length > MAX_SIZE) {
+      throw new Error("The ZIP package is too large for its central directory");
+    }
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(sorted.length, 8);
+    end.writeUInt16LE(sorted.length, 10);
+    end.writeUInt32LE(centralDirectory.length, 12);
+    end.writeUInt32LE(offset, 16);
+    return Buffer.concat([...localParts, centralDirectory, end]);
+  }
+
+  private static crc32(data: Buffer): number {
+    if (!crcTable) {
+      crcTable = new Uint32Array(256);
+      for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+          c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        crcTable[n] = c >>> 0;
+      }
+    }
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+      crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+  }
+}
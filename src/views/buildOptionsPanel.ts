@@ -0,0 +1,214 @@
+import * as vscode from "vscode";
+import { randomBytes } from "crypto";
+import {
+  BuildUtils,
+  ConfigManager,
+  GoBuildOptions,
+  TemplateManager,
+} from "../utils";
+import { logError } from "../logger";
+
+interface BuildOptionsForm {
+  tags: string;
+  ldflags: string;
+  trimpath: boolean;
+  packagePath: string;
+  goflags: string;
+  goprivate: string;
+  env: string;
+  include: string;
+}
+
+/**
+ * Webview form editing the Go build options of a function, saved as `build`
+ * in its Gecko metadata. A single panel is reused for every function.
+ */
+export class BuildOptionsPanel {
+  private static current: BuildOptionsPanel | undefined;
+
+  private constructor(
+    private panel: vscode.WebviewPanel,
+    private lambdaDir: string
+  ) {
+    panel.onDidDispose(() => {
+      BuildOptionsPanel.current = undefined;
+    });
+    panel.webview.onDidReceiveMessage(async (message) => {
+      if (message?.command !== "save") {
+        return;
+      }
+      try {
+        await this.save(message.form);
+      } catch (error) {
+        logError("Could not save the build options", error, true);
+      }
+    });
+  }
+
+  static show(lambdaDir: string): void {
+    if (this.current) {
+      this.current.lambdaDir = lambdaDir;
+      this.current.panel.reveal(vscode.ViewColumn.Active);
+    } else {
+      this.current = new BuildOptionsPanel(
+        vscode.window.createWebviewPanel(
+          "geckoBuildOptions",
+          "Build Options",
+          vscode.ViewColumn.Active,
+          { enableScripts: true }
+        ),
+        lambdaDir
+      );
+    }
+    this.current.render();
+  }
+
+  private render(): void {
+    const localConfig = ConfigManager.readLocalConfig(this.lambdaDir);
+    this.panel.title = `🔨 ${localConfig.functionName}`;
+    this.panel.webview.html = this.getHtml(
+      localConfig.functionName,
+      localConfig.sourceDir,
+      localConfig.build || {}
+    );
+  }
+
+  private async save(form: BuildOptionsForm): Promise<void> {
+    const env: { [key: string]: string } = {};
+    for (const line of String(form.env || "").split(/\r?\n/)) {
+      if (!line.trim()) {
+        continue;
+      }
+      const match = /^\s*([A-Za-z_][A-Za-z0-9_]*)=(.*)$/.exec(line);
+      if (!match) {
+        vscode.window.showErrorMessage(
+          `Environment variables are written NAME=value, one per line: "${line.trim()}"`
+        );
+        return;
+      }
+      env[match[1]] = match[2];
+    }
+
+    const build = BuildUtils.parseBuildOptions({ ...form, env });
+    TemplateManager.updateGeckoMetadataValues(this.lambdaDir, { build });
+    const { functionName } = ConfigManager.readLocalConfig(this.lambdaDir);
+    vscode.commands.executeCommand("gecko.refreshTreeView");
+    vscode.window.showInformationMessage(
+      `🔨 Saved the build options of ${functionName}. The next run or debug session rebuilds it.`
+    );
+    this.render();
+  }
+
+  private getHtml(
+    functionName: string,
+    sourceDir: string,
+    build: GoBuildOptions
+  ): string {
+    const nonce = randomBytes(16).toString("base64");
+    const env = Object.entries(build.env || {})
+      .map(([key, value]) => `${key}=${value}`)
+      .join("\n");
+    const field = (
+      id: keyof BuildOptionsForm,
+      label: string,
+      value: string | undefined,
+      hint: string
+    ) => `<label for="${id}">${label}</label>
+    <input id="${id}" type="text" value="${this.escape(value || "")}">
+    <div class="hint">${hint}</div>`;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 16px 16px; max-width: 720px; }
+    h1 { font-size: 1.4em; margin-bottom: 4px; }
+    .details, .hint { color: var(--vscode-descriptionForeground); }
+    .hint { font-size: 0.9em; margin: 2px 0 14px; }
+    label { display: block; font-weight: bold; margin-top: 8px; }
+    input[type=text], textarea { width: 100%; box-sizing: border-box; padding: 4px; font-family: var(--vscode-editor-font-family); color: var(--vscode-input-foreground); background: var(--vscode-input-background); border: 1px solid var(--vscode-input-border, transparent); }
+    .checkbox { display: flex; gap: 6px; align-items: center; font-weight: bold; margin-top: 8px; }
+    button { margin-top: 8px; background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 4px 12px; cursor: pointer; }
+    button:hover { background: var(--vscode-button-hoverBackground); }
+  </style>
+</head>
+<body>
+  <h1>Build Options</h1>
+  <div class="details">${this.escape(functionName)} · ${this.escape(
+      sourceDir
+    )}</div>
+  <form id="form">
+    ${field(
+      "packagePath",
+      "Package",
+      build.packagePath,
+      "Package built from the module root, such as ./cmd/api. Empty builds the source directory"
+    )}
+    ${field(
+      "tags",
+      "Build tags",
+      build.tags?.join(", "),
+      "Comma separated, passed as -tags"
+    )}
+    ${field(
+      "ldflags",
+      "Extra ldflags",
+      build.ldflags,
+      "Added to -s -w, such as -X main.version=1.2.3"
+    )}
+    <label class="checkbox"><input id="trimpath" type="checkbox"${
+      build.trimpath ? " checked" : ""
+    }> -trimpath</label>
+    <div class="hint">Removes file system paths from the binary (ignored by Debug Lambda)</div>
+    ${field("goflags", "GOFLAGS", build.goflags, "Flags every go command uses")}
+    ${field(
+      "goprivate",
+      "GOPRIVATE",
+      build.goprivate,
+      "Module path patterns fetched directly instead of through the proxy, such as github.com/acme/*"
+    )}
+    <label for="env">Environment variables</label>
+    <textarea id="env" rows="4">${this.escape(env)}</textarea>
+    <div class="hint">NAME=value, one per line, set for go build (e.g. GOEXPERIMENT, CGO_ENABLED)</div>
+    ${field(
+      "include",
+      "Extra files",
+      build.include?.join(", "),
+      "Files or directories added to lambda-function.zip next to bootstrap, relative to the source directory, such as config.yaml, templates"
+    )}
+    <button type="submit">Save</button>
+  </form>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    document.getElementById("form").addEventListener("submit", (event) => {
+      event.preventDefault();
+      const value = (id) => document.getElementById(id).value;
+      vscode.postMessage({
+        command: "save",
+        form: {
+          packagePath: value("packagePath"),
+          tags: value("tags"),
+          ldflags: value("ldflags"),
+          trimpath: document.getElementById("trimpath").checked,
+          goflags: value("goflags"),
+          goprivate: value("goprivate"),
+          env: value("env"),
+          include: value("include"),
+        },
+      });
+    });
+  </script>
+</body>
+</html>`;
+  }
+
+  private escape(text: string): string {
+    return text
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;");
+  }
+}
@@ -2,7 +2,21 @@ import * as vscode from "vscode";
 import * as path from "path";
 import * as fs from "fs";
 import { LambdaDetector, LambdaConfig } from "../detector";
-import { ConfigManager, LocalLambdaConfig } from "../utils";
+import {
+  ConfigManager,
+  EventKinds,
+  BuildUtils,
+  EventStore,
+  HistoryStore,
+  SnapshotStore,
+  AssertionStore,
+  TemplateIO,
+} from "../utils";
+import { ApiGatewayEmulator } from "../runtime/apiGatewayEmulator";
+import { ApiServerRegistry } from "../runtime/apiServerRegistry";
+import { BuildQueue } from "../runtime/buildQueue";
+import { BuildDiagnostics } from "../diagnostics/buildDiagnostics";
+import { log } from "../logger";
 
 export class LambdaTreeProvider
   implements vscode.TreeDataProvider<LambdaTreeItem>
@@ -40,6 +54,15 @@ export class LambdaTreeProvider
       return Promise.resolve([]);
     }
 
+    if (element?.contextValue === "eventsFolder") {
+      return Promise.resolve(this.getEventItems(element.config));
+    }
+    if (element?.contextValue === "historyFolder") {
+      return Promise.resolve(this.getHistoryItems(element.config));
+    }
+    if (element?.contextValue === "lambdaStack") {
+      return Promise.resolve(this.getStackFunctions(element.config.stack!));
+    }
     if (element) {
       return Promise.resolve(this.getLambdaFiles(element.config));
     } else {
@@ -47,80 +70,138 @@ export class LambdaTreeProvider
     }
   }
 
+  /**
+   * Workspace entries: single lambdas, and stacks grouping the functions that
+   * share their template.yaml
+   */
   private getLambdas(): LambdaTreeItem[] {
     try {
       const lambdaConfigs = this.detector.getAllLambdaFunctions(
         this.workspacePath
       );
-      return lambdaConfigs.map((config) => {
-        const lambdaDir = path.join(config.workspacePath, config.functionName);
-        let buildStatus = "❌";
-        let localConfig: LocalLambdaConfig | null = null;
-        try {
-          ConfigManager.cleanupConfigJson(lambdaDir);
-          localConfig = ConfigManager.readLocalConfig(lambdaDir);
-          const buildPath = path.join(lambdaDir, "build", "bootstrap");
-          buildStatus = fs.existsSync(buildPath) ? "✅" : "❌";
-        } catch (error) {
-          console.warn(
-            `Could not read template.yaml for ${config.functionName}:`,
-            error
-          );
-          buildStatus = "⚠️";
+      const items: LambdaTreeItem[] = [];
+      for (const config of lambdaConfigs) {
+        if (!config.stack) {
+          items.push(this.createLambdaItem(config, config.functionName));
+        } else if (!items.some((item) => item.config.stack === config.stack)) {
+          items.push(this.createStackItem(config, lambdaConfigs));
         }
-
-        const item = new LambdaTreeItem(
-          `${config.functionName}`,
-          vscode.TreeItemCollapsibleState.Collapsed,
-          config,
-          "lambda"
-        );
-        item.description = `${config.eventType} ${buildStatus}`;
-        item.tooltip = `Event Type: ${config.eventType}\nBuild Status: ${
-          buildStatus === "✅"
-            ? "Built"
-            : buildStatus === "⚠️"
-            ? "Template Missing"
-            : "Not Built"
-        }\nSource: ${config.sourceFile}\nConfig: template.yaml only`;
-        item.iconPath = new vscode.ThemeIcon(
-          config.eventType === "apigateway"
-            ? "globe"
-            : config.eventType === "s3"
-            ? "database"
-            : config.eventType === "dynamodb"
-            ? "table"
-            : config.eventType === "sqs"
-            ? "mail"
-            : "symbol-function"
-        );
-        item.contextValue = "lambdaFunction";
-        return item;
-      });
+      }
+      return items;
     } catch (error) {
       console.error("Error getting lambdas:", error);
       return [];
     }
   }
 
+  private getStackFunctions(stack: string): LambdaTreeItem[] {
+    return this.detector
+      .getAllLambdaFunctions(this.workspacePath)
+      .filter((config) => config.stack === stack)
+      .map((config) => this.createLambdaItem(config, config.logicalId!));
+  }
+
+  private createStackItem(
+    config: LambdaConfig,
+    lambdaConfigs: LambdaConfig[]
+  ): LambdaTreeItem {
+    const stackDir = path.join(config.workspacePath, config.stack!);
+    const functions = lambdaConfigs.filter(
+      (other) => other.stack === config.stack
+    );
+    const item = new LambdaTreeItem(
+      config.stack!,
+      vscode.TreeItemCollapsibleState.Expanded,
+      config,
+      "stack",
+      stackDir
+    );
+    item.description = `${functions.length} function${
+      functions.length === 1 ? "" : "s"
+    }`;
+    item.tooltip = `Stack: ${stackDir}\nFunctions: ${functions
+      .map((other) => other.logicalId)
+      .join(", ")}\nConfig: shared template.yaml`;
+    item.iconPath = new vscode.ThemeIcon("layers");
+    item.contextValue = "lambdaStack";
+    return item;
+  }
+
+  private createLambdaItem(config: LambdaConfig, label: string): LambdaTreeItem {
+    const lambdaDir = path.join(config.workspacePath, config.functionName);
+    let buildStatus = "❌";
+    try {
+      ConfigManager.cleanupConfigJson(lambdaDir);
+      const buildPath = BuildUtils.getBinaryPath(lambdaDir, {
+        buildMethod: config.buildMethod || "direct",
+      });
+      buildStatus = fs.existsSync(buildPath) ? "✅" : "❌";
+    } catch (error) {
+      log(
+        `⚠️ Could not read template.yaml for ${config.functionName}: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+      buildStatus = "⚠️";
+    }
+
+    const item = new LambdaTreeItem(
+      label,
+      vscode.TreeItemCollapsibleState.Collapsed,
+      config,
+      "lambda"
+    );
+    const native = config.buildMethod === "native";
+    item.description = `${config.eventType}${native ? " · native" : ""} ${buildStatus}`;
+    item.tooltip = `Event Type: ${config.eventType}\nBuild Status: ${
+      buildStatus === "✅"
+        ? "Built"
+        : buildStatus === "⚠️"
+        ? "Template Missing"
+        : "Not Built"
+    }\nRun Mode: ${native ? "Native (no Docker)" : "SAM (Docker)"}\nSource: ${
+      config.sourceFile
+    }\nConfig: template.yaml only`;
+    item.iconPath = new vscode.ThemeIcon(
+      EventKinds.getIcon(config.eventType)
+    );
+    const buildFailure = BuildDiagnostics.getInstance().getFailure(lambdaDir);
+    if (buildFailure) {
+      item.description = `${config.eventType} · build failed`;
+      item.tooltip += `\nBuild failed: ${buildFailure}`;
+      item.iconPath = new vscode.ThemeIcon(
+        EventKinds.getIcon(config.eventType),
+        new vscode.ThemeColor("errorForeground")
+      );
+    }
+    const buildState = BuildQueue.getInstance().getState(config.functionName);
+    if (buildState) {
+      item.description = `${config.eventType} · ${buildState}`;
+      item.iconPath = new vscode.ThemeIcon(
+        buildState === "building" ? "sync~spin" : "clock"
+      );
+    }
+    item.contextValue = "lambdaFunction";
+    return item;
+  }
+
   private getLambdaFiles(config: LambdaConfig): LambdaTreeItem[] {
     const lambdaDir = path.join(config.workspacePath, config.functionName);
     const files: LambdaTreeItem[] = [];
+    if (ApiGatewayEmulator.supports(config.eventType)) {
+      files.push(this.getApiServerItem(config));
+    }
     const fileConfigs = [
       {
         name: "template.yaml",
+        path: TemplateIO.getTemplatePath(lambdaDir),
         icon: "file-code",
         description: "SAM template (source of truth)",
         contextValue: "templateFile",
       },
-      {
-        name: "event.json",
-        icon: "symbol-object",
-        description: "Test event data",
-        contextValue: "eventFile",
-      },
       {
         name: "response.json",
+        path: path.join(lambdaDir, "response.json"),
         icon: "output",
         description: "Last execution response",
         contextValue: "responseFile",
@@ -128,7 +209,7 @@ export class LambdaTreeProvider
     ];
 
     fileConfigs.forEach((fileConfig) => {
-      const filePath = path.join(lambdaDir, fileConfig.name);
+      const filePath = fileConfig.path;
       if (fs.existsSync(filePath)) {
         const stats = fs.statSync(filePath);
         const item = new LambdaTreeItem(
@@ -153,17 +234,55 @@ export class LambdaTreeProvider
       }
     });
 
-    const eventFilePath = path.join(lambdaDir, "event.json");
-    if (config.eventType === "apigateway" && !fs.existsSync(eventFilePath)) {
+    const eventNames = EventStore.list(lambdaDir);
+    const isApi = ApiGatewayEmulator.supports(config.eventType);
+    if (!isApi || eventNames.length > 0) {
+      const eventsItem = new LambdaTreeItem(
+        "Events",
+        eventNames.length
+          ? vscode.TreeItemCollapsibleState.Expanded
+          : vscode.TreeItemCollapsibleState.None,
+        config,
+        "folder"
+      );
+      eventsItem.description = `${eventNames.length} test event${
+        eventNames.length === 1 ? "" : "s"
+      }`;
+      eventsItem.tooltip = `Named test events in ${EventStore.getEventsDir(lambdaDir)}`;
+      eventsItem.iconPath = new vscode.ThemeIcon("symbol-object");
+      eventsItem.contextValue = "eventsFolder";
+      eventsItem.filePath = EventStore.getEventsDir(lambdaDir);
+      const templateIndex = files.findIndex(
+        (item) => item.contextValue === "templateFile"
+      );
+      files.splice(templateIndex + 1, 0, eventsItem);
+    }
+
+    const history = HistoryStore.list(lambdaDir);
+    if (history.length > 0) {
+      const historyItem = new LambdaTreeItem(
+        "History",
+        vscode.TreeItemCollapsibleState.Collapsed,
+        config,
+        "folder"
+      );
+      historyItem.description = `${history.length} run${history.length === 1 ? "" : "s"}`;
+      historyItem.tooltip = `Last run: ${new Date(history[0].timestamp).toLocaleString()}`;
+      historyItem.iconPath = new vscode.ThemeIcon("history");
+      historyItem.contextValue = "historyFolder";
+      files.push(historyItem);
+    }
+
+    if (isApi && eventNames.length === 0) {
       const infoItem = new LambdaTreeItem(
         "ℹ️ API Gateway Info",
         vscode.TreeItemCollapsibleState.None,
         config,
         "file"
       );
-      infoItem.description = "No event.json needed";
+      infoItem.description = "No test events needed";
       infoItem.tooltip =
-        "API Gateway Lambdas don't need event.json files.\nUse 'Run Lambda' on template.yaml to start the server.";
+        "API Gateway Lambdas don't need test events.\nUse 'Run Lambda' on template.yaml to start the server.";
       infoItem.iconPath = new vscode.ThemeIcon("info");
       infoItem.contextValue = "infoFile";
       files.push(infoItem);
@@ -187,6 +306,118 @@ export class LambdaTreeProvider
 
     return files;
   }
+
+  private getEventItems(config: LambdaConfig): LambdaTreeItem[] {
+    const lambdaDir = path.join(config.workspacePath, config.functionName);
+    const defaultEvent = EventStore.resolveDefault(lambdaDir, config.defaultEvent);
+    return EventStore.list(lambdaDir).map((name) => {
+      const eventPath = EventStore.getEventPath(lambdaDir, name);
+      const isDefault = name === defaultEvent;
+      const item = new LambdaTreeItem(
+        name,
+        vscode.TreeItemCollapsibleState.None,
+        config,
+        "event",
+        eventPath
+      );
+      const hasSnapshot = SnapshotStore.exists(lambdaDir, name);
+      const hasAssertions = AssertionStore.exists(lambdaDir, name);
+      item.eventName = name;
+      item.description =
+        [
+          isDefault && "default",
+          hasSnapshot && "snapshot",
+          hasAssertions && "assertions",
+        ]
+          .filter((label) => label)
+          .join(" · ") || undefined;
+      item.tooltip = `${eventPath}\nLast modified: ${fs
+        .statSync(eventPath)
+        .mtime.toLocaleString()}${isDefault ? "\nUsed by Run Lambda" : ""}${
+        hasSnapshot
+          ? `\nExpected response: ${SnapshotStore.getSnapshotPath(lambdaDir, name)}`
+          : ""
+      }${
+        hasAssertions
+          ? `\nAssertions: ${AssertionStore.getAssertionsPath(lambdaDir, name)}`
+          : ""
+      }`;
+      item.iconPath = new vscode.ThemeIcon(isDefault ? "star-full" : "json");
+      item.contextValue = `${isDefault ? "eventFileDefault" : "eventFile"}${
+        hasSnapshot ? "Snapshot" : ""
+      }`;
+      item.command = {
+        command: "vscode.open",
+        title: "Open Event",
+        arguments: [vscode.Uri.file(eventPath)],
+      };
+      return item;
+    });
+  }
+
+  private getHistoryItems(config: LambdaConfig): LambdaTreeItem[] {
+    const lambdaDir = path.join(config.workspacePath, config.functionName);
+    return HistoryStore.list(lambdaDir).map((record) => {
+      const succeeded = record.status === "success";
+      const item = new LambdaTreeItem(
+        new Date(record.timestamp).toLocaleString(),
+        vscode.TreeItemCollapsibleState.None,
+        config,
+        "history",
+        HistoryStore.getResponsePath(lambdaDir, record.id)
+      );
+      item.historyId = record.id;
+      item.description = `${record.eventName} · ${record.durationMs} ms · ${record.mode}`;
+      item.tooltip = `Event: ${record.eventName}\nDuration: ${record.durationMs} ms\nStatus: ${
+        succeeded ? "success" : `${record.error?.errorType}: ${record.error?.errorMessage}`
+      }${record.exitCode !== undefined ? `\nExit code: ${record.exitCode}` : ""}`;
+      item.iconPath = new vscode.ThemeIcon(
+        succeeded ? "pass" : "error",
+        new vscode.ThemeColor(succeeded ? "testing.iconPassed" : "testing.iconFailed")
+      );
+      item.contextValue = "historyRecord";
+      item.command = {
+        command: "vscode.open",
+        title: "Open Response",
+        arguments: [vscode.Uri.file(item.filePath!)],
+      };
+      return item;
+    });
+  }
+
+  private getApiServerItem(config: LambdaConfig): LambdaTreeItem {
+    const server = ApiServerRegistry.getInstance().get(config.functionName);
+    const item = new LambdaTreeItem(
+      "API Server",
+      vscode.TreeItemCollapsibleState.None,
+      config,
+      "apiServer"
+    );
+    if (server) {
+      item.description = `running · ${server.url}`;
+      item.tooltip = `Running since ${new Date(
+        server.startedAt
+      ).toLocaleTimeString()} (${
+        server.mode === "native" ? "built-in emulator" : "sam local start-api"
+      })\nClick to open in the browser`;
+      item.iconPath = new vscode.ThemeIcon(
+        "vm-running",
+        new vscode.ThemeColor("testing.iconPassed")
+      );
+      item.contextValue = "apiServerRunning";
+      item.command = {
+        command: "vscode.open",
+        title: "Open in Browser",
+        arguments: [vscode.Uri.parse(server.url)],
+      };
+    } else {
+      item.description = `stopped · port ${config.apiPort || "auto"}`;
+      item.tooltip = "Run the Lambda to start its API server";
+      item.iconPath = new vscode.ThemeIcon("vm-outline");
+      item.contextValue = "apiServerStopped";
+    }
+    return item;
+  }
 }
 
 export class LambdaTreeItem extends vscode.TreeItem {
@@ -194,9 +425,19 @@ export class LambdaTreeItem extends vscode.TreeItem {
     public readonly label: string,
     public readonly collapsibleState: vscode.TreeItemCollapsibleState,
     public readonly config: LambdaConfig,
-    public readonly itemType: "lambda" | "file" | "folder",
+    public readonly itemType:
+      | "lambda"
+      | "stack"
+      | "file"
+      | "folder"
+      | "event"
+      | "history"
+      | "apiServer",
     public filePath?: string
   ) {
     super(label, collapsibleState);
   }
+
+  eventName?: string;
+  historyId?: string;
 }
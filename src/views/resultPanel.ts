@@ -0,0 +1,457 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import { randomBytes } from "crypto";
+import {
+  CurlBuilder,
+  EventStore,
+  InvocationRecord,
+  InvocationReport,
+  LocalLambdaConfig,
+  SnapshotStore,
+  TemplateManager,
+} from "../utils";
+import { ApiGatewayEmulator } from "../runtime/apiGatewayEmulator";
+import { ApiServerRegistry } from "../runtime/apiServerRegistry";
+import { LambdaIndex } from "../lambdaIndex";
+import { logError } from "../logger";
+
+interface ShownInvocation {
+  localConfig: LocalLambdaConfig;
+  lambdaDir: string;
+  record: InvocationRecord;
+  response: any;
+}
+
+type Severity = "error" | "warning" | "info" | "debug";
+
+const DEFAULT_API_HOST = "127.0.0.1";
+const DEFAULT_API_PORT = 3000;
+
+/**
+ * Webview showing the outcome of an invocation: its status, the API response
+ * or payload, the function logs and the figures of the REPORT line, with
+ * buttons to run the event again, keep the response as the expected snapshot
+ * or copy the event as a curl command. A single panel is reused for every run.
+ */
+export class ResultPanel {
+  private static current: ResultPanel | undefined;
+
+  private constructor(
+    private panel: vscode.WebviewPanel,
+    private shown: ShownInvocation
+  ) {
+    panel.onDidDispose(() => {
+      ResultPanel.current = undefined;
+    });
+    panel.webview.onDidReceiveMessage(async (message) => {
+      try {
+        await this.handleMessage(message?.command);
+      } catch (error) {
+        logError(
+          `Result panel action "${message?.command}" failed`,
+          error,
+          true
+        );
+      }
+    });
+  }
+
+  static show(
+    localConfig: LocalLambdaConfig,
+    lambdaDir: string,
+    record: InvocationRecord,
+    response: any
+  ): void {
+    const shown = { localConfig, lambdaDir, record, response };
+    if (this.current) {
+      this.current.shown = shown;
+      this.current.panel.reveal(vscode.ViewColumn.Beside, true);
+    } else {
+      this.current = new ResultPanel(
+        vscode.window.createWebviewPanel(
+          "geckoInvocationResult",
+          "Invocation Result",
+          { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+          { enableScripts: true }
+        ),
+        shown
+      );
+    }
+    this.current.panel.title = `🦎 ${localConfig.functionName}`;
+    this.current.panel.webview.html = this.current.getHtml();
+  }
+
+  private async handleMessage(command: string): Promise<void> {
+    switch (command) {
+      case "rerun":
+        await this.rerun();
+        break;
+      case "saveSnapshot":
+        await this.saveSnapshot();
+        break;
+      case "copyCurl":
+        await this.copyCurl();
+        break;
+    }
+  }
+
+  /**
+   * Runs the same event again through the tree's run flow, rebuilding first
+   * if the sources changed
+   */
+  private async rerun(): Promise<void> {
+    const { localConfig, lambdaDir, record } = this.shown;
+    const config = LambdaIndex.getInstance()
+      .getAll(localConfig.workspacePath)
+      .find((entry) => entry.functionName === localConfig.functionName);
+    if (!config || !EventStore.exists(lambdaDir, record.eventName)) {
+      vscode.window.showErrorMessage(
+        `Event "${record.eventName}" of ${localConfig.functionName} no longer exists`
+      );
+      return;
+    }
+    await vscode.commands.executeCommand("gecko.tree.runWithEvent", {
+      config,
+      eventName: record.eventName,
+    });
+  }
+
+  private async saveSnapshot(): Promise<void> {
+    const { lambdaDir, record, response } = this.shown;
+    const snapshotPath = SnapshotStore.save(
+      lambdaDir,
+      record.eventName,
+      response
+    );
+    vscode.commands.executeCommand("gecko.refreshTreeView");
+    const selection = await vscode.window.showInformationMessage(
+      `📸 This response is now the expected result of "${record.eventName}"`,
+      "Open Snapshot"
+    );
+    if (selection === "Open Snapshot") {
+      const document = await vscode.workspace.openTextDocument(snapshotPath);
+      await vscode.window.showTextDocument(document);
+    }
+  }
+
+  /**
+   * API events are sent to the function's local API server, any other event
+   * to the Lambda endpoint of `sam local start-lambda`
+   */
+  private async copyCurl(): Promise<void> {
+    const { localConfig, lambdaDir, record } = this.shown;
+    const eventPath = EventStore.getEventPath(lambdaDir, record.eventName);
+    if (!fs.existsSync(eventPath)) {
+      vscode.window.showErrorMessage(
+        `Event "${record.eventName}" of ${localConfig.functionName} no longer exists`
+      );
+      return;
+    }
+    const event = JSON.parse(fs.readFileSync(eventPath, "utf8"));
+    const curl = ApiGatewayEmulator.supports(localConfig.eventType)
+      ? CurlBuilder.fromApiEvent(event, this.getApiUrl(localConfig))
+      : CurlBuilder.fromInvokeEvent(
+          event,
+          TemplateManager.getInvokeTarget(localConfig)
+        );
+    await vscode.env.clipboard.writeText(curl);
+    vscode.window.showInformationMessage(
+      "📋 curl command copied to the clipboard"
+    );
+  }
+
+  private getApiUrl(localConfig: LocalLambdaConfig): string {
+    const running = ApiServerRegistry.getInstance().get(
+      localConfig.functionName
+    );
+    if (running) {
+      return running.url;
+    }
+    const settings = vscode.workspace.getConfiguration("gecko.api");
+    const host =
+      localConfig.apiHost || settings.get<string>("host") || DEFAULT_API_HOST;
+    const port =
+      localConfig.apiPort ||
+      settings.get<number>("basePort") ||
+      DEFAULT_API_PORT;
+    return `http://${host}:${port}`;
+  }
+
+  private getHtml(): string {
+    const { localConfig, record, response } = this.shown;
+    const nonce = randomBytes(16).toString("base64");
+    const succeeded = record.status === "success";
+    const details = [
+      record.eventName,
+      record.mode,
+      new Date(record.timestamp).toLocaleString(),
+      record.requestId,
+    ].filter((detail) => detail);
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 16px 16px; }
+    h1 { font-size: 1.4em; margin-bottom: 4px; }
+    h2 { font-size: 1.1em; margin-top: 24px; border-bottom: 1px solid var(--vscode-panel-border); padding-bottom: 4px; }
+    .details { color: var(--vscode-descriptionForeground); }
+    .actions { margin-top: 12px; display: flex; gap: 8px; }
+    button { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); border: none; padding: 4px 12px; cursor: pointer; }
+    button:hover { background: var(--vscode-button-secondaryHoverBackground); }
+    button.primary { background: var(--vscode-button-background); color: var(--vscode-button-foreground); }
+    button.primary:hover { background: var(--vscode-button-hoverBackground); }
+    .success { color: var(--vscode-testing-iconPassed); }
+    .error { color: var(--vscode-testing-iconFailed); }
+    .status { font-size: 1.2em; font-weight: bold; }
+    table { border-collapse: collapse; }
+    td { padding: 2px 24px 2px 0; vertical-align: top; }
+    .metrics td:last-child { font-family: var(--vscode-editor-font-family); text-align: right; }
+    .headers td:first-child { color: var(--vscode-descriptionForeground); }
+    .headers td:last-child { font-family: var(--vscode-editor-font-family); word-break: break-all; }
+    pre, .logs { font-family: var(--vscode-editor-font-family); font-size: var(--vscode-editor-font-size); background: var(--vscode-textCodeBlock-background); padding: 8px; overflow-x: auto; white-space: pre-wrap; word-break: break-word; }
+    pre { margin: 0; }
+    .log-error { color: var(--vscode-errorForeground); }
+    .log-warning { color: var(--vscode-editorWarning-foreground); }
+    .log-debug { color: var(--vscode-descriptionForeground); }
+    .empty { color: var(--vscode-descriptionForeground); font-style: italic; }
+  </style>
+</head>
+<body>
+  <h1><span class="${succeeded ? "success" : "error"}">${
+      succeeded ? "✔" : "✘"
+    }</span> ${this.escape(localConfig.functionName)}</h1>
+  <div class="details">${details
+    .map((detail) => this.escape(String(detail)))
+    .join(" · ")}</div>
+  <div class="actions">
+    <button class="primary" data-command="rerun">Re-run</button>
+    <button data-command="saveSnapshot">Save as Expected Snapshot</button>
+    <button data-command="copyCurl">Copy as curl</button>
+  </div>
+  ${record.error ? this.getErrorHtml(record) : ""}
+  ${
+    !record.error && this.isApiResponse(response)
+      ? this.getApiResponseHtml(response)
+      : `<h2>${record.error ? "Error Response" : "Payload"}</h2>
+  ${this.getPreHtml(this.formatBody(response))}`
+  }
+  <h2>Function Logs</h2>
+  ${this.getLogsHtml(record.logs)}
+  <h2>Report</h2>
+  ${this.getReportHtml(record.report, record.durationMs)}
+  ${
+    record.runnerOutput
+      ? `<details><summary>Runner Output</summary>${this.getPreHtml(
+          record.runnerOutput
+        )}</details>`
+      : ""
+  }
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    document.querySelectorAll("button[data-command]").forEach((button) =>
+      button.addEventListener("click", () => vscode.postMessage({ command: button.dataset.command }))
+    );
+  </script>
+</body>
+</html>`;
+  }
+
+  private getErrorHtml(record: InvocationRecord): string {
+    return `<h2 class="error">${this.escape(record.error!.errorType)}</h2>
+  ${this.getPreHtml(record.error!.errorMessage)}`;
+  }
+
+  /**
+   * Proxy integration responses (`statusCode`, `headers`, `body`), with the
+   * body decoded from base64 and JSON where possible
+   */
+  private isApiResponse(response: any): boolean {
+    return (
+      !!response &&
+      typeof response === "object" &&
+      !Array.isArray(response) &&
+      typeof response.statusCode === "number"
+    );
+  }
+
+  private getApiResponseHtml(response: any): string {
+    const statusCode: number = response.statusCode;
+    const headers: [string, string][] = [
+      ...Object.entries<any>(response.headers || {}).map(
+        ([name, value]): [string, string] => [name, String(value)]
+      ),
+      ...Object.entries<any>(response.multiValueHeaders || {}).flatMap(
+        ([name, values]) =>
+          (Array.isArray(values) ? values : [values]).map(
+            (value): [string, string] => [name, String(value)]
+          )
+      ),
+      ...(Array.isArray(response.cookies) ? response.cookies : []).map(
+        (cookie: any): [string, string] => ["Set-Cookie", String(cookie)]
+      ),
+    ];
+
+    let body = response.body;
+    if (typeof body === "string" && response.isBase64Encoded) {
+      const decoded = Buffer.from(body, "base64");
+      body = /[\x00-\x08\x0e-\x1f\ufffd]/.test(decoded.toString("utf8"))
+        ? undefined
+        : decoded.toString("utf8");
+      if (body === undefined) {
+        return `${this.getStatusHtml(statusCode)}${this.getHeadersHtml(headers)}
+  <h2>Body</h2>
+  <p class="empty">Binary body (${decoded.length} bytes)</p>`;
+      }
+    }
+    return `${this.getStatusHtml(statusCode)}${this.getHeadersHtml(headers)}
+  <h2>Body</h2>
+  ${this.getPreHtml(
+    typeof body === "string"
+      ? this.formatBody(this.parseJson(body))
+      : this.formatBody(body)
+  )}`;
+  }
+
+  private getStatusHtml(statusCode: number): string {
+    return `<h2>Response</h2>
+  <div class="status ${
+    statusCode < 400 ? "success" : "error"
+  }">${statusCode}</div>`;
+  }
+
+  private getHeadersHtml(headers: [string, string][]): string {
+    return `<h2>Headers</h2>
+  ${
+    headers.length
+      ? `<table class="headers">${headers
+          .map(
+            ([name, value]) =>
+              `<tr><td>${this.escape(name)}</td><td>${this.escape(
+                value
+              )}</td></tr>`
+          )
+          .join("")}</table>`
+      : `<p class="empty">No headers</p>`
+  }`;
+  }
+
+  private getLogsHtml(logs: string | undefined): string {
+    if (!logs || !logs.trim()) {
+      return `<p class="empty">The function logged nothing</p>`;
+    }
+    return `<div class="logs">${logs
+      .split(/\r?\n/)
+      .map(
+        (line) =>
+          `<div class="log-${this.getSeverity(line)}">${
+            this.escape(line) || "&nbsp;"
+          }</div>`
+      )
+      .join("")}</div>`;
+  }
+
+  /**
+   * Reads the level of structured (JSON or key=value) log lines, and looks
+   * for level keywords and Go panics in plain ones
+   */
+  private getSeverity(line: string): Severity {
+    let level = "";
+    const trimmed = line.trim();
+    if (trimmed.startsWith("{")) {
+      try {
+        const parsed = JSON.parse(trimmed);
+        level = String(parsed.level ?? parsed.severity ?? parsed.lvl ?? "");
+      } catch {
+        // Not JSON after all, fall back to the keywords
+      }
+    }
+    level =
+      level || /\b(?:level|lvl|severity)=["']?(\w+)/i.exec(line)?.[1] || line;
+    if (
+      /\b(?:error|err|fatal|panic|critical|crit)\b|^panic:|^goroutine \d+ \[/i.test(
+        level
+      )
+    ) {
+      return "error";
+    }
+    if (/\bwarn(?:ing)?\b/i.test(level)) {
+      return "warning";
+    }
+    if (/\b(?:debug|trace)\b/i.test(level)) {
+      return "debug";
+    }
+    return "info";
+  }
+
+  private getReportHtml(
+    report: InvocationReport | undefined,
+    roundTripMs: number
+  ): string {
+    const rows: [string, string | undefined][] = [
+      ["Duration", report && `${report.durationMs.toFixed(2)} ms`],
+      ["Billed Duration", report && `${report.billedDurationMs} ms`],
+      [
+        "Init Duration",
+        report?.initDurationMs !== undefined
+          ? `${report.initDurationMs.toFixed(2)} ms`
+          : undefined,
+      ],
+      [
+        "Memory Size",
+        report?.memorySizeMb !== undefined
+          ? `${report.memorySizeMb} MB`
+          : undefined,
+      ],
+      [
+        "Max Memory Used",
+        report?.maxMemoryUsedMb !== undefined
+          ? `${report.maxMemoryUsedMb} MB`
+          : undefined,
+      ],
+      ["Round Trip", `${roundTripMs} ms`],
+    ];
+    return `${
+      report
+        ? ""
+        : `<p class="empty">No REPORT line was captured for this run</p>`
+    }
+  <table class="metrics">${rows
+    .filter(([, value]) => value !== undefined)
+    .map(
+      ([label, value]) =>
+        `<tr><td>${label}</td><td>${this.escape(value!)}</td></tr>`
+    )
+    .join("")}</table>`;
+  }
+
+  private parseJson(text: string): any {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+
+  private formatBody(body: any): string {
+    return typeof body === "string"
+      ? body
+      : JSON.stringify(body ?? null, null, 2);
+  }
+
+  private getPreHtml(content: string | undefined, emptyText = "Empty"): string {
+    return content && content.trim()
+      ? `<pre>${this.escape(content)}</pre>`
+      : `<p class="empty">${emptyText}</p>`;
+  }
+
+  private escape(text: string): string {
+    return text
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;");
+  }
+}
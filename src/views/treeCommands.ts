@@ -2,14 +2,29 @@ import * as vscode from "vscode";
 import * as path from "path";
 import * as fs from "fs";
 import { LambdaTreeItem } from "./lambdaTreeProvider";
-import { ConfigManager, BuildUtils, AWSUtils, StringUtils } from "../utils";
-import { exec } from "child_process";
-import { promisify } from "util";
-
-const execAsync = promisify(exec);
+import {
+  ConfigManager,
+  BuildUtils,
+  AWSUtils,
+  TemplateIO,
+  TemplateManager,
+  EventStore,
+  HistoryStore,
+  SnapshotStore,
+  AssertionStore,
+} from "../utils";
+import { NativeRunner, RUN_MODES } from "../runtime/nativeRunner";
+import { ApiGatewayEmulator } from "../runtime/apiGatewayEmulator";
+import { ApiServerRegistry } from "../runtime/apiServerRegistry";
+import { SamRunner } from "../runtime/samRunner";
+import { DebugRunner } from "../runtime/debugRunner";
+import { BuildQueue } from "../runtime/buildQueue";
+import { LambdaIndex } from "../lambdaIndex";
+import { ResultPanel } from "./resultPanel";
+import { BuildOptionsPanel } from "./buildOptionsPanel";
+import { log } from "../logger";
 
 export class TreeCommands {
-  private apiServerTerminal: vscode.Terminal | undefined;
 
   constructor(private context: vscode.ExtensionContext) {}
 
@@ -21,7 +36,10 @@ export class TreeCommands {
       );
       ConfigManager.cleanupConfigJson(lambdaDir);
       const localConfig = ConfigManager.readLocalConfig(lambdaDir);
-      const needsBuild = BuildUtils.needsRebuild(localConfig, lambdaDir);
+      const needsBuild = await BuildUtils.needsRebuild(
+        localConfig,
+        lambdaDir
+      );
       if (needsBuild) {
         console.log(`🔨 Building ${localConfig.functionName} before run...`);
         await this.buildLambdaFromTree(item);
@@ -33,16 +51,35 @@ export class TreeCommands {
           `✅ ${localConfig.functionName} is already built and up-to-date!`
         );
       }
-      if (localConfig.eventType === "apigateway") {
+      // A specific event is invoked directly, even for API functions
+      if (ApiGatewayEmulator.supports(localConfig.eventType) && !item.eventName) {
         await this.runApiGatewayLambda(localConfig, lambdaDir);
       } else {
-        await this.runRegularLambda(localConfig, lambdaDir);
+        await this.runRegularLambda(localConfig, lambdaDir, item.eventName);
       }
     } catch (error) {
       vscode.window.showErrorMessage(`Failed to run lambda: ${error}`);
     }
   }
 
+  /**
+   * Builds the selected functions in parallel, stacks with all their functions
+   */
+  async buildSelectedFromTree(
+    item: LambdaTreeItem,
+    selected?: LambdaTreeItem[]
+  ): Promise<void> {
+    const items = selected?.length ? selected : [item];
+    const configs = items.flatMap((selectedItem) =>
+      selectedItem.contextValue === "lambdaStack"
+        ? LambdaIndex.getInstance()
+            .getAll(selectedItem.config.workspacePath)
+            .filter((config) => config.stack === selectedItem.config.stack)
+        : [selectedItem.config]
+    );
+    await BuildQueue.getInstance().build(configs, "Build Selected");
+  }
+
   async buildLambdaFromTree(item: LambdaTreeItem): Promise<void> {
     try {
       const lambdaDir = path.join(
@@ -51,7 +88,10 @@ export class TreeCommands {
       );
       ConfigManager.cleanupConfigJson(lambdaDir);
       const localConfig = ConfigManager.readLocalConfig(lambdaDir);
-      const needsBuild = BuildUtils.needsRebuild(localConfig, lambdaDir);
+      const needsBuild = await BuildUtils.needsRebuild(
+        localConfig,
+        lambdaDir
+      );
       if (!needsBuild) {
         vscode.window.showInformationMessage(
           `✅ ${localConfig.functionName} is already up-to-date, no build needed!`
@@ -83,11 +123,38 @@ export class TreeCommands {
     }
   }
 
+  /**
+   * Debugs a lambda with the selected event, or its default event, under
+   * Delve and the native runtime emulator
+   */
+  async debugLambdaFromTree(item: LambdaTreeItem): Promise<void> {
+    const lambdaDir = this.getLambdaDir(item);
+    try {
+      ConfigManager.cleanupConfigJson(lambdaDir);
+      const localConfig = ConfigManager.readLocalConfig(lambdaDir);
+      const eventName =
+        item.eventName ||
+        EventStore.resolveDefault(lambdaDir, localConfig.defaultEvent);
+      if (!eventName) {
+        vscode.window.showInformationMessage(
+          `${localConfig.functionName} has no test events to debug with. Create one first.`
+        );
+        return;
+      }
+      await DebugRunner.run(
+        localConfig,
+        lambdaDir,
+        EventStore.getEventPath(lambdaDir, eventName)
+      );
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to debug lambda: ${error}`);
+    }
+  }
+
   async openLambdaDirectory(item: LambdaTreeItem): Promise<void> {
-    const lambdaDir = path.join(
-      item.config.workspacePath,
-      item.config.functionName
-    );
+    const lambdaDir =
+      item.filePath ||
+      path.join(item.config.workspacePath, item.config.functionName);
     await vscode.commands.executeCommand(
       "vscode.openFolder",
       vscode.Uri.file(lambdaDir),
@@ -113,8 +180,10 @@ export class TreeCommands {
       item.config.workspacePath,
       item.config.functionName
     );
-    const eventFilePath = path.join(lambdaDir, "event.json");
-    if (item.config.eventType === "apigateway") {
+    const eventName =
+      item.eventName ||
+      EventStore.resolveDefault(lambdaDir, item.config.defaultEvent);
+    if (!eventName && ApiGatewayEmulator.supports(item.config.eventType)) {
       vscode.window
         .showInformationMessage(
           `🌐 API Gateway Lambdas don't need event files. Use "Run Lambda" to start the local server and test with HTTP requests.`,
@@ -128,13 +197,352 @@ export class TreeCommands {
         });
       return;
     }
-    if (!fs.existsSync(eventFilePath)) {
-      vscode.window.showErrorMessage(
-        "Event file not found. Please configure the lambda first."
+    if (!eventName) {
+      await this.newEvent(item);
+      return;
+    }
+    await this.openEvent(EventStore.getEventPath(lambdaDir, eventName));
+  }
+
+  async newEvent(item: LambdaTreeItem): Promise<void> {
+    const lambdaDir = path.join(
+      item.config.workspacePath,
+      item.config.functionName
+    );
+    const name = await this.promptEventName(
+      lambdaDir,
+      EventStore.uniqueName(lambdaDir, EventStore.DEFAULT_EVENT),
+      "Name of the new test event"
+    );
+    if (!name) {
+      return;
+    }
+    const eventPath = EventStore.create(lambdaDir, name, item.config.eventType);
+    vscode.commands.executeCommand("gecko.refreshTreeView");
+    await this.openEvent(eventPath);
+  }
+
+  async duplicateEvent(item: LambdaTreeItem): Promise<void> {
+    const lambdaDir = path.join(
+      item.config.workspacePath,
+      item.config.functionName
+    );
+    const name = await this.promptEventName(
+      lambdaDir,
+      EventStore.uniqueName(lambdaDir, `${item.eventName}-copy`),
+      `Name of the copy of "${item.eventName}"`
+    );
+    if (!name) {
+      return;
+    }
+    try {
+      const eventPath = EventStore.duplicate(lambdaDir, item.eventName!, name);
+      vscode.commands.executeCommand("gecko.refreshTreeView");
+      await this.openEvent(eventPath);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to duplicate event: ${error}`);
+    }
+  }
+
+  async renameEvent(item: LambdaTreeItem): Promise<void> {
+    const lambdaDir = path.join(
+      item.config.workspacePath,
+      item.config.functionName
+    );
+    const name = await this.promptEventName(
+      lambdaDir,
+      item.eventName!,
+      `New name for "${item.eventName}"`
+    );
+    if (!name || name === item.eventName) {
+      return;
+    }
+    try {
+      EventStore.rename(lambdaDir, item.eventName!, name);
+      SnapshotStore.rename(lambdaDir, item.eventName!, name);
+      AssertionStore.rename(lambdaDir, item.eventName!, name);
+      if (item.config.defaultEvent === item.eventName) {
+        TemplateManager.updateGeckoMetadataValues(lambdaDir, {
+          defaultEvent: name,
+        });
+      }
+      vscode.commands.executeCommand("gecko.refreshTreeView");
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to rename event: ${error}`);
+    }
+  }
+
+  async deleteEvent(item: LambdaTreeItem): Promise<void> {
+    const confirmation = await vscode.window.showWarningMessage(
+      `Delete test event "${item.eventName}" of ${item.config.functionName}?`,
+      "Delete",
+      "Cancel"
+    );
+    if (confirmation !== "Delete") {
+      return;
+    }
+    const lambdaDir = path.join(
+      item.config.workspacePath,
+      item.config.functionName
+    );
+    EventStore.delete(lambdaDir, item.eventName!);
+    SnapshotStore.delete(lambdaDir, item.eventName!);
+    AssertionStore.delete(lambdaDir, item.eventName!);
+    if (item.config.defaultEvent === item.eventName) {
+      TemplateManager.updateGeckoMetadataValues(lambdaDir, {
+        defaultEvent: undefined,
+      });
+    }
+    vscode.commands.executeCommand("gecko.refreshTreeView");
+  }
+
+  async setDefaultEvent(item: LambdaTreeItem): Promise<void> {
+    const lambdaDir = path.join(
+      item.config.workspacePath,
+      item.config.functionName
+    );
+    TemplateManager.updateGeckoMetadataValues(lambdaDir, {
+      defaultEvent: item.eventName,
+    });
+    vscode.window.showInformationMessage(
+      `⭐ "${item.eventName}" is now the default event of ${item.config.functionName}`
+    );
+  }
+
+  /**
+   * Keeps the latest response of an event, or the one in response.json, as
+   * the expected result of its event
+   */
+  async saveSnapshot(item: LambdaTreeItem): Promise<void> {
+    const lambdaDir = this.getLambdaDir(item);
+    const record = HistoryStore.list(lambdaDir).find(
+      (entry) => !item.eventName || entry.eventName === item.eventName
+    );
+    if (!record || !EventStore.exists(lambdaDir, record.eventName)) {
+      vscode.window.showInformationMessage(
+        item.eventName
+          ? `Run "${item.eventName}" first to have a response to keep`
+          : "The last response doesn't belong to an existing test event"
+      );
+      return;
+    }
+    if (SnapshotStore.exists(lambdaDir, record.eventName)) {
+      const confirmation = await vscode.window.showWarningMessage(
+        `Replace the expected response of "${record.eventName}" with the response of ${new Date(
+          record.timestamp
+        ).toLocaleString()}?`,
+        "Replace",
+        "Cancel"
+      );
+      if (confirmation !== "Replace") {
+        return;
+      }
+    }
+    // The entry may have been pruned by a run since it was listed
+    const response = HistoryStore.loadResponse(lambdaDir, record.id);
+    if (response === undefined) {
+      vscode.window.showWarningMessage(
+        `The response of ${new Date(
+          record.timestamp
+        ).toLocaleString()} is no longer in the history. Run "${record.eventName}" again to keep its response.`
+      );
+      return;
+    }
+    SnapshotStore.save(lambdaDir, record.eventName, response);
+    vscode.commands.executeCommand("gecko.refreshTreeView");
+    vscode.window.showInformationMessage(
+      `📸 Saved the expected response of "${record.eventName}"`
+    );
+  }
+
+  async openSnapshot(item: LambdaTreeItem): Promise<void> {
+    const document = await vscode.workspace.openTextDocument(
+      SnapshotStore.getSnapshotPath(this.getLambdaDir(item), item.eventName!)
+    );
+    await vscode.window.showTextDocument(document);
+  }
+
+  /**
+   * Opens the assertions of an event, creating them from its latest response
+   * first when it has none
+   */
+  async editAssertions(item: LambdaTreeItem): Promise<void> {
+    const lambdaDir = this.getLambdaDir(item);
+    const eventName = item.eventName!;
+    if (!AssertionStore.exists(lambdaDir, eventName)) {
+      const record = HistoryStore.list(lambdaDir).find(
+        (entry) => entry.eventName === eventName
+      );
+      AssertionStore.create(
+        lambdaDir,
+        eventName,
+        record && HistoryStore.loadResponse(lambdaDir, record.id)
       );
+      vscode.commands.executeCommand("gecko.refreshTreeView");
+    }
+    const document = await vscode.workspace.openTextDocument(
+      AssertionStore.getAssertionsPath(lambdaDir, eventName)
+    );
+    await vscode.window.showTextDocument(document);
+  }
+
+  editBuildOptions(item: LambdaTreeItem): void {
+    BuildOptionsPanel.show(this.getLambdaDir(item));
+  }
+
+  async editSnapshotIgnore(item: LambdaTreeItem): Promise<void> {
+    const lambdaDir = this.getLambdaDir(item);
+    const localConfig = ConfigManager.readLocalConfig(lambdaDir);
+    const value = await vscode.window.showInputBox({
+      prompt: `JSON paths ${item.config.functionName} leaves out of snapshot comparisons, separated by commas`,
+      placeHolder: "headers.Date, body.requestId, **.timestamp",
+      value: (localConfig.snapshotIgnore || []).join(", "),
+    });
+    if (value === undefined) {
       return;
     }
-    const document = await vscode.workspace.openTextDocument(eventFilePath);
+    const paths = value
+      .split(",")
+      .map((jsonPath) => jsonPath.trim())
+      .filter((jsonPath) => jsonPath);
+    TemplateManager.updateGeckoMetadataValues(lambdaDir, {
+      snapshotIgnore: paths.length > 0 ? paths : undefined,
+    });
+  }
+
+  showHistoryResult(item: LambdaTreeItem): void {
+    const lambdaDir = this.getLambdaDir(item);
+    const record = HistoryStore.get(lambdaDir, item.historyId!);
+    const response = record && HistoryStore.loadResponse(lambdaDir, record.id);
+    if (!record || response === undefined) {
+      vscode.window.showWarningMessage("This run is no longer in the history");
+      return;
+    }
+    ResultPanel.show(
+      ConfigManager.readLocalConfig(lambdaDir),
+      lambdaDir,
+      record,
+      response
+    );
+  }
+
+  async showHistoryLogs(item: LambdaTreeItem): Promise<void> {
+    const record = HistoryStore.get(this.getLambdaDir(item), item.historyId!);
+    if (!record) {
+      return;
+    }
+    const document = await vscode.workspace.openTextDocument({
+      content: record.logs || "(no logs captured)",
+      language: "log",
+    });
+    await vscode.window.showTextDocument(document, {
+      viewColumn: vscode.ViewColumn.Beside,
+      preview: true,
+    });
+  }
+
+  async compareWithPrevious(item: LambdaTreeItem): Promise<void> {
+    const lambdaDir = this.getLambdaDir(item);
+    const previous = HistoryStore.previous(lambdaDir, item.historyId!);
+    if (!previous) {
+      vscode.window.showInformationMessage(
+        "This is the oldest run in the history, there is nothing to compare it with"
+      );
+      return;
+    }
+    await this.diffRuns(item, previous.id, item.historyId!);
+  }
+
+  async compareHistory(item: LambdaTreeItem): Promise<void> {
+    const lambdaDir = this.getLambdaDir(item);
+    const others = HistoryStore.list(lambdaDir).filter(
+      (record) => record.id !== item.historyId
+    );
+    if (others.length === 0) {
+      vscode.window.showInformationMessage(
+        "Run the lambda again to have another response to compare with"
+      );
+      return;
+    }
+    const selected = await vscode.window.showQuickPick(
+      others.map((record) => ({
+        label: new Date(record.timestamp).toLocaleString(),
+        description: `${record.eventName} · ${record.durationMs} ms · ${record.status}`,
+        record,
+      })),
+      { placeHolder: "Select the run to compare with" }
+    );
+    if (!selected) {
+      return;
+    }
+    // Older run on the left, newer on the right
+    const [left, right] =
+      selected.record.id < item.historyId!
+        ? [selected.record.id, item.historyId!]
+        : [item.historyId!, selected.record.id];
+    await this.diffRuns(item, left, right);
+  }
+
+  async clearHistory(item: LambdaTreeItem): Promise<void> {
+    const confirmation = await vscode.window.showWarningMessage(
+      `Delete the run history of ${item.config.functionName}?`,
+      "Clear History",
+      "Cancel"
+    );
+    if (confirmation === "Clear History") {
+      HistoryStore.clear(this.getLambdaDir(item));
+      vscode.commands.executeCommand("gecko.refreshTreeView");
+    }
+  }
+
+  private async diffRuns(
+    item: LambdaTreeItem,
+    leftId: string,
+    rightId: string
+  ): Promise<void> {
+    const lambdaDir = this.getLambdaDir(item);
+    const label = (id: string) => {
+      const record = HistoryStore.get(lambdaDir, id);
+      return record
+        ? `${record.eventName} @ ${new Date(record.timestamp).toLocaleString()}`
+        : id;
+    };
+    await vscode.commands.executeCommand(
+      "vscode.diff",
+      vscode.Uri.file(HistoryStore.getResponsePath(lambdaDir, leftId)),
+      vscode.Uri.file(HistoryStore.getResponsePath(lambdaDir, rightId)),
+      `${item.config.functionName}: ${label(leftId)} ↔ ${label(rightId)}`
+    );
+  }
+
+  private getLambdaDir(item: LambdaTreeItem): string {
+    return path.join(item.config.workspacePath, item.config.functionName);
+  }
+
+  private async promptEventName(
+    lambdaDir: string,
+    value: string,
+    prompt: string
+  ): Promise<string | undefined> {
+    const name = await vscode.window.showInputBox({
+      prompt,
+      value,
+      validateInput: (input) => {
+        const trimmed = input.trim();
+        if (!EventStore.isValidName(trimmed)) {
+          return "Event names can only contain letters, numbers, dots, hyphens and underscores";
+        }
+        if (trimmed !== value && EventStore.exists(lambdaDir, trimmed)) {
+          return `Event "${trimmed}" already exists`;
+        }
+        return null;
+      },
+    });
+    return name?.trim();
+  }
+
+  private async openEvent(eventPath: string): Promise<void> {
+    const document = await vscode.workspace.openTextDocument(eventPath);
     await vscode.window.showTextDocument(document, {
       viewColumn: vscode.ViewColumn.Beside,
       preview: false,
@@ -146,7 +554,7 @@ export class TreeCommands {
       item.config.workspacePath,
       item.config.functionName
     );
-    const templateFilePath = path.join(lambdaDir, "template.yaml");
+    const templateFilePath = TemplateIO.getTemplatePath(lambdaDir);
     if (!fs.existsSync(templateFilePath)) {
       vscode.window.showErrorMessage(
         "Template file not found. Please configure the lambda first."
@@ -198,8 +606,8 @@ export class TreeCommands {
           item.config.workspacePath,
           item.config.functionName
         );
-        if (fs.existsSync(lambdaDir)) {
-          fs.rmSync(lambdaDir, { recursive: true, force: true });
+        if (fs.existsSync(lambdaDir) || item.config.stack) {
+          ConfigManager.removeLambdaWorkspace(lambdaDir);
         }
         vscode.window.showInformationMessage(
           `✅ Lambda "${item.config.functionName}" removed from workspace. Source code preserved.`
@@ -288,11 +696,101 @@ export class TreeCommands {
     }
   }
 
-  async stopApiServer(): Promise<void> {
-    if (this.apiServerTerminal) {
-      this.apiServerTerminal.dispose();
-      this.apiServerTerminal = undefined;
-      vscode.window.showInformationMessage("🛑 API Gateway server stopped");
+  async switchRunMode(item: LambdaTreeItem): Promise<void> {
+    const lambdaDir = path.join(
+      item.config.workspacePath,
+      item.config.functionName
+    );
+    const current = item.config.buildMethod || "direct";
+    const selected = await vscode.window.showQuickPick(
+      RUN_MODES.map((mode) => ({
+        ...mode,
+        picked: mode.value === current,
+        label: mode.value === current ? `$(check) ${mode.label}` : mode.label,
+      })),
+      { placeHolder: `Run mode for ${item.config.functionName}` }
+    );
+    if (!selected || selected.value === current) {
+      return;
+    }
+    TemplateManager.updateGeckoMetadataValues(lambdaDir, {
+      buildMethod: selected.value,
+    });
+    vscode.window.showInformationMessage(
+      `🦎 ${item.config.functionName} now runs with ${selected.label.replace("$(check) ", "")}`
+    );
+  }
+
+  async stopApiServer(item?: LambdaTreeItem): Promise<void> {
+    const registry = ApiServerRegistry.getInstance();
+    let functionName = item?.config.functionName;
+    if (!functionName) {
+      const running = registry.getAll();
+      if (running.length === 0) {
+        vscode.window.showInformationMessage("No API Gateway servers running");
+        return;
+      }
+      const selected =
+        running.length === 1
+          ? { functionName: running[0].functionName }
+          : await vscode.window.showQuickPick(
+              running.map((server) => ({
+                label: server.functionName,
+                description: server.url,
+                functionName: server.functionName,
+              })),
+              { placeHolder: "Select the API server to stop" }
+            );
+      functionName = selected?.functionName;
+    }
+    if (functionName && registry.stop(functionName)) {
+      vscode.window.showInformationMessage(
+        `🛑 API Gateway server for ${functionName} stopped`
+      );
+    }
+  }
+
+  async configureApiServer(item: LambdaTreeItem): Promise<void> {
+    const lambdaDir = path.join(
+      item.config.workspacePath,
+      item.config.functionName
+    );
+    const localConfig = ConfigManager.readLocalConfig(lambdaDir);
+    const portInput = await vscode.window.showInputBox({
+      prompt: `API port for ${item.config.functionName} (leave empty to pick a free port automatically)`,
+      value: localConfig.apiPort ? String(localConfig.apiPort) : "",
+      validateInput: (value) => {
+        if (!value.trim()) {
+          return null;
+        }
+        const port = Number(value);
+        return Number.isInteger(port) && port > 0 && port < 65536
+          ? null
+          : "Port must be a number between 1 and 65535";
+      },
+    });
+    if (portInput === undefined) {
+      return;
+    }
+    const host = await vscode.window.showInputBox({
+      prompt: "Host to listen on",
+      value:
+        localConfig.apiHost ||
+        vscode.workspace.getConfiguration("gecko.api").get<string>("host") ||
+        "127.0.0.1",
+    });
+    if (host === undefined) {
+      return;
+    }
+    TemplateManager.updateGeckoMetadataValues(lambdaDir, {
+      apiPort: portInput.trim() ? Number(portInput) : undefined,
+      apiHost: host.trim() || undefined,
+    });
+    vscode.window.showInformationMessage(
+      `🔌 API server for ${item.config.functionName} set to ${host.trim() || "default host"}:${portInput.trim() || "auto"}`
+    );
+    if (ApiServerRegistry.getInstance().get(item.config.functionName)) {
+      await this.runLambdaFromTree(item);
     }
   }
 
@@ -300,64 +798,70 @@ export class TreeCommands {
     localConfig: any,
     lambdaDir: string
   ): Promise<void> {
-    const dockerAvailable = await AWSUtils.checkDockerAvailable();
-    if (!dockerAvailable) {
-      const result = await vscode.window.showErrorMessage(
-        "🐳 Docker is required for SAM local testing. Please start Docker Desktop and try again.",
-        "Open Docker",
-        "Retry"
-      );
-      if (result === "Open Docker") {
-        vscode.env.openExternal(
-          vscode.Uri.parse("https://docs.docker.com/get-docker/")
+    if (!BuildUtils.isNative(localConfig)) {
+      const dockerAvailable = await AWSUtils.checkDockerAvailable();
+      if (!dockerAvailable) {
+        const result = await vscode.window.showErrorMessage(
+          "🐳 Docker is required for SAM local testing. Please start Docker Desktop and try again.",
+          "Open Docker",
+          "Retry"
         );
+        if (result === "Open Docker") {
+          vscode.env.openExternal(
+            vscode.Uri.parse("https://docs.docker.com/get-docker/")
+          );
+        }
+        return;
       }
-      return;
-    }
-
-    if (this.apiServerTerminal) {
-      this.apiServerTerminal.dispose();
     }
 
-    const command = `sam local start-api --host localhost --port 3000`;
-    this.apiServerTerminal = vscode.window.createTerminal({
-      name: `🦎 API Gateway - ${localConfig.functionName}`,
-      cwd: lambdaDir,
-    });
-    this.apiServerTerminal.show(true);
-    this.apiServerTerminal.sendText(command);
+    const registry = ApiServerRegistry.getInstance();
+    const server = await registry.start(localConfig, lambdaDir);
     vscode.window
       .showInformationMessage(
-        `🌐 API Gateway started for ${localConfig.functionName}! Access at: http://localhost:3000`,
+        `🌐 API Gateway started for ${localConfig.functionName}! Access at: ${server.url}`,
         "Open Browser",
         "Stop Server"
       )
       .then((selection) => {
         if (selection === "Open Browser") {
-          vscode.env.openExternal(vscode.Uri.parse("http://localhost:3000"));
+          vscode.env.openExternal(vscode.Uri.parse(server.url));
         } else if (selection === "Stop Server") {
-          this.stopApiServer();
+          registry.stop(localConfig.functionName);
         }
       });
   }
 
   private async runRegularLambda(
     localConfig: any,
-    lambdaDir: string
+    lambdaDir: string,
+    eventName?: string
   ): Promise<void> {
-    const eventFilePath = path.join(lambdaDir, "event.json");
-    if (!fs.existsSync(eventFilePath)) {
+    const resolvedEvent =
+      eventName || EventStore.resolveDefault(lambdaDir, localConfig.defaultEvent);
+    if (!resolvedEvent) {
       const createEvent = await vscode.window.showInformationMessage(
-        "Event file not found. Create it now?",
+        "No test events found. Create one now?",
         "Yes",
         "No"
       );
       if (createEvent === "Yes") {
-        await vscode.commands.executeCommand("gecko.editEvent");
-        return;
-      } else {
-        return;
+        const eventPath = EventStore.create(
+          lambdaDir,
+          EventStore.DEFAULT_EVENT,
+          localConfig.eventType
+        );
+        await this.openEvent(eventPath);
+        vscode.commands.executeCommand("gecko.refreshTreeView");
       }
+      return;
+    }
+    const eventFilePath = EventStore.getEventPath(lambdaDir, resolvedEvent);
+    log(`📨 Using test event: ${resolvedEvent}`);
+
+    if (BuildUtils.isNative(localConfig)) {
+      await NativeRunner.run(localConfig, lambdaDir, eventFilePath);
+      return;
     }
 
     const dockerAvailable = await AWSUtils.checkDockerAvailable();
@@ -375,11 +879,11 @@ export class TreeCommands {
       return;
     }
 
-    const functionName =
-      StringUtils.toPascalCase(localConfig.functionName) + "Function";
-    const command = `sam local invoke "${functionName}" --event "${eventFilePath}"`;
-    const responseFilePath = path.join(lambdaDir, "response.json");
-    console.log(`🚀 Executing: ${command}`);
+    const command = SamRunner.getInvokeCommand(
+      localConfig,
+      lambdaDir,
+      eventFilePath
+    );
     console.log(`📁 Working directory: ${lambdaDir}`);
 
     const terminal = vscode.window.createTerminal({
@@ -389,108 +893,7 @@ export class TreeCommands {
     terminal.show(true);
     terminal.sendText(command);
 
-    try {
-      await vscode.window.withProgress(
-        {
-          location: vscode.ProgressLocation.Notification,
-          title: `🦎 Executing ${localConfig.functionName}`,
-          cancellable: false,
-        },
-        async (progress) => {
-          progress.report({
-            increment: 0,
-            message: "Starting Lambda execution...",
-          });
-
-          const { stdout, stderr } = await execAsync(command, {
-            cwd: lambdaDir,
-            timeout: 120000,
-            maxBuffer: 1024 * 1024 * 10,
-          });
-          progress.report({ increment: 50, message: "Processing response..." });
-
-          const response = this.parseResponse(stdout);
-          fs.writeFileSync(responseFilePath, JSON.stringify(response, null, 2));
-          console.log(`📄 Response saved to: ${responseFilePath}`);
-          progress.report({ increment: 100, message: "Execution complete!" });
-
-          await this.openResponseFile(responseFilePath);
-          vscode.window.showInformationMessage(
-            `✅ ${localConfig.functionName} executed successfully! Response opened automatically.`
-          );
-        }
-      );
-    } catch (error: any) {
-      console.error("SAM execution error:", error);
-
-      const errorResponse = {
-        error: true,
-        message: error.message,
-        stderr: error.stderr || "",
-        stdout: error.stdout || "",
-        timestamp: new Date().toISOString(),
-      };
-      fs.writeFileSync(
-        responseFilePath,
-        JSON.stringify(errorResponse, null, 2)
-      );
-
-      await this.openResponseFile(responseFilePath);
-      vscode.window.showErrorMessage(
-        `❌ Lambda execution failed. Error details opened automatically.`
-      );
-    }
-  }
-
-  private parseResponse(stdout: string): any {
-    try {
-      const lines = stdout.split("\n");
-      for (const line of lines) {
-        const trimmed = line.trim();
-        if (
-          trimmed.startsWith("{") ||
-          trimmed.startsWith("[") ||
-          trimmed === "null" ||
-          trimmed === "true" ||
-          trimmed === "false" ||
-          /^".*"$/.test(trimmed) ||
-          /^\d+(\.\d+)?$/.test(trimmed)
-        ) {
-          try {
-            return JSON.parse(trimmed);
-          } catch {
-            continue;
-          }
-        }
-      }
-      return {
-        output: stdout.trim(),
-        timestamp: new Date().toISOString(),
-        type: "raw_output",
-      };
-    } catch (error) {
-      return {
-        output: stdout.trim(),
-        error: "Failed to parse response",
-        timestamp: new Date().toISOString(),
-        type: "parse_error",
-      };
-    }
+    await SamRunner.run(localConfig, lambdaDir, eventFilePath);
   }
 
-  private async openResponseFile(responseFilePath: string): Promise<void> {
-    try {
-      const document = await vscode.workspace.openTextDocument(
-        responseFilePath
-      );
-      await vscode.window.showTextDocument(document, {
-        viewColumn: vscode.ViewColumn.Beside,
-        preview: false,
-      });
-      await vscode.languages.setTextDocumentLanguage(document, "json");
-      console.log(`📄 Response file opened: ${responseFilePath}`);
-    } catch (error) {
-      console.error("Error opening response file:", error);
-    }
-  }
 }